@@ -7,14 +7,31 @@ import { remarkTwoColumn } from '@mcoster/astro-local-package/utils/remark-two-c
 import { remarkSectionWrapper } from '@mcoster/astro-local-package/utils/remark-section-wrapper';
 import remarkShortcodes from '@mcoster/astro-local-package/utils/remark-shortcodes';
 import { getTemplateVariables } from '@mcoster/astro-local-package/utils/config-loader';
+import path from 'node:path';
+import { getProfilePaths, getProfileTemplateVariables, loadProfileConfig } from './src/config/profile';
 
-// Get template variables from business.yaml
-const shortcodeValues = getTemplateVariables();
+// Get template variables from business.yaml, with the active site profile layered on top
+const shortcodeValues = { ...getTemplateVariables(), ...getProfileTemplateVariables() };
+const profileConfig = loadProfileConfig();
+
+// Imports of src/data/suburbs.json read the active profile's suburbs instead
+const defaultSuburbsPath = path.resolve('src/data/suburbs.json');
+const { suburbsPath } = getProfilePaths();
+/** @type {import('vite').Plugin} */
+const profileSuburbs = {
+  name: 'profile-suburbs',
+  enforce: 'pre',
+  async resolveId(source, importer, options) {
+    if (suburbsPath === defaultSuburbsPath || !source.endsWith('suburbs.json')) return null;
+    const resolved = await this.resolve(source, importer, { ...options, skipSelf: true });
+    return resolved?.id === defaultSuburbsPath ? suburbsPath : null;
+  },
+};
 
 // https://astro.build/config
 export default defineConfig({
   // Site URL is required for sitemap generation
-  site: 'https://www.goldcoastroofcleaningpros.com.au',
+  site: profileConfig?.website.url ?? 'https://www.goldcoastroofcleaningpros.com.au',
   integrations: [sitemap()],
   markdown: {
     remarkPlugins: [
@@ -25,6 +42,6 @@ export default defineConfig({
     rehypePlugins: [rehypeRaw]
   },
   vite: {
-    plugins: [tailwindcss()]
+    plugins: [tailwindcss(), profileSuburbs]
   }
 });
\ No newline at end of file
@@ -0,0 +1,48 @@
+/**
+ * Quote Function
+ * Receives quote form and booking request posts at /api/quote, validates and
+ * spam-scores them and passes them down the delivery chain configured in the
+ * environment (LEAD_DELIVERY, SMTP_*, LEAD_WEBHOOK_URL, ...; see
+ * .env.example). Spam thresholds, the rate limit, business hours and booking
+ * rules come from business.yaml and the service area from the site profile's
+ * suburbs.json, which netlify.toml bundles with the function.
+ * Run it locally with `npm run functions:serve`.
+ */
+
+import { createLeadHandler } from '../../src/utils/lead-handler';
+import { getBookingConfirmation, getLeadDeliveries } from '../../src/utils/lead-delivery';
+import { getSpamSettings } from '../../src/utils/lead-spam';
+import { resolveBookingSettings } from '../../src/utils/booking';
+import { buildHoursModel } from '../../src/utils/business-hours';
+import { buildLookupIndex, isServicedSuburb, type LookupSuburb } from '../../src/utils/suburb-lookup';
+import { loadProfileConfig, readProfileSuburbs } from '../../src/config/profile';
+
+const businessConfig = loadProfileConfig();
+const deliveries = getLeadDeliveries(process.env);
+
+if (!process.env.LEAD_FORM_SECRET) {
+  console.warn('⚠️  LEAD_FORM_SECRET is not set: quote forms are timed by the browser instead of a signed form token');
+}
+
+// Suburbs with pages and those only mentioned on /locations are both serviced
+const { suburbs, mentions = [] } = readProfileSuburbs<{ suburbs: LookupSuburb[]; mentions?: LookupSuburb[] }>();
+const serviceArea = buildLookupIndex([], [...suburbs, ...mentions]);
+
+export default createLeadHandler({
+  deliveries,
+  spam: getSpamSettings(businessConfig),
+  formSecret: process.env.LEAD_FORM_SECRET,
+  // Without business.yaml there are no hours to book against: booking requests arrive as quote requests
+  booking: businessConfig ? {
+    settings: resolveBookingSettings(businessConfig.booking),
+    hours: buildHoursModel(businessConfig.hours, businessConfig.hours.exceptions, businessConfig.hours.timezone),
+    isServiced: (suburb) => isServicedSuburb(serviceArea, suburb),
+    businessName: businessConfig.business.name,
+    phone: businessConfig.business.phone,
+  } : undefined,
+  confirmBooking: getBookingConfirmation(process.env, { businessName: businessConfig?.business.name, phone: businessConfig?.business.phone }),
+});
+
+export const config = {
+  path: '/api/quote',
+};
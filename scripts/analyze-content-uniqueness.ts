@@ -0,0 +1,196 @@
+#!/usr/bin/env tsx
+
+/**
+ * Analyse Content Uniqueness
+ *
+ * Extracts the main text of every generated location page in dist/, compares
+ * each pair with MinHash (word shingles) and reports the most similar pages
+ * and the sections with the least variety, so we know which locationSections
+ * blocks need more spintax.
+ *
+ * Usage:
+ *   tsx scripts/analyze-content-uniqueness.ts [--dist=dist] [--dir=locations]
+ *     [--threshold=0.9] [--top=10] [--report=path.json]
+ *
+ * The build fails when any pair of pages is more similar than the threshold
+ * (--threshold or CONTENT_SIMILARITY_THRESHOLD). Without one it only reports.
+ */
+
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import { extractMain, extractSections, findHtmlFiles, htmlToText, toUrlPath } from './lib/dist-pages';
+import { estimateSimilarity, minHashSignature, type Signature } from './lib/minhash';
+
+interface AnalysedPage {
+  url: string;
+  signature: Signature;
+  sections: Array<{ heading: string; signature: Signature } | undefined>;
+}
+
+interface PairScore {
+  a: string;
+  b: string;
+  similarity: number;
+}
+
+interface SectionScore {
+  index: number;
+  heading: string;
+  mean: number;
+  max: number;
+  pages: number;
+}
+
+function getArg(name: string): string | undefined {
+  const flag = process.argv.find((arg) => arg.startsWith(`--${name}=`));
+  return flag?.slice(name.length + 3);
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function firstHeading(html: string): string {
+  const heading = html.match(/<h[1-3][^>]*>([\s\S]*?)<\/h[1-3]>/i)?.[1];
+  return heading ? htmlToText(heading) : '';
+}
+
+/**
+ * Pairwise similarity of every page that has a given section
+ */
+function scoreSection(pages: AnalysedPage[], index: number): SectionScore | undefined {
+  const withSection = pages.filter((page) => page.sections[index]);
+  if (withSection.length < 2) return undefined;
+
+  let total = 0;
+  let max = 0;
+  let pairs = 0;
+  for (let i = 0; i < withSection.length; i++) {
+    for (let j = i + 1; j < withSection.length; j++) {
+      const similarity = estimateSimilarity(withSection[i].sections[index]!.signature, withSection[j].sections[index]!.signature);
+      total += similarity;
+      max = Math.max(max, similarity);
+      pairs++;
+    }
+  }
+
+  return {
+    index,
+    heading: withSection[0].sections[index]!.heading,
+    mean: total / pairs,
+    max,
+    pages: withSection.length,
+  };
+}
+
+async function analyzeContentUniqueness(): Promise<void> {
+  const distDir = path.resolve(getArg('dist') ?? 'dist');
+  const pageDir = getArg('dir') ?? 'locations';
+  const thresholdValue = getArg('threshold') ?? process.env.CONTENT_SIMILARITY_THRESHOLD;
+  const threshold = thresholdValue ? Number(thresholdValue) : undefined;
+  const top = Number(getArg('top') ?? 10);
+  const reportPath = getArg('report');
+
+  console.log(`🔍 Analysing content uniqueness of /${pageDir} pages...\n`);
+
+  if (threshold !== undefined && !(threshold > 0 && threshold <= 1)) {
+    console.error(`❌ Threshold must be between 0 and 1, got "${thresholdValue}"`);
+    process.exit(1);
+  }
+
+  const targetDir = path.join(distDir, pageDir);
+  if (!existsSync(targetDir)) {
+    console.error(`❌ ${path.relative(process.cwd(), targetDir) || targetDir} not found. Run npm run build first.`);
+    process.exit(1);
+  }
+
+  // Only generated pages (dist/locations/<slug>/index.html), not the index page
+  const files = (await findHtmlFiles(targetDir)).filter((file) => path.dirname(file) !== targetDir);
+  const pages: AnalysedPage[] = [];
+
+  for (const file of files) {
+    const main = extractMain(await fs.readFile(file, 'utf8'));
+    const text = htmlToText(main);
+    if (!text) continue;
+
+    pages.push({
+      url: toUrlPath(distDir, file),
+      signature: minHashSignature(text),
+      sections: extractSections(main).map((section) => {
+        const sectionText = htmlToText(section);
+        return sectionText ? { heading: firstHeading(section), signature: minHashSignature(sectionText) } : undefined;
+      }),
+    });
+  }
+
+  if (pages.length < 2) {
+    console.log('⚠️  Fewer than two pages to compare');
+    return;
+  }
+
+  // Pairwise page similarity
+  const pairs: PairScore[] = [];
+  for (let i = 0; i < pages.length; i++) {
+    for (let j = i + 1; j < pages.length; j++) {
+      pairs.push({ a: pages[i].url, b: pages[j].url, similarity: estimateSimilarity(pages[i].signature, pages[j].signature) });
+    }
+  }
+  pairs.sort((x, y) => y.similarity - x.similarity);
+
+  const similarities = pairs.map((pair) => pair.similarity).sort((x, y) => x - y);
+  const average = similarities.reduce((sum, value) => sum + value, 0) / similarities.length;
+  const median = similarities[Math.floor(similarities.length / 2)];
+
+  // Per-section similarity, least varied first
+  const sectionCount = Math.max(...pages.map((page) => page.sections.length));
+  const sections = Array.from({ length: sectionCount }, (_, index) => scoreSection(pages, index))
+    .filter((score): score is SectionScore => score !== undefined)
+    .sort((x, y) => y.mean - x.mean);
+
+  console.log(`📄 Pages analysed: ${pages.length} (${pairs.length} pairs)\n`);
+
+  console.log('📊 Page similarity:');
+  console.log(`  - Average: ${percent(average)}`);
+  console.log(`  - Median: ${percent(median)}`);
+  console.log(`  - Highest: ${percent(pairs[0].similarity)}`);
+
+  console.log(`\n🔁 Most similar pages:`);
+  for (const pair of pairs.slice(0, top)) {
+    console.log(`  ${percent(pair.similarity).padStart(6)}  ${pair.a} ↔ ${pair.b}`);
+  }
+
+  if (sections.length > 0) {
+    console.log('\n🧩 Sections by similarity (mean / max):');
+    for (const section of sections) {
+      const label = section.heading ? `"${section.heading}"` : '(no heading)';
+      console.log(`  ${percent(section.mean).padStart(6)} / ${percent(section.max).padStart(6)}  #${section.index + 1} ${label}`);
+    }
+  }
+
+  if (reportPath) {
+    await fs.writeFile(reportPath, JSON.stringify({
+      generated: new Date().toISOString(),
+      pages: pages.length,
+      average,
+      median,
+      pairs: pairs.slice(0, 100),
+      sections,
+    }, null, 2));
+    console.log(`\n💾 Report saved to: ${reportPath}`);
+  }
+
+  if (threshold !== undefined) {
+    const overThreshold = pairs.filter((pair) => pair.similarity > threshold);
+    if (overThreshold.length > 0) {
+      console.error(`\n❌ ${overThreshold.length} page pairs are more than ${percent(threshold)} similar`);
+      process.exit(1);
+    }
+    console.log(`\n✅ No page pairs above ${percent(threshold)} similarity`);
+  }
+}
+
+analyzeContentUniqueness().catch((error) => {
+  console.error('❌ Content uniqueness analysis failed:', error);
+  process.exit(1);
+});
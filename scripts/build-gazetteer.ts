@@ -0,0 +1,162 @@
+#!/usr/bin/env tsx
+
+/**
+ * Build Suburb Gazetteer
+ *
+ * Dumps every suburb (id, name, primary postcode, state, coordinates and
+ * population) from the PostGIS database into the bundled, gzipped gazetteer
+ * used by the offline suburb provider.
+ *
+ * Usage:
+ *   tsx scripts/build-gazetteer.ts                      # full dump from PostGIS
+ *   tsx scripts/build-gazetteer.ts --from-json=a.json   # merge suburbs from exported suburbs.json files
+ *
+ * A full dump covers the whole database. Suburbs merged from exports only
+ * cover each export's radius circle (exports shaped by a polygon, include or
+ * exclude lists or page selection add their suburbs but no coverage), and the
+ * gazetteer provider refuses queries outside the covered circles.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import * as dotenv from 'dotenv';
+import {
+  GAZETTEER_PATH,
+  isGazetteerAvailable,
+  readGazetteer,
+  writeGazetteer,
+  type Gazetteer,
+  type GazetteerCoverage,
+  type GazetteerSuburb,
+} from './lib/suburb-providers';
+
+// Load environment variables
+dotenv.config();
+
+function getArg(name: string): string | undefined {
+  const flag = process.argv.find((arg) => arg.startsWith(`--${name}=`));
+  return flag?.slice(name.length + 3);
+}
+
+async function dumpPostgis(): Promise<GazetteerSuburb[]> {
+  const { Pool } = await import('pg');
+  const pool = new Pool({
+    host: process.env.POSTGIS_HOST || 'localhost',
+    port: parseInt(process.env.POSTGIS_PORT || '5432'),
+    database: process.env.POSTGIS_DATABASE || 'au_suburbs_db',
+    user: process.env.POSTGIS_USER || 'suburbs_user',
+    password: process.env.POSTGIS_PASSWORD || '',
+  });
+
+  try {
+    const result = await pool.query(`
+      SELECT s.id, s.name, sp.postcode, s.state, s.latitude, s.longitude, s.population
+      FROM suburbs s
+      LEFT JOIN suburb_postcodes sp ON s.id = sp.suburb_id AND sp.is_primary = true
+      ORDER BY s.id
+    `);
+
+    return result.rows.map(row => ({
+      id: row.id,
+      name: row.name,
+      postcode: row.postcode,
+      state: row.state,
+      latitude: parseFloat(row.latitude),
+      longitude: parseFloat(row.longitude),
+      population: row.population || null,
+    }));
+  } finally {
+    await pool.end();
+  }
+}
+
+/**
+ * The radius circle an export holds every suburb within, or null when its
+ * suburbs were shaped by more than the radius
+ */
+function exportCoverage(file: string, data: any): GazetteerCoverage | null {
+  let hash: Record<string, unknown> = {};
+  try {
+    hash = JSON.parse(data.configHash ?? '{}');
+  } catch {
+    // Older exports without a JSON config hash
+  }
+  const shaped = ['area', 'selection'].filter((key) => key in hash);
+  if (!data.center || !data.radiusKm || shaped.length > 0 || data.mentions) {
+    console.warn(`⚠️  ${file}: suburbs added without coverage (${shaped.length > 0 ? `shaped by ${shaped.join(' and ')}` : 'no plain radius'})`);
+    return null;
+  }
+  return { lat: data.center.lat, lng: data.center.lng, radiusKm: data.radiusKm };
+}
+
+/**
+ * Read suburbs and the area they cover from exported suburbs.json files (e.g. other sites' data)
+ */
+function readSuburbsFiles(files: string[]): { suburbs: GazetteerSuburb[]; coverage: GazetteerCoverage[] } {
+  const exports = files.map((file) => ({ file, data: JSON.parse(fs.readFileSync(file, 'utf8')) }));
+  return {
+    coverage: exports.flatMap(({ file, data }) => exportCoverage(file, data) ?? []),
+    suburbs: exports.flatMap(({ data }) => (data.suburbs ?? []).map((suburb: any) => ({
+      id: suburb.id,
+      name: suburb.name,
+      postcode: suburb.postcode ?? null,
+      state: suburb.state,
+      latitude: suburb.latitude,
+      longitude: suburb.longitude,
+      population: suburb.population || null,
+    }))),
+  };
+}
+
+async function buildGazetteer() {
+  const fromJson = getArg('from-json');
+
+  console.log('🗺️  Building suburb gazetteer...\n');
+
+  let gazetteer: Gazetteer;
+
+  if (fromJson) {
+    const files = fromJson.split(',');
+    const existing = isGazetteerAvailable() ? readGazetteer() : undefined;
+    const exported = readSuburbsFiles(files);
+    const merged = new Map((existing?.suburbs ?? []).map((suburb) => [suburb.id, suburb]));
+    for (const suburb of exported.suburbs) {
+      merged.set(suburb.id, suburb);
+    }
+
+    // A full dump stays complete; otherwise each export adds its circle
+    const coverage = existing?.coverage === null
+      ? null
+      : [...(existing?.coverage ?? []), ...exported.coverage].filter((circle, i, all) =>
+        all.findIndex((other) => JSON.stringify(other) === JSON.stringify(circle)) === i);
+    gazetteer = {
+      suburbs: [...merged.values()],
+      source: existing?.coverage === null ? existing.source : 'suburbs.json exports',
+      coverage,
+    };
+    console.log(`📥 Merged ${files.length} file(s) into ${existing?.suburbs.length ?? 0} existing suburbs`);
+  } else {
+    gazetteer = { suburbs: await dumpPostgis(), source: 'postgis', coverage: null };
+    console.log(`📥 Dumped ${gazetteer.suburbs.length} suburbs from PostGIS`);
+  }
+
+  writeGazetteer(gazetteer);
+  const { suburbs, coverage } = gazetteer;
+
+  const size = fs.statSync(GAZETTEER_PATH).size;
+  const states = [...new Set(suburbs.map((suburb) => suburb.state))].sort();
+
+  console.log(`💾 Saved to: ${path.relative(process.cwd(), GAZETTEER_PATH)}`);
+  console.log('\n📊 Summary:');
+  console.log(`  - Suburbs: ${suburbs.length}`);
+  console.log(`  - States: ${states.join(', ')}`);
+  console.log(`  - Size: ${(size / 1024).toFixed(1)} KB (gzipped)`);
+  console.log(`  - Coverage: ${coverage === null
+    ? 'whole database'
+    : coverage.map(({ lat, lng, radiusKm }) => `${radiusKm}km around ${lat}, ${lng}`).join('; ') || 'none (queries will be refused)'}`);
+}
+
+buildGazetteer().catch((error) => {
+  console.error('❌ Failed to build gazetteer:', error);
+  process.exit(1);
+});
@@ -0,0 +1,139 @@
+#!/usr/bin/env tsx
+
+/**
+ * Page Copy Snapshot
+ *
+ * Records the rendered title, meta description and a hash of the main content
+ * of every page in dist/, and compares the current build against the committed
+ * snapshot so a YAML or spintax edit shows exactly which pages' copy changed.
+ *
+ * Usage:
+ *   tsx scripts/check-copy-snapshot.ts [--dist=dist] [--update] [--strict]
+ *
+ *   --update  Write the current build to the snapshot file
+ *   --strict  Exit with an error when any page's copy changed
+ *
+ * Without a snapshot, the first run writes one and warns rather than failing
+ * the build: commit it so later builds have something to compare against.
+ */
+
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { decodeEntities, extractMain, findHtmlFiles, htmlToText, toUrlPath } from './lib/dist-pages';
+
+const SNAPSHOT_PATH = path.join(process.cwd(), 'tests', 'snapshots', 'page-copy.json');
+
+interface PageCopy {
+  title: string;
+  description: string;
+  contentHash: string;
+}
+
+type Snapshot = Record<string, PageCopy>;
+
+function getArg(name: string): string | undefined {
+  const flag = process.argv.find((arg) => arg.startsWith(`--${name}=`));
+  return flag?.slice(name.length + 3);
+}
+
+/**
+ * Pull the copy we care about out of a rendered page
+ */
+function extractCopy(html: string): PageCopy {
+  const title = html.match(/<title>([^<]*)<\/title>/i)?.[1] ?? '';
+  const description = html.match(/<meta\s+name="description"\s+content="([^"]*)"/i)?.[1] ?? '';
+  const text = htmlToText(extractMain(html));
+
+  return {
+    title: decodeEntities(title.trim()),
+    description: decodeEntities(description.trim()),
+    contentHash: crypto.createHash('sha1').update(text).digest('hex').slice(0, 12),
+  };
+}
+
+async function checkCopySnapshot(): Promise<void> {
+  const distDir = path.resolve(getArg('dist') ?? 'dist');
+  const update = process.argv.includes('--update');
+  const strict = process.argv.includes('--strict');
+
+  console.log('🔍 Checking page copy against snapshot...\n');
+
+  if (!existsSync(distDir)) {
+    console.error(`❌ ${path.relative(process.cwd(), distDir) || distDir} not found. Run npm run build first.`);
+    process.exit(1);
+  }
+
+  const current: Snapshot = {};
+  for (const file of await findHtmlFiles(distDir)) {
+    current[toUrlPath(distDir, file)] = extractCopy(await fs.readFile(file, 'utf8'));
+  }
+
+  const exists = existsSync(SNAPSHOT_PATH);
+  if (update || !exists) {
+    await fs.mkdir(path.dirname(SNAPSHOT_PATH), { recursive: true });
+    await fs.writeFile(SNAPSHOT_PATH, JSON.stringify(current, null, 2) + '\n');
+    console.log(`💾 Snapshot of ${Object.keys(current).length} pages saved to: ${path.relative(process.cwd(), SNAPSHOT_PATH)}`);
+    // Nothing was compared, so say so rather than pass silently
+    if (!exists && !update) {
+      console.warn('\n⚠️  There was no snapshot to compare against. Commit the one just written so later builds are checked.');
+    }
+    return;
+  }
+
+  const previous: Snapshot = JSON.parse(await fs.readFile(SNAPSHOT_PATH, 'utf8'));
+  const urls = [...new Set([...Object.keys(previous), ...Object.keys(current)])].sort();
+  const changes = { changed: 0, added: 0, removed: 0 };
+
+  for (const url of urls) {
+    const before = previous[url];
+    const after = current[url];
+
+    if (!before) {
+      console.log(`  + ${url}`);
+      changes.added++;
+      continue;
+    }
+    if (!after) {
+      console.log(`  - ${url}`);
+      changes.removed++;
+      continue;
+    }
+
+    const details: string[] = [];
+    if (before.title !== after.title) details.push(`title: "${before.title}" → "${after.title}"`);
+    if (before.description !== after.description) details.push(`description: "${before.description}" → "${after.description}"`);
+    if (before.contentHash !== after.contentHash) details.push('page content changed');
+
+    if (details.length > 0) {
+      console.log(`  ~ ${url}`);
+      details.forEach((detail) => console.log(`      ${detail}`));
+      changes.changed++;
+    }
+  }
+
+  const total = changes.changed + changes.added + changes.removed;
+
+  console.log('\n📊 Summary:');
+  console.log(`  - Pages: ${urls.length}`);
+  console.log(`  - Copy changed: ${changes.changed}`);
+  console.log(`  - New pages: ${changes.added}`);
+  console.log(`  - Removed pages: ${changes.removed}`);
+
+  if (total === 0) {
+    console.log('\n✅ Page copy matches the snapshot');
+    return;
+  }
+
+  console.log('\nIf these changes are intended, update the snapshot with: npm run copy:snapshot');
+  if (strict) {
+    console.error('\n❌ Page copy differs from the snapshot');
+    process.exit(1);
+  }
+}
+
+checkCopySnapshot().catch((error) => {
+  console.error('❌ Copy snapshot check failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,148 @@
+#!/usr/bin/env tsx
+
+/**
+ * Check Location Links
+ *
+ * Reads the links between generated location pages in dist/ and reports the
+ * internal link graph: how many other location pages link to each page
+ * (inbound) and how many each page links to (outbound).
+ *
+ * Usage:
+ *   tsx scripts/check-location-links.ts [--dist=dist] [--dir=locations]
+ *     [--max-outbound=9] [--max-inbound=18] [--verbose] [--report=path.json]
+ *
+ * The build fails when a location page is orphaned (no other location page
+ * links to it), links to more pages than --max-outbound, is linked from more
+ * than --max-inbound, or links to a location page that was not built. The
+ * limits default to the ones nearby suburbs are chosen with
+ * (src/utils/nearby-suburbs.ts).
+ */
+
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import { extractMain, findHtmlFiles, toUrlPath } from './lib/dist-pages';
+import { MAX_INBOUND_LINKS, NEARBY_SUBURB_COUNT } from '../src/utils/nearby-suburbs';
+
+interface PageLinks {
+  url: string;
+  inbound: number;
+  outbound: number;
+  linksTo: string[];
+  linkedFrom: string[];
+}
+
+function getArg(name: string): string | undefined {
+  const flag = process.argv.find((arg) => arg.startsWith(`--${name}=`));
+  return flag?.slice(name.length + 3);
+}
+
+/**
+ * Distinct location page URLs linked from an HTML fragment, other than `self`
+ */
+function locationLinks(html: string, pageDir: string, self: string): string[] {
+  const pattern = new RegExp(`href="(?:https?://[^/"]+)?(/${pageDir}/[^/"#?]+/?)(?:[#?][^"]*)?"`, 'gi');
+  const urls = [...html.matchAll(pattern)].map((match) => match[1].replace(/\/?$/, '/'));
+  return [...new Set(urls)].filter((url) => url !== self);
+}
+
+async function checkLocationLinks(): Promise<void> {
+  const distDir = path.resolve(getArg('dist') ?? 'dist');
+  const pageDir = getArg('dir') ?? 'locations';
+  const maxOutbound = Number(getArg('max-outbound') ?? NEARBY_SUBURB_COUNT);
+  const maxInbound = Number(getArg('max-inbound') ?? MAX_INBOUND_LINKS);
+  const verbose = process.argv.includes('--verbose');
+  const reportPath = getArg('report');
+
+  console.log(`🔗 Checking links between /${pageDir} pages...\n`);
+
+  const targetDir = path.join(distDir, pageDir);
+  if (!existsSync(targetDir)) {
+    console.error(`❌ ${path.relative(process.cwd(), targetDir) || targetDir} not found. Run npm run build first.`);
+    process.exit(1);
+  }
+
+  // Only generated pages (dist/locations/<slug>/index.html), not the index page
+  const files = (await findHtmlFiles(targetDir)).filter((file) => path.dirname(file) !== targetDir);
+  const pages = new Map<string, PageLinks>();
+
+  for (const file of files) {
+    const url = toUrlPath(distDir, file);
+    const linksTo = locationLinks(extractMain(await fs.readFile(file, 'utf8')), pageDir, url);
+    pages.set(url, { url, inbound: 0, outbound: linksTo.length, linksTo, linkedFrom: [] });
+  }
+
+  if (pages.size === 0) {
+    console.log('⚠️  No location pages to check');
+    return;
+  }
+
+  const broken: Array<{ from: string; to: string }> = [];
+  for (const page of pages.values()) {
+    for (const to of page.linksTo) {
+      const target = pages.get(to);
+      if (!target) {
+        broken.push({ from: page.url, to });
+        continue;
+      }
+      target.inbound++;
+      target.linkedFrom.push(page.url);
+    }
+  }
+
+  const all = [...pages.values()];
+  const orphans = all.filter((page) => page.inbound === 0);
+  const overOutbound = all.filter((page) => page.outbound > maxOutbound);
+  const overInbound = all.filter((page) => page.inbound > maxInbound);
+  const inbound = all.map((page) => page.inbound);
+  const outbound = all.map((page) => page.outbound);
+  const average = (values: number[]) => (values.reduce((sum, value) => sum + value, 0) / values.length).toFixed(1);
+
+  console.log(`📄 Location pages: ${all.length}\n`);
+  console.log('📊 Links per page (min / average / max):');
+  console.log(`  - Inbound: ${Math.min(...inbound)} / ${average(inbound)} / ${Math.max(...inbound)}`);
+  console.log(`  - Outbound: ${Math.min(...outbound)} / ${average(outbound)} / ${Math.max(...outbound)}`);
+
+  console.log('\n🔝 Most linked pages:');
+  for (const page of [...all].sort((a, b) => b.inbound - a.inbound || a.url.localeCompare(b.url)).slice(0, 5)) {
+    console.log(`  ${String(page.inbound).padStart(3)}  ${page.url}`);
+  }
+
+  if (verbose) {
+    console.log('\n📋 Inbound / outbound by page:');
+    for (const page of all) {
+      console.log(`  ${String(page.inbound).padStart(3)} / ${String(page.outbound).padStart(3)}  ${page.url}`);
+    }
+  }
+
+  if (reportPath) {
+    await fs.writeFile(reportPath, JSON.stringify({
+      generated: new Date().toISOString(),
+      pages: all.length,
+      limits: { maxOutbound, maxInbound },
+      orphans: orphans.map((page) => page.url),
+      broken,
+      graph: all,
+    }, null, 2));
+    console.log(`\n💾 Report saved to: ${reportPath}`);
+  }
+
+  const problems = [
+    ...orphans.map((page) => `${page.url} is not linked from any other location page`),
+    ...overOutbound.map((page) => `${page.url} links to ${page.outbound} location pages (max ${maxOutbound})`),
+    ...overInbound.map((page) => `${page.url} is linked from ${page.inbound} location pages (max ${maxInbound})`),
+    ...broken.map(({ from, to }) => `${from} links to ${to}, which was not built`),
+  ];
+
+  if (problems.length > 0) {
+    console.error(`\n❌ ${problems.length} location link problem(s):`);
+    for (const problem of problems) console.error(`  - ${problem}`);
+    process.exit(1);
+  }
+  console.log('\n✅ Every location page is linked, none over-linked');
+}
+
+checkLocationLinks().catch((error) => {
+  console.error('❌ Location link check failed:', error);
+  process.exit(1);
+});
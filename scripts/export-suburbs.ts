@@ -3,142 +3,215 @@
 /**
  * Export Suburbs to JSON
  * 
- * This script exports suburb data from PostGIS to a static JSON file
- * for use in production builds where database access isn't available.
+ * This script exports suburb data from PostGIS (or the bundled offline
+ * gazetteer) to a static JSON file for use in production builds where
+ * database access isn't available.
+ *
+ * Usage:
+ *   tsx scripts/export-suburbs.ts [--provider=auto|postgis|gazetteer]
+ *
+ * The provider can also be set with SUBURB_PROVIDER. "auto" (the default)
+ * uses PostGIS when it is reachable and the gazetteer otherwise.
+ *
+ * When a previous suburbs.json exists, the suburbs added, removed, renamed or
+ * with changed postcodes are reported, 301s for location pages that went away
+ * are added to location-redirects.json (written into dist/_redirects by the
+ * build) and the changes are appended to suburbs-changes.json, both next to
+ * suburbs.json.
+ *
+ * With service.page_selection in business.yaml, suburbs are ranked by
+ * distance, population and job history: only the selected ones are written
+ * to `suburbs` (and get pages), the next tier to `mentions` (listed on
+ * /locations only), and every decision is explained in
+ * suburbs-selection.json next to suburbs.json.
  */
 
-import { Pool } from 'pg';
 import fs from 'fs/promises';
 import path from 'path';
 import * as dotenv from 'dotenv';
-import * as yaml from 'js-yaml';
+import { getActiveProfile, getProfilePaths, loadProfileConfig } from '../src/config/profile';
+import { getMaxLocationPages, type BusinessConfig } from '../src/config/business-schema';
+import { assignNearestBranches, getBranchLocations } from './lib/branch-assignment';
+import { getRedirectRulesPath, mergeRedirects, readRedirectRules, writeRedirectRules } from './lib/redirects';
+import { diffSuburbs, hasChanges, locationSlug, locationUrl, type DiffSuburb, type SuburbDiff } from './lib/suburb-diff';
+import { enrichSuburbs, ENRICHMENT_PATH, readEnrichment } from './lib/suburb-enrichment';
+import {
+  getPageSelectionPolicy,
+  readJobHistory,
+  selectSuburbPages,
+  type PageDecision,
+  type PageSelectionPolicy,
+} from './lib/page-selection';
+import {
+  calculateConfigHash,
+  getSuburbQuery,
+  resolveSuburbProvider,
+  type SuburbProviderName,
+} from './lib/suburb-providers';
 
 // Load environment variables
 dotenv.config();
 
-interface Suburb {
-  id: number;
-  name: string;
-  postcode?: string;
-  state: string;
-  latitude: number;
-  longitude: number;
-  distanceKm: number;
-  direction: string;
-  population?: number;
+interface PreviousExport {
+  generated?: string;
+  suburbs?: DiffSuburb[];
+  mentions?: DiffSuburb[];
+}
+
+async function readPreviousExport(file: string): Promise<PreviousExport | null> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+function printSuburbDiff(diff: SuburbDiff, since?: string) {
+  console.log(`\n🔀 Changes since ${since ?? 'the previous export'}:`);
+  if (!hasChanges(diff)) {
+    console.log('  - No suburb changes');
+    return;
+  }
+  if (diff.added.length) console.log(`  ➕ Added (${diff.added.length}): ${diff.added.map(s => s.name).join(', ')}`);
+  if (diff.removed.length) console.log(`  ➖ Removed (${diff.removed.length}): ${diff.removed.map(s => s.name).join(', ')}`);
+  for (const rename of diff.renamed) {
+    console.log(`  ✏️  Renamed: ${rename.from.name} → ${rename.to.name}`);
+  }
+  for (const change of diff.postcodeChanged) {
+    console.log(`  📮 Postcode: ${change.name} ${change.from ?? '(none)'} → ${change.to ?? '(none)'}`);
+  }
+  for (const redirect of diff.redirects) {
+    console.log(`  ↪️  ${redirect.from} → ${redirect.to} (${redirect.reason})`);
+  }
+}
+
+function printSelection(decisions: PageDecision[], reportPath: string) {
+  const byTier = (tier: PageDecision['tier']) => decisions.filter(d => d.tier === tier);
+  console.log('\n🏅 Page selection:');
+  console.log(`  - Pages: ${byTier('page').length}`);
+  console.log(`  - Mentioned on /locations only: ${byTier('mention').length}`);
+  console.log(`  - Left off the site: ${byTier('none').length}`);
+  for (const decision of [...byTier('mention'), ...byTier('none')].slice(0, 20)) {
+    console.log(`  ${decision.tier === 'mention' ? '💬' : '🚫'} ${decision.name}: ${decision.reason}`);
+  }
+  const unlisted = decisions.length - byTier('page').length - 20;
+  if (unlisted > 0) console.log(`  ... and ${unlisted} more`);
+  console.log(`  - Report: ${path.relative(process.cwd(), reportPath)}`);
 }
 
 /**
- * Calculate a simple hash of relevant config values
+ * JSON-safe copy of the policy for the report (unlimited caps become null)
  */
-function calculateConfigHash(config: any): string {
-  const relevant = {
-    lat: config.service?.center_lat || config.address?.coordinates?.lat,
-    lng: config.service?.center_lng || config.address?.coordinates?.lng,
-    radius: config.service?.radius_km || config.seo?.location_based?.radius_km || config.locationPages?.serviceRadiusKm,
+function describePolicy(policy: PageSelectionPolicy) {
+  return {
+    ...policy,
+    maxPages: Number.isFinite(policy.maxPages) ? policy.maxPages : null,
+    maxMentions: Number.isFinite(policy.maxMentions) ? policy.maxMentions : null,
   };
-  return JSON.stringify(relevant);
+}
+
+/**
+ * Append this run's changes to the machine-readable change log
+ */
+async function appendChangeLog(file: string, entry: Record<string, unknown>) {
+  let entries: unknown[] = [];
+  try {
+    entries = JSON.parse(await fs.readFile(file, 'utf8'));
+  } catch {
+    // First run
+  }
+  entries.push(entry);
+  await fs.writeFile(file, JSON.stringify(entries, null, 2) + '\n');
 }
 
 async function exportSuburbs() {
   // Check for --force flag
   const forceRegenerate = process.argv.includes('--force');
+  const providerName = (
+    process.argv.find(arg => arg.startsWith('--provider='))?.slice('--provider='.length) ||
+    process.env.SUBURB_PROVIDER ||
+    'auto'
+  ) as SuburbProviderName | 'auto';
   
-  console.log('🏘️  Exporting suburbs from PostGIS database...\n');
+  // Resolve the active site profile (SITE_PROFILE or --profile=<name>)
+  const profile = getActiveProfile();
+  const { suburbsPath: outputPath } = getProfilePaths(profile);
+
+  console.log('🏘️  Exporting suburbs...\n');
+  if (profile) {
+    console.log(`   🏷️  Site profile: ${profile}\n`);
+  }
   if (forceRegenerate) {
     console.log('   🔄 Force regeneration mode\n');
   }
 
   // Load business config
-  const configPath = path.join(process.cwd(), 'config', 'business.yaml');
-  const configContent = await fs.readFile(configPath, 'utf8');
-  const config = yaml.load(configContent) as any;
-
-  // Database connection
-  const pool = new Pool({
-    host: process.env.POSTGIS_HOST || 'localhost',
-    port: parseInt(process.env.POSTGIS_PORT || '5432'),
-    database: process.env.POSTGIS_DATABASE || 'au_suburbs_db',
-    user: process.env.POSTGIS_USER || 'suburbs_user',
-    password: process.env.POSTGIS_PASSWORD || '',
-  });
+  const config: BusinessConfig | null = loadProfileConfig(profile);
+  if (!config) {
+    console.error('❌ config/business.yaml not found');
+    process.exit(1);
+  }
+
+  // Suburb data source
+  const provider = await resolveSuburbProvider(providerName);
+  console.log(`   🗄️  Provider: ${provider.name}\n`);
 
   try {
-    // Get center location from config
-    const centerLat = config.service?.center_lat || config.address?.coordinates?.lat || -34.8517;
-    const centerLng = config.service?.center_lng || config.address?.coordinates?.lng || 138.5829;
-    const radiusKm = config.service?.radius_km || config.locationPages?.serviceRadiusKm || 33;
+    // Get center location and service area from config
+    const query = getSuburbQuery(config);
+    const { centerLat, centerLng, radiusKm, area } = query;
 
     console.log(`📍 Center: ${centerLat}, ${centerLng}`);
-    console.log(`📏 Radius: ${radiusKm}km\n`);
-
-    // Query suburbs within radius using the correct schema
-    const query = `
-      WITH center AS (
-        SELECT ST_SetSRID(ST_MakePoint($2, $1), 4326)::geography AS point
-      )
-      SELECT 
-        s.id,
-        s.name,
-        sp.postcode,
-        s.state,
-        s.latitude,
-        s.longitude,
-        ROUND((ST_Distance(s.location, c.point) / 1000)::numeric, 2) AS distance_km,
-        CASE 
-          WHEN degrees(ST_Azimuth(c.point::geometry, s.location::geometry)) BETWEEN 337.5 AND 360 
-            OR degrees(ST_Azimuth(c.point::geometry, s.location::geometry)) BETWEEN 0 AND 22.5 THEN 'N'
-          WHEN degrees(ST_Azimuth(c.point::geometry, s.location::geometry)) BETWEEN 22.5 AND 67.5 THEN 'NE'
-          WHEN degrees(ST_Azimuth(c.point::geometry, s.location::geometry)) BETWEEN 67.5 AND 112.5 THEN 'E'
-          WHEN degrees(ST_Azimuth(c.point::geometry, s.location::geometry)) BETWEEN 112.5 AND 157.5 THEN 'SE'
-          WHEN degrees(ST_Azimuth(c.point::geometry, s.location::geometry)) BETWEEN 157.5 AND 202.5 THEN 'S'
-          WHEN degrees(ST_Azimuth(c.point::geometry, s.location::geometry)) BETWEEN 202.5 AND 247.5 THEN 'SW'
-          WHEN degrees(ST_Azimuth(c.point::geometry, s.location::geometry)) BETWEEN 247.5 AND 292.5 THEN 'W'
-          WHEN degrees(ST_Azimuth(c.point::geometry, s.location::geometry)) BETWEEN 292.5 AND 337.5 THEN 'NW'
-        END AS direction,
-        s.population
-      FROM suburbs s
-      CROSS JOIN center c
-      LEFT JOIN suburb_postcodes sp ON s.id = sp.suburb_id AND sp.is_primary = true
-      WHERE ST_DWithin(s.location, c.point, $3 * 1000)
-      ORDER BY distance_km ASC
-    `;
-
-    const result = await pool.query(query, [centerLat, centerLng, radiusKm]);
-    
-    const suburbs: Suburb[] = result.rows.map(row => ({
-      id: row.id,
-      name: row.name,
-      postcode: row.postcode,
-      state: row.state,
-      latitude: parseFloat(row.latitude),
-      longitude: parseFloat(row.longitude),
-      distanceKm: parseFloat(row.distance_km),
-      direction: row.direction,
-      population: row.population || null,
-    }));
-
-    console.log(`✅ Found ${suburbs.length} suburbs within ${radiusKm}km\n`);
+    if (area?.geometry) {
+      console.log(`🗺️  Area: ${area.geometry.type} (radius not used)`);
+    } else {
+      console.log(`📏 Radius: ${radiusKm}km`);
+    }
+    if (area?.include.length) console.log(`   ➕ Include: ${area.include.join('; ')}`);
+    if (area?.exclude.length) console.log(`   ➖ Exclude: ${area.exclude.join('; ')}`);
+    console.log('');
+
+    // Tag each suburb with its nearest branch when business.yaml has branches
+    const branches = getBranchLocations(config);
+    const found = assignNearestBranches(await provider.findSuburbsWithinRadius(query), branches);
+
+    // Local knowledge (LGA, region, coastal, housing era, roof mix) from the enrichment CSV
+    const enrichment = await fs.access(ENRICHMENT_PATH).then(() => readEnrichment(), () => null);
+    const suburbs = enrichment ? enrichSuburbs(found, enrichment) : found;
+
+    // Which suburbs get pages, mentions or nothing (business.yaml service.page_selection)
+    const policy = getPageSelectionPolicy(config);
+    const selection = policy
+      ? selectSuburbPages(suburbs, policy, policy.jobHistory ? readJobHistory(policy.jobHistory) : undefined)
+      : null;
+    const pages = selection?.pages ?? suburbs;
+
+    console.log(`✅ Found ${suburbs.length} suburbs ${area?.geometry ? 'in the service area' : `within ${radiusKm}km`}\n`);
+
+    // Previous export, to report what changed
+    const previous = await readPreviousExport(outputPath);
 
     // Create data directory if it doesn't exist
-    const dataDir = path.join(process.cwd(), 'src', 'data');
-    await fs.mkdir(dataDir, { recursive: true });
+    await fs.mkdir(path.dirname(outputPath), { recursive: true });
 
     // Save to JSON file
-    const outputPath = path.join(dataDir, 'suburbs.json');
     const data = {
       generated: new Date().toISOString(),
       center: { lat: centerLat, lng: centerLng },
       radiusKm,
-      count: suburbs.length,
+      count: pages.length,
       state: config.address?.state || 'SA',
       configHash: calculateConfigHash(config),
+      // The gazetteer is a dump of the database, so both providers write the
+      // same file; which one ran is only logged
       source: 'database',
-      suburbs,
+      ...(profile ? { profile } : {}),
+      suburbs: pages,
+      ...(selection ? { mentions: selection.mentions } : {}),
     };
 
     await fs.writeFile(outputPath, JSON.stringify(data, null, 2));
-    console.log(`💾 Saved to: ${outputPath}`);
+    console.log(`💾 Saved to: ${outputPath} (from ${provider.name})`);
 
     // Show summary
     console.log('\n📊 Summary:');
@@ -149,11 +222,62 @@ async function exportSuburbs() {
     const withPopulation = suburbs.filter(s => s.population).length;
     console.log(`  - With population data: ${withPopulation}`);
 
+    if (enrichment) {
+      const enriched = suburbs.filter(s => 'enrichment' in s).length;
+      console.log(`  - Enriched from ${path.relative(process.cwd(), ENRICHMENT_PATH)}: ${enriched}`);
+    }
+    if (policy && selection) {
+      const reportPath = path.join(path.dirname(outputPath), 'suburbs-selection.json');
+      await fs.writeFile(reportPath, JSON.stringify({
+        generated: data.generated,
+        policy: describePolicy(policy),
+        decisions: selection.decisions,
+      }, null, 2) + '\n');
+      printSelection(selection.decisions, reportPath);
+    }
+    for (const branch of branches) {
+      const served = suburbs.filter(s => s.branch?.id === branch.id).length;
+      console.log(`  - Branch ${branch.id}: ${served} suburbs`);
+    }
+
+    if (previous?.suburbs) {
+      // Only the nearest max_location_pages suburbs get a page, or with page
+      // selection the `suburbs` list (mentions follow it without pages)
+      const maxPages = getMaxLocationPages(config);
+      const pageLimit = selection ? pages.length : maxPages;
+      const previousPageLimit = previous.mentions ? previous.suburbs.length : maxPages;
+      const diff = diffSuburbs(
+        [...previous.suburbs, ...(previous.mentions ?? [])],
+        [...pages, ...(selection?.mentions ?? [])],
+        pageLimit,
+        previousPageLimit
+      );
+      printSuburbDiff(diff, previous.generated);
+
+      if (hasChanges(diff)) {
+        const livePaths = new Set(pages.slice(0, pageLimit).map(s => locationUrl(locationSlug(s))));
+        const redirectsPath = getRedirectRulesPath(outputPath);
+        const rules = mergeRedirects(readRedirectRules(redirectsPath), diff.redirects, livePaths);
+        writeRedirectRules(rules, redirectsPath);
+        console.log(`  - Redirects: ${rules.length} location rule(s) in ${path.relative(process.cwd(), redirectsPath)}`);
+
+        const changeLogPath = path.join(path.dirname(outputPath), 'suburbs-changes.json');
+        await appendChangeLog(changeLogPath, {
+          generated: data.generated,
+          previousGenerated: previous.generated ?? null,
+          configHash: data.configHash,
+          ...(profile ? { profile } : {}),
+          ...diff,
+        });
+        console.log(`  - Change log: ${path.relative(process.cwd(), changeLogPath)}`);
+      }
+    }
+
   } catch (error) {
     console.error('❌ Error exporting suburbs:', error);
     process.exit(1);
   } finally {
-    await pool.end();
+    await provider.close();
   }
 }
 
@@ -0,0 +1,62 @@
+/**
+ * Branch Assignment
+ *
+ * Tags exported suburbs with their nearest branch (business.yaml `branches`),
+ * using the same spheroidal distance, rounding and compass buckets as the
+ * suburb providers so the tags match whichever provider ran.
+ */
+
+import { compassDirection, geodesicDistanceMetres, planarAzimuthDegrees, roundHalfAwayFromZero } from './geo';
+import type { SuburbBranch } from '../../src/utils/branches';
+
+export interface BranchLocation {
+  id: string;
+  lat: number;
+  lng: number;
+}
+
+/**
+ * Branch ids and coordinates from a business.yaml config (empty when none)
+ */
+export function getBranchLocations(config: any): BranchLocation[] {
+  return (config.branches ?? []).map((branch: any) => ({
+    id: branch.id,
+    lat: branch.coordinates.lat,
+    lng: branch.coordinates.lng,
+  }));
+}
+
+/**
+ * Nearest branch to a point; ties go to the branch listed first
+ */
+export function findNearestBranch(branches: BranchLocation[], lat: number, lng: number): SuburbBranch | undefined {
+  let nearest: { branch: BranchLocation; metres: number } | undefined;
+  for (const branch of branches) {
+    const metres = geodesicDistanceMetres(branch.lat, branch.lng, lat, lng);
+    if (!nearest || metres < nearest.metres) {
+      nearest = { branch, metres };
+    }
+  }
+  if (!nearest) return undefined;
+
+  return {
+    id: nearest.branch.id,
+    distanceKm: roundHalfAwayFromZero(nearest.metres / 1000, 2),
+    direction: compassDirection(planarAzimuthDegrees(nearest.branch.lat, nearest.branch.lng, lat, lng)),
+  };
+}
+
+/**
+ * Add a `branch` tag to every suburb (suburbs are returned unchanged when no
+ * branches are configured, so single-location exports stay identical)
+ */
+export function assignNearestBranches<T extends { latitude: number; longitude: number }>(
+  suburbs: T[],
+  branches: BranchLocation[]
+): Array<T & { branch?: SuburbBranch }> {
+  if (branches.length === 0) return suburbs;
+  return suburbs.map((suburb) => ({
+    ...suburb,
+    branch: findNearestBranch(branches, suburb.latitude, suburb.longitude),
+  }));
+}
@@ -0,0 +1,77 @@
+/**
+ * Helpers for scripts that inspect the built site in dist/
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * Recursively list HTML files in a directory
+ */
+export async function findHtmlFiles(dir: string): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const files = await Promise.all(entries.map(async (entry) => {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) return findHtmlFiles(fullPath);
+    return entry.name.endsWith('.html') ? [fullPath] : [];
+  }));
+  return files.flat().sort();
+}
+
+/**
+ * Map a built file back to the URL path it is served at
+ */
+export function toUrlPath(distDir: string, file: string): string {
+  const relative = path.relative(distDir, file).split(path.sep).join('/');
+  if (relative === 'index.html') return '/';
+  return '/' + relative.replace(/\/index\.html$/, '/').replace(/\.html$/, '');
+}
+
+export function decodeEntities(text: string): string {
+  return text
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&#x27;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Visible text of an HTML fragment, whitespace collapsed
+ */
+export function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<[^>]+>/g, ' ')
+  ).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Inner HTML of the page's <main> element
+ */
+export function extractMain(html: string): string {
+  return html.match(/<main[^>]*>([\s\S]*?)<\/main>/i)?.[1] ?? '';
+}
+
+/**
+ * Top-level <section> elements of an HTML fragment, in document order
+ */
+export function extractSections(html: string): string[] {
+  const sections: string[] = [];
+  const tags = /<(\/?)section\b[^>]*>/gi;
+  let depth = 0;
+  let start = 0;
+
+  for (let match = tags.exec(html); match; match = tags.exec(html)) {
+    if (match[1]) {
+      depth--;
+      if (depth === 0) sections.push(html.slice(start, match.index + match[0].length));
+    } else {
+      if (depth === 0) start = match.index;
+      depth++;
+    }
+  }
+  return sections;
+}
@@ -0,0 +1,99 @@
+/**
+ * Geodesic helpers matching the PostGIS suburb query
+ *
+ * - Distances are on the WGS84 spheroid, like ST_Distance on geography
+ * - Bearings are planar lng/lat azimuths, like ST_Azimuth on geometry
+ * - Directions use the same inclusive 45° buckets as the SQL CASE
+ * - Rounding is half away from zero, like ROUND(numeric, n)
+ */
+
+export type CompassDirection = 'N' | 'NE' | 'E' | 'SE' | 'S' | 'SW' | 'W' | 'NW';
+
+// WGS84 ellipsoid
+const WGS84_A = 6378137;
+const WGS84_F = 1 / 298.257223563;
+const WGS84_B = WGS84_A * (1 - WGS84_F);
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Distance in metres between two points on the WGS84 spheroid (Vincenty inverse)
+ */
+export function geodesicDistanceMetres(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  if (lat1 === lat2 && lng1 === lng2) return 0;
+
+  const L = toRadians(lng2 - lng1);
+  const U1 = Math.atan((1 - WGS84_F) * Math.tan(toRadians(lat1)));
+  const U2 = Math.atan((1 - WGS84_F) * Math.tan(toRadians(lat2)));
+  const sinU1 = Math.sin(U1), cosU1 = Math.cos(U1);
+  const sinU2 = Math.sin(U2), cosU2 = Math.cos(U2);
+
+  let lambda = L;
+  let sinSigma = 0, cosSigma = 0, sigma = 0, cosSqAlpha = 0, cos2SigmaM = 0;
+
+  for (let iteration = 0; iteration < 200; iteration++) {
+    const sinLambda = Math.sin(lambda), cosLambda = Math.cos(lambda);
+    sinSigma = Math.sqrt(
+      (cosU2 * sinLambda) ** 2 + (cosU1 * sinU2 - sinU1 * cosU2 * cosLambda) ** 2
+    );
+    if (sinSigma === 0) return 0;
+    cosSigma = sinU1 * sinU2 + cosU1 * cosU2 * cosLambda;
+    sigma = Math.atan2(sinSigma, cosSigma);
+    const sinAlpha = (cosU1 * cosU2 * sinLambda) / sinSigma;
+    cosSqAlpha = 1 - sinAlpha ** 2;
+    cos2SigmaM = cosSqAlpha !== 0 ? cosSigma - (2 * sinU1 * sinU2) / cosSqAlpha : 0;
+    const C = (WGS84_F / 16) * cosSqAlpha * (4 + WGS84_F * (4 - 3 * cosSqAlpha));
+    const previous = lambda;
+    lambda = L + (1 - C) * WGS84_F * sinAlpha *
+      (sigma + C * sinSigma * (cos2SigmaM + C * cosSigma * (-1 + 2 * cos2SigmaM ** 2)));
+    if (Math.abs(lambda - previous) < 1e-12) break;
+  }
+
+  const uSq = (cosSqAlpha * (WGS84_A ** 2 - WGS84_B ** 2)) / WGS84_B ** 2;
+  const A = 1 + (uSq / 16384) * (4096 + uSq * (-768 + uSq * (320 - 175 * uSq)));
+  const B = (uSq / 1024) * (256 + uSq * (-128 + uSq * (74 - 47 * uSq)));
+  const deltaSigma = B * sinSigma * (cos2SigmaM + (B / 4) * (
+    cosSigma * (-1 + 2 * cos2SigmaM ** 2) -
+    (B / 6) * cos2SigmaM * (-3 + 4 * sinSigma ** 2) * (-3 + 4 * cos2SigmaM ** 2)
+  ));
+
+  return WGS84_B * A * (sigma - deltaSigma);
+}
+
+/**
+ * Planar azimuth in degrees clockwise from north (0-360), or null for the same point
+ */
+export function planarAzimuthDegrees(lat1: number, lng1: number, lat2: number, lng2: number): number | null {
+  const dLng = lng2 - lng1;
+  const dLat = lat2 - lat1;
+  if (dLng === 0 && dLat === 0) return null;
+  const degrees = (Math.atan2(dLng, dLat) * 180) / Math.PI;
+  return degrees < 0 ? degrees + 360 : degrees;
+}
+
+/**
+ * Eight-point compass direction for an azimuth. Boundaries go to the first
+ * matching bucket, in the same order as the SQL CASE (so 22.5° is N).
+ */
+export function compassDirection(azimuth: number | null): CompassDirection | null {
+  if (azimuth === null) return null;
+  if (azimuth >= 337.5 || azimuth <= 22.5) return 'N';
+  if (azimuth <= 67.5) return 'NE';
+  if (azimuth <= 112.5) return 'E';
+  if (azimuth <= 157.5) return 'SE';
+  if (azimuth <= 202.5) return 'S';
+  if (azimuth <= 247.5) return 'SW';
+  if (azimuth <= 292.5) return 'W';
+  return 'NW';
+}
+
+/**
+ * Round half away from zero to a number of decimal places
+ */
+export function roundHalfAwayFromZero(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  const scaled = Math.abs(value) * factor;
+  // Nudge values like 1.005 that are stored just below the half
+  const rounded = Math.floor(scaled + 0.5 + 1e-9);
+  return (Math.sign(value) * rounded) / factor || 0;
+}
@@ -0,0 +1,76 @@
+/**
+ * MinHash similarity
+ *
+ * Estimates the Jaccard similarity of two texts from their word shingles
+ * (overlapping runs of `shingleSize` words) using fixed-size signatures,
+ * so many pages can be compared pairwise cheaply.
+ */
+
+export interface MinHashOptions {
+  /** Words per shingle (default 5) */
+  shingleSize?: number;
+  /** Hash functions per signature (default 128) */
+  numHashes?: number;
+}
+
+export type Signature = Uint32Array;
+
+const DEFAULT_SHINGLE_SIZE = 5;
+const DEFAULT_NUM_HASHES = 128;
+
+function fnv1a(value: string, seed: number): number {
+  let hash = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Lower-cased word shingles of a text
+ */
+export function shingles(text: string, shingleSize = DEFAULT_SHINGLE_SIZE): Set<string> {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? [];
+  const result = new Set<string>();
+  if (words.length === 0) return result;
+
+  if (words.length <= shingleSize) {
+    result.add(words.join(' '));
+    return result;
+  }
+  for (let i = 0; i <= words.length - shingleSize; i++) {
+    result.add(words.slice(i, i + shingleSize).join(' '));
+  }
+  return result;
+}
+
+/**
+ * MinHash signature of a text. Empty texts get an all-max signature.
+ */
+export function minHashSignature(text: string, options: MinHashOptions = {}): Signature {
+  const numHashes = options.numHashes ?? DEFAULT_NUM_HASHES;
+  const signature = new Uint32Array(numHashes).fill(0xffffffff);
+
+  for (const shingle of shingles(text, options.shingleSize)) {
+    for (let i = 0; i < numHashes; i++) {
+      const hash = fnv1a(shingle, Math.imul(i + 1, 0x9e3779b1));
+      if (hash < signature[i]) signature[i] = hash;
+    }
+  }
+  return signature;
+}
+
+/**
+ * Estimated Jaccard similarity (0-1) of two signatures
+ */
+export function estimateSimilarity(a: Signature, b: Signature): number {
+  if (a.length !== b.length) {
+    throw new Error('Signatures must use the same number of hashes');
+  }
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) matches++;
+  }
+  return matches / a.length;
+}
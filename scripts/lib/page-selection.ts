@@ -0,0 +1,222 @@
+/**
+ * Page Selection
+ *
+ * Ranks exported suburbs with business.yaml `service.page_selection` and
+ * decides which get a full location page, which are only mentioned on the
+ * /locations index and which are left off the site. The score blends
+ * closeness, population and our own job history (config CSV of job counts),
+ * and manual priority / mention-only / exclude lists override the ranking.
+ * Every decision carries a reason for the selection report.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { parseCsv } from './suburb-enrichment';
+import { matchesSuburbList } from '../../src/utils/service-area';
+import type { PageTier } from '../../src/utils/page-selection';
+import { getMaxLocationPages, type BusinessConfig } from '../../src/config/business-schema';
+
+export interface SelectionWeights {
+  distance: number;
+  population: number;
+  jobs: number;
+}
+
+export interface PageSelectionPolicy {
+  weights: SelectionWeights;
+  /** CSV of job counts per suburb (name, state, jobs) */
+  jobHistory?: string;
+  maxPages: number;
+  /** Suburbs scoring below this are mentioned instead of getting a page */
+  minPageScore: number;
+  maxMentions: number;
+  priority: string[];
+  mentionOnly: string[];
+  exclude: string[];
+}
+
+export interface SelectableSuburb {
+  id: number;
+  name: string;
+  state: string;
+  postcode: string | null;
+  distanceKm: number;
+  population: number | null;
+}
+
+export interface PageDecision {
+  id: number;
+  name: string;
+  state: string;
+  postcode: string | null;
+  tier: PageTier;
+  /** Position in the ranking (1 = best), after priority suburbs */
+  rank: number;
+  score: number;
+  factors: SelectionWeights;
+  jobs: number;
+  reason: string;
+}
+
+export interface PageSelection<T> {
+  pages: T[];
+  mentions: T[];
+  omitted: T[];
+  decisions: PageDecision[];
+}
+
+const DEFAULT_WEIGHTS: SelectionWeights = { distance: 1, population: 0, jobs: 0 };
+
+/**
+ * Selection policy from a business.yaml config (null when page_selection is
+ * not configured, in which case every suburb keeps its page in distance order)
+ */
+export function getPageSelectionPolicy(config: BusinessConfig): PageSelectionPolicy | null {
+  const selection = config.service.page_selection;
+  if (!selection) return null;
+
+  return {
+    weights: { ...DEFAULT_WEIGHTS, ...selection.weights },
+    jobHistory: selection.job_history,
+    maxPages: getMaxLocationPages(config),
+    minPageScore: selection.min_page_score ?? 0,
+    maxMentions: selection.max_mentions ?? Infinity,
+    priority: selection.priority ?? [],
+    mentionOnly: selection.mention_only ?? [],
+    exclude: selection.exclude ?? [],
+  };
+}
+
+function suburbKey(name: string, state: string): string {
+  return `${name.trim().toLowerCase()}|${state.trim().toUpperCase()}`;
+}
+
+/**
+ * Read job counts per suburb. Repeated rows for a suburb are added together,
+ * so an export with one row per year (or per job, with jobs = 1) works too.
+ */
+export function readJobHistory(file: string): Map<string, number> {
+  const resolved = path.resolve(process.cwd(), file);
+  const [header, ...rows] = parseCsv(fs.readFileSync(resolved, 'utf8'));
+  const columns = (header ?? []).map((column) => column.trim().toLowerCase());
+  const missing = ['name', 'state', 'jobs'].filter((column) => !columns.includes(column));
+  if (missing.length > 0) {
+    throw new Error(`${file} is missing column(s): ${missing.join(', ')}`);
+  }
+
+  const jobs = new Map<string, number>();
+  rows.forEach((cells, i) => {
+    const get = (column: string) => (cells[columns.indexOf(column)] ?? '').trim();
+    const count = Number(get('jobs') || 0);
+    if (!Number.isInteger(count) || count < 0) {
+      throw new Error(`${file} row ${i + 1}: jobs must be a whole number, got "${get('jobs')}"`);
+    }
+    const key = suburbKey(get('name'), get('state'));
+    jobs.set(key, (jobs.get(key) ?? 0) + count);
+  });
+  return jobs;
+}
+
+/** 0..1 on a log scale, so one very large suburb doesn't flatten the rest */
+function logShare(value: number, max: number): number {
+  return max > 0 ? Math.log1p(value) / Math.log1p(max) : 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Score every suburb and sort it into pages, mentions and omitted suburbs.
+ * Priority suburbs take pages first (still bounded by maxPages); the rest
+ * fill the remaining pages by score, ties going to the closer suburb.
+ */
+export function selectSuburbPages<T extends SelectableSuburb>(
+  suburbs: T[],
+  policy: PageSelectionPolicy,
+  jobHistory: Map<string, number> = new Map()
+): PageSelection<T> {
+  const maxDistance = Math.max(0, ...suburbs.map((suburb) => suburb.distanceKm));
+  const maxPopulation = Math.max(0, ...suburbs.map((suburb) => suburb.population ?? 0));
+  const jobsFor = (suburb: T) => jobHistory.get(suburbKey(suburb.name, suburb.state)) ?? 0;
+  const maxJobs = Math.max(0, ...suburbs.map(jobsFor));
+  const { weights } = policy;
+  const totalWeight = weights.distance + weights.population + weights.jobs;
+
+  const scored = suburbs.map((suburb) => {
+    const factors: SelectionWeights = {
+      distance: round(maxDistance > 0 ? 1 - suburb.distanceKm / maxDistance : 1),
+      population: round(logShare(suburb.population ?? 0, maxPopulation)),
+      jobs: round(logShare(jobsFor(suburb), maxJobs)),
+    };
+    const score = totalWeight > 0
+      ? round((weights.distance * factors.distance + weights.population * factors.population + weights.jobs * factors.jobs) / totalWeight)
+      : 0;
+    return {
+      suburb,
+      factors,
+      score,
+      jobs: jobsFor(suburb),
+      priority: matchesSuburbList(suburb, policy.priority),
+    };
+  });
+
+  const ranked = [...scored].sort((a, b) =>
+    Number(b.priority) - Number(a.priority) ||
+    b.score - a.score ||
+    a.suburb.distanceKm - b.suburb.distanceKm ||
+    a.suburb.id - b.suburb.id
+  );
+
+  const tiers = new Map<T, { tier: PageTier; reason: string }>();
+  let pageCount = 0;
+  let mentionCount = 0;
+  const mention = (reason: string): { tier: PageTier; reason: string } => {
+    if (mentionCount >= policy.maxMentions) {
+      return { tier: 'none', reason: `${reason}; past max_mentions (${policy.maxMentions})` };
+    }
+    mentionCount++;
+    return { tier: 'mention', reason };
+  };
+
+  ranked.forEach(({ suburb, score, priority }, i) => {
+    const rank = i + 1;
+    let decision: { tier: PageTier; reason: string };
+    if (matchesSuburbList(suburb, policy.exclude)) {
+      decision = { tier: 'none', reason: 'Listed in page_selection.exclude' };
+    } else if (matchesSuburbList(suburb, policy.mentionOnly)) {
+      decision = mention('Listed in page_selection.mention_only');
+    } else if (pageCount >= policy.maxPages) {
+      decision = mention(`Ranked ${rank}, past max_location_pages (${policy.maxPages})`);
+    } else if (priority) {
+      pageCount++;
+      decision = { tier: 'page', reason: 'Listed in page_selection.priority' };
+    } else if (score < policy.minPageScore) {
+      decision = mention(`Score ${score} is below min_page_score (${policy.minPageScore})`);
+    } else {
+      pageCount++;
+      decision = { tier: 'page', reason: `Ranked ${rank} of ${ranked.length} with score ${score}` };
+    }
+    tiers.set(suburb, decision);
+  });
+
+  const decisions: PageDecision[] = ranked.map(({ suburb, score, factors, jobs }, i) => ({
+    id: suburb.id,
+    name: suburb.name,
+    state: suburb.state,
+    postcode: suburb.postcode,
+    ...tiers.get(suburb)!,
+    rank: i + 1,
+    score,
+    factors,
+    jobs,
+  }));
+
+  // Pages and mentions keep the distance order of the export
+  return {
+    pages: suburbs.filter((suburb) => tiers.get(suburb)!.tier === 'page'),
+    mentions: suburbs.filter((suburb) => tiers.get(suburb)!.tier === 'mention'),
+    omitted: suburbs.filter((suburb) => tiers.get(suburb)!.tier === 'none'),
+    decisions,
+  };
+}
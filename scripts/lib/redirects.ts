@@ -0,0 +1,116 @@
+/**
+ * Location Redirects
+ *
+ * Each site profile keeps the 301s for its location pages that went away in
+ * location-redirects.json next to its suburbs.json; rules accumulate across
+ * suburb regenerations so old URLs keep redirecting. The build writes the
+ * active profile's rules into a managed block of its own dist/_redirects
+ * (Netlify's copy of public/_redirects), so no brand ships another's rules.
+ * Rules outside the block are never touched.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+export interface RedirectRule {
+  from: string;
+  to: string;
+}
+
+const BLOCK_START = '# BEGIN suburb redirects - managed by npm run suburbs:generate, do not edit';
+const BLOCK_END = '# END suburb redirects';
+
+/**
+ * Where a profile's redirect rules are kept: next to its suburbs.json
+ */
+export function getRedirectRulesPath(suburbsPath: string): string {
+  return path.join(path.dirname(suburbsPath), 'location-redirects.json');
+}
+
+/**
+ * A profile's redirect rules (none before its first regeneration)
+ */
+export function readRedirectRules(file: string): RedirectRule[] {
+  if (!fs.existsSync(file)) return [];
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+export function writeRedirectRules(rules: RedirectRule[], file: string): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(rules, null, 2) + '\n');
+}
+
+/**
+ * Rules in a _redirects file's managed block (one per source path, trailing slash form)
+ */
+export function readManagedRedirects(file: string): RedirectRule[] {
+  if (!fs.existsSync(file)) return [];
+  const lines = fs.readFileSync(file, 'utf8').split('\n');
+  const from = lines.indexOf(BLOCK_START);
+  const to = lines.indexOf(BLOCK_END, from);
+  if (from === -1 || to === -1) return [];
+
+  return lines.slice(from + 1, to)
+    .map((line) => line.trim().split(/\s+/))
+    .filter(([source, target]) => source?.endsWith('/') && target)
+    .map(([source, target]) => ({ from: source, to: target }));
+}
+
+/**
+ * Merge new rules into the existing ones: new rules win, sources that are
+ * live pages again are dropped, and chains (A → B → C) are collapsed to A → C
+ */
+export function mergeRedirects(existing: RedirectRule[], added: RedirectRule[], livePaths: Set<string>): RedirectRule[] {
+  const targets = new Map(existing.map((rule) => [rule.from, rule.to]));
+  for (const rule of added) {
+    targets.set(rule.from, rule.to);
+  }
+  for (const source of livePaths) {
+    targets.delete(source);
+  }
+
+  const resolve = (target: string): string => {
+    const seen = new Set<string>();
+    while (targets.has(target) && !seen.has(target)) {
+      seen.add(target);
+      target = targets.get(target)!;
+    }
+    return target;
+  };
+
+  return [...targets.keys()]
+    .map((from) => ({ from, to: resolve(from) }))
+    .filter((rule) => rule.from !== rule.to)
+    .sort((a, b) => a.from.localeCompare(b.from));
+}
+
+/**
+ * Replace (or append) the managed block in a _redirects file, with and
+ * without the trailing slash
+ */
+export function writeManagedRedirects(rules: RedirectRule[], file: string): void {
+  const existing = fs.existsSync(file) ? fs.readFileSync(file, 'utf8') : '';
+  const lines = existing.split('\n');
+  const from = lines.indexOf(BLOCK_START);
+  const to = from === -1 ? -1 : lines.indexOf(BLOCK_END, from);
+  const hasBlock = from !== -1 && to !== -1;
+
+  const block = rules.length === 0 ? [] : [
+    BLOCK_START,
+    ...rules.flatMap((rule) => [
+      `${rule.from} ${rule.to} 301`,
+      `${rule.from.replace(/\/$/, '')} ${rule.to} 301`,
+    ]),
+    BLOCK_END,
+  ];
+
+  if (block.length === 0 && !hasBlock) return;
+
+  // Keep the rest of the file as is, with one blank line around the block
+  const before = (hasBlock ? lines.slice(0, from) : lines).join('\n').replace(/\s+$/, '');
+  const after = (hasBlock ? lines.slice(to + 1) : []).join('\n').trim();
+  const output = [before, block.join('\n'), after].filter(Boolean).join('\n\n') + '\n';
+
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, output);
+}
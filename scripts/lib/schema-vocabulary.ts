@@ -0,0 +1,428 @@
+/**
+ * Bundled schema.org Vocabulary
+ *
+ * The subset of schema.org types and properties that local business sites
+ * emit, so structured data can be validated offline. Extend this when pages
+ * start using new types or properties.
+ */
+
+/** Primitive data types from schema.org */
+export type DataType = 'Text' | 'URL' | 'Number' | 'Integer' | 'Boolean' | 'Date' | 'DateTime' | 'Time';
+
+export interface TypeDefinition {
+  /** Direct parent types */
+  parents: string[];
+  /** Properties declared directly on this type */
+  properties: string[];
+}
+
+export const DATA_TYPES: DataType[] = ['Text', 'URL', 'Number', 'Integer', 'Boolean', 'Date', 'DateTime', 'Time'];
+
+/** Enumerations and their members */
+export const ENUMERATIONS: Record<string, string[]> = {
+  DayOfWeek: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday', 'PublicHolidays'],
+  ItemAvailability: [
+    'InStock', 'OutOfStock', 'PreOrder', 'BackOrder', 'Discontinued', 'InStoreOnly',
+    'OnlineOnly', 'LimitedAvailability', 'SoldOut', 'PreSale', 'MadeToOrder', 'Reserved',
+  ],
+  ActionStatusType: ['ActiveActionStatus', 'CompletedActionStatus', 'FailedActionStatus', 'PotentialActionStatus'],
+  ReservationStatusType: ['ReservationCancelled', 'ReservationConfirmed', 'ReservationHold', 'ReservationPending'],
+  DigitalPlatformEnumeration: ['DesktopWebPlatform', 'MobileWebPlatform', 'AndroidPlatform', 'IOSPlatform', 'GenericWebPlatform'],
+};
+
+export const TYPES: Record<string, TypeDefinition> = {
+  Thing: {
+    parents: [],
+    properties: [
+      'name', 'description', 'url', 'image', 'sameAs', 'identifier', 'alternateName',
+      'potentialAction', 'mainEntityOfPage', 'additionalType', 'disambiguatingDescription',
+    ],
+  },
+
+  // Places
+  Place: {
+    parents: ['Thing'],
+    properties: [
+      'address', 'geo', 'telephone', 'openingHoursSpecification', 'specialOpeningHoursSpecification',
+      'containedInPlace', 'containsPlace', 'amenityFeature', 'logo', 'hasMap', 'latitude', 'longitude',
+      'photo', 'publicAccess', 'faxNumber', 'branchCode', 'aggregateRating', 'review',
+    ],
+  },
+  AdministrativeArea: { parents: ['Place'], properties: [] },
+  City: { parents: ['AdministrativeArea'], properties: [] },
+  State: { parents: ['AdministrativeArea'], properties: [] },
+  Country: { parents: ['AdministrativeArea'], properties: [] },
+
+  // Organisations
+  Organization: {
+    parents: ['Thing'],
+    properties: [
+      'address', 'email', 'telephone', 'logo', 'areaServed', 'serviceArea', 'founder', 'foundingDate',
+      'contactPoint', 'aggregateRating', 'review', 'makesOffer', 'hasOfferCatalog', 'slogan', 'brand',
+      'legalName', 'numberOfEmployees', 'knowsAbout', 'department', 'parentOrganization', 'faxNumber',
+    ],
+  },
+  LocalBusiness: {
+    parents: ['Organization', 'Place'],
+    properties: ['currenciesAccepted', 'openingHours', 'paymentAccepted', 'priceRange', 'branchOf'],
+  },
+  HomeAndConstructionBusiness: { parents: ['LocalBusiness'], properties: [] },
+  HousePainter: { parents: ['HomeAndConstructionBusiness'], properties: [] },
+  RoofingContractor: { parents: ['HomeAndConstructionBusiness'], properties: [] },
+  GeneralContractor: { parents: ['HomeAndConstructionBusiness'], properties: [] },
+  ProfessionalService: { parents: ['LocalBusiness'], properties: [] },
+  Person: {
+    parents: ['Thing'],
+    properties: ['email', 'telephone', 'jobTitle', 'worksFor', 'address', 'givenName', 'familyName'],
+  },
+  Brand: { parents: ['Intangible'], properties: ['logo', 'slogan', 'aggregateRating', 'review'] },
+
+  // Services and offers
+  Intangible: { parents: ['Thing'], properties: [] },
+  Service: {
+    parents: ['Intangible'],
+    properties: [
+      'serviceType', 'provider', 'areaServed', 'serviceArea', 'offers', 'hasOfferCatalog', 'brand',
+      'category', 'audience', 'availableChannel', 'termsOfService', 'aggregateRating', 'review',
+      'logo', 'slogan', 'providerMobility', 'isRelatedTo', 'isSimilarTo', 'serviceOutput',
+    ],
+  },
+  Offer: {
+    parents: ['Intangible'],
+    properties: [
+      'price', 'priceCurrency', 'priceSpecification', 'availability', 'itemOffered', 'areaServed',
+      'validFrom', 'validThrough', 'seller', 'eligibleRegion', 'businessFunction', 'category',
+      'offeredBy', 'addOn', 'eligibleQuantity',
+    ],
+  },
+  OfferCatalog: { parents: ['ItemList'], properties: [] },
+  StructuredValue: { parents: ['Intangible'], properties: [] },
+  PriceSpecification: {
+    parents: ['StructuredValue'],
+    properties: [
+      'price', 'priceCurrency', 'minPrice', 'maxPrice', 'valueAddedTaxIncluded',
+      'validFrom', 'validThrough', 'eligibleQuantity', 'eligibleTransactionVolume',
+    ],
+  },
+  UnitPriceSpecification: {
+    parents: ['PriceSpecification'],
+    properties: ['unitCode', 'unitText', 'referenceQuantity', 'priceType', 'billingIncrement'],
+  },
+  CompoundPriceSpecification: { parents: ['PriceSpecification'], properties: ['priceComponent', 'priceType'] },
+  QuantitativeValue: {
+    parents: ['StructuredValue'],
+    properties: ['value', 'unitCode', 'unitText', 'minValue', 'maxValue'],
+  },
+  PropertyValue: {
+    parents: ['StructuredValue'],
+    properties: ['value', 'propertyID', 'unitCode', 'unitText', 'minValue', 'maxValue', 'valueReference'],
+  },
+  LocationFeatureSpecification: {
+    parents: ['PropertyValue'],
+    properties: ['hoursAvailable', 'validFrom', 'validThrough'],
+  },
+  OpeningHoursSpecification: {
+    parents: ['StructuredValue'],
+    properties: ['dayOfWeek', 'opens', 'closes', 'validFrom', 'validThrough'],
+  },
+  ContactPoint: {
+    parents: ['StructuredValue'],
+    properties: ['telephone', 'email', 'contactType', 'areaServed', 'availableLanguage', 'hoursAvailable'],
+  },
+  PostalAddress: {
+    parents: ['ContactPoint'],
+    properties: ['streetAddress', 'addressLocality', 'addressRegion', 'postalCode', 'addressCountry', 'postOfficeBoxNumber'],
+  },
+  GeoCoordinates: {
+    parents: ['StructuredValue'],
+    properties: ['latitude', 'longitude', 'elevation', 'address', 'addressCountry', 'postalCode'],
+  },
+  GeoShape: {
+    parents: ['StructuredValue'],
+    properties: ['box', 'circle', 'line', 'polygon', 'address', 'addressCountry', 'elevation', 'postalCode'],
+  },
+  GeoCircle: { parents: ['GeoShape'], properties: ['geoMidpoint', 'geoRadius'] },
+  Rating: { parents: ['Intangible'], properties: ['ratingValue', 'bestRating', 'worstRating', 'author'] },
+  AggregateRating: { parents: ['Rating'], properties: ['ratingCount', 'reviewCount', 'itemReviewed'] },
+
+  // Lists
+  ItemList: { parents: ['Intangible'], properties: ['itemListElement', 'numberOfItems', 'itemListOrder'] },
+  BreadcrumbList: { parents: ['ItemList'], properties: [] },
+  ListItem: { parents: ['Intangible'], properties: ['item', 'position', 'nextItem', 'previousItem'] },
+
+  // Actions
+  Action: {
+    parents: ['Thing'],
+    properties: [
+      'target', 'result', 'object', 'agent', 'actionStatus', 'startTime', 'endTime',
+      'error', 'instrument', 'location', 'participant',
+    ],
+  },
+  OrganizeAction: { parents: ['Action'], properties: [] },
+  PlanAction: { parents: ['OrganizeAction'], properties: ['scheduledTime'] },
+  ReserveAction: { parents: ['PlanAction'], properties: [] },
+  CommunicateAction: { parents: ['Action'], properties: ['about', 'inLanguage', 'recipient'] },
+  AskAction: { parents: ['CommunicateAction'], properties: ['question'] },
+  EntryPoint: {
+    parents: ['Intangible'],
+    properties: ['urlTemplate', 'actionPlatform', 'inLanguage', 'encodingType', 'contentType', 'httpMethod', 'actionApplication'],
+  },
+  Reservation: {
+    parents: ['Intangible'],
+    properties: [
+      'reservationFor', 'reservationStatus', 'underName', 'provider', 'totalPrice', 'priceCurrency',
+      'bookingTime', 'reservationId', 'broker', 'modifiedTime',
+    ],
+  },
+
+  // Creative works and pages
+  CreativeWork: {
+    parents: ['Thing'],
+    properties: [
+      'text', 'inLanguage', 'about', 'author', 'datePublished', 'dateModified', 'headline',
+      'publisher', 'mainEntity', 'keywords', 'isPartOf', 'hasPart',
+    ],
+  },
+  WebSite: { parents: ['CreativeWork'], properties: [] },
+  WebPage: {
+    parents: ['CreativeWork'],
+    properties: ['breadcrumb', 'primaryImageOfPage', 'lastReviewed', 'speakable', 'significantLink'],
+  },
+  FAQPage: { parents: ['WebPage'], properties: [] },
+  MediaObject: { parents: ['CreativeWork'], properties: ['contentUrl', 'width', 'height', 'encodingFormat'] },
+  ImageObject: { parents: ['MediaObject'], properties: ['caption'] },
+  Comment: { parents: ['CreativeWork'], properties: ['upvoteCount', 'downvoteCount', 'parentItem'] },
+  Question: {
+    parents: ['Comment'],
+    properties: ['acceptedAnswer', 'suggestedAnswer', 'answerCount', 'eduQuestionType'],
+  },
+  Answer: { parents: ['Comment'], properties: [] },
+  Review: { parents: ['CreativeWork'], properties: ['reviewRating', 'itemReviewed', 'reviewBody'] },
+};
+
+/** Expected value types for each property (type names, data types or enumerations) */
+export const PROPERTY_RANGES: Record<string, string[]> = {
+  // Thing
+  name: ['Text'],
+  description: ['Text'],
+  url: ['URL'],
+  image: ['URL', 'ImageObject'],
+  sameAs: ['URL'],
+  identifier: ['Text', 'URL', 'PropertyValue'],
+  alternateName: ['Text'],
+  potentialAction: ['Action'],
+  mainEntityOfPage: ['URL', 'CreativeWork'],
+  additionalType: ['URL', 'Text'],
+  disambiguatingDescription: ['Text'],
+
+  // Place / Organization
+  address: ['PostalAddress', 'Text'],
+  geo: ['GeoCoordinates', 'GeoShape'],
+  telephone: ['Text'],
+  faxNumber: ['Text'],
+  email: ['Text'],
+  openingHoursSpecification: ['OpeningHoursSpecification'],
+  specialOpeningHoursSpecification: ['OpeningHoursSpecification'],
+  containedInPlace: ['Place'],
+  containsPlace: ['Place'],
+  amenityFeature: ['LocationFeatureSpecification'],
+  logo: ['URL', 'ImageObject'],
+  hasMap: ['URL'],
+  latitude: ['Number', 'Text'],
+  longitude: ['Number', 'Text'],
+  photo: ['ImageObject'],
+  publicAccess: ['Boolean'],
+  branchCode: ['Text'],
+  areaServed: ['AdministrativeArea', 'GeoShape', 'Place', 'Text'],
+  serviceArea: ['AdministrativeArea', 'GeoShape', 'Place'],
+  founder: ['Person', 'Organization'],
+  foundingDate: ['Date'],
+  contactPoint: ['ContactPoint'],
+  aggregateRating: ['AggregateRating'],
+  review: ['Review'],
+  makesOffer: ['Offer'],
+  hasOfferCatalog: ['OfferCatalog'],
+  slogan: ['Text'],
+  brand: ['Brand', 'Organization'],
+  legalName: ['Text'],
+  numberOfEmployees: ['QuantitativeValue'],
+  knowsAbout: ['Text', 'URL', 'Thing'],
+  department: ['Organization'],
+  parentOrganization: ['Organization'],
+  currenciesAccepted: ['Text'],
+  openingHours: ['Text'],
+  paymentAccepted: ['Text'],
+  priceRange: ['Text'],
+  branchOf: ['Organization'],
+  jobTitle: ['Text'],
+  worksFor: ['Organization'],
+  givenName: ['Text'],
+  familyName: ['Text'],
+
+  // Service / Offer
+  serviceType: ['Text'],
+  provider: ['Organization', 'Person'],
+  offers: ['Offer'],
+  category: ['Text', 'Thing', 'URL'],
+  audience: ['Thing'],
+  availableChannel: ['Thing'],
+  termsOfService: ['Text', 'URL'],
+  providerMobility: ['Text'],
+  isRelatedTo: ['Service'],
+  isSimilarTo: ['Service'],
+  serviceOutput: ['Thing'],
+  price: ['Number', 'Text'],
+  priceCurrency: ['Text'],
+  priceSpecification: ['PriceSpecification'],
+  availability: ['ItemAvailability'],
+  itemOffered: ['Service', 'Thing'],
+  validFrom: ['Date', 'DateTime'],
+  validThrough: ['Date', 'DateTime'],
+  seller: ['Organization', 'Person'],
+  offeredBy: ['Organization', 'Person'],
+  eligibleRegion: ['GeoShape', 'Place', 'Text'],
+  businessFunction: ['Thing'],
+  addOn: ['Offer'],
+  eligibleQuantity: ['QuantitativeValue'],
+  eligibleTransactionVolume: ['PriceSpecification'],
+  minPrice: ['Number'],
+  maxPrice: ['Number'],
+  valueAddedTaxIncluded: ['Boolean'],
+  unitCode: ['Text', 'URL'],
+  unitText: ['Text'],
+  referenceQuantity: ['QuantitativeValue'],
+  priceType: ['Text'],
+  billingIncrement: ['Number'],
+  priceComponent: ['UnitPriceSpecification'],
+  value: ['Boolean', 'Number', 'Text', 'StructuredValue'],
+  minValue: ['Number'],
+  maxValue: ['Number'],
+  propertyID: ['Text', 'URL'],
+  valueReference: ['Text', 'StructuredValue'],
+  hoursAvailable: ['OpeningHoursSpecification'],
+
+  // Hours
+  dayOfWeek: ['DayOfWeek'],
+  opens: ['Time'],
+  closes: ['Time'],
+
+  // Addresses and geo
+  contactType: ['Text'],
+  availableLanguage: ['Text'],
+  streetAddress: ['Text'],
+  addressLocality: ['Text'],
+  addressRegion: ['Text'],
+  postalCode: ['Text'],
+  addressCountry: ['Text', 'Country'],
+  postOfficeBoxNumber: ['Text'],
+  elevation: ['Number', 'Text'],
+  box: ['Text'],
+  circle: ['Text'],
+  line: ['Text'],
+  polygon: ['Text'],
+  geoMidpoint: ['GeoCoordinates'],
+  geoRadius: ['Number', 'Text'],
+  ratingValue: ['Number', 'Text'],
+  bestRating: ['Number', 'Text'],
+  worstRating: ['Number', 'Text'],
+  ratingCount: ['Integer'],
+  reviewCount: ['Integer'],
+  itemReviewed: ['Thing'],
+
+  // Lists
+  itemListElement: ['ListItem', 'Thing', 'Text'],
+  numberOfItems: ['Integer'],
+  itemListOrder: ['Text'],
+  item: ['Thing', 'URL'],
+  position: ['Integer', 'Text'],
+  nextItem: ['ListItem'],
+  previousItem: ['ListItem'],
+
+  // Actions
+  target: ['EntryPoint', 'URL'],
+  result: ['Thing'],
+  object: ['Thing'],
+  agent: ['Organization', 'Person'],
+  actionStatus: ['ActionStatusType'],
+  startTime: ['DateTime', 'Time'],
+  endTime: ['DateTime', 'Time'],
+  error: ['Thing'],
+  instrument: ['Thing'],
+  location: ['Place', 'PostalAddress', 'Text'],
+  participant: ['Organization', 'Person'],
+  scheduledTime: ['DateTime'],
+  recipient: ['Organization', 'Person'],
+  question: ['Question', 'Text'],
+  urlTemplate: ['Text'],
+  actionPlatform: ['DigitalPlatformEnumeration', 'Text', 'URL'],
+  inLanguage: ['Text'],
+  encodingType: ['Text'],
+  contentType: ['Text'],
+  httpMethod: ['Text'],
+  actionApplication: ['Thing'],
+  reservationFor: ['Thing'],
+  reservationStatus: ['ReservationStatusType'],
+  underName: ['Organization', 'Person'],
+  totalPrice: ['Number', 'PriceSpecification', 'Text'],
+  bookingTime: ['DateTime'],
+  reservationId: ['Text'],
+  broker: ['Organization', 'Person'],
+  modifiedTime: ['DateTime'],
+
+  // Creative works
+  text: ['Text'],
+  about: ['Thing'],
+  author: ['Organization', 'Person'],
+  datePublished: ['Date', 'DateTime'],
+  dateModified: ['Date', 'DateTime'],
+  headline: ['Text'],
+  publisher: ['Organization', 'Person'],
+  mainEntity: ['Thing'],
+  keywords: ['Text', 'URL'],
+  isPartOf: ['CreativeWork', 'URL'],
+  hasPart: ['CreativeWork'],
+  breadcrumb: ['BreadcrumbList', 'Text'],
+  primaryImageOfPage: ['ImageObject'],
+  lastReviewed: ['Date'],
+  speakable: ['Thing', 'URL'],
+  significantLink: ['URL'],
+  contentUrl: ['URL'],
+  width: ['QuantitativeValue', 'Text', 'Number'],
+  height: ['QuantitativeValue', 'Text', 'Number'],
+  encodingFormat: ['Text', 'URL'],
+  caption: ['Text'],
+  upvoteCount: ['Integer'],
+  downvoteCount: ['Integer'],
+  parentItem: ['Comment', 'CreativeWork'],
+  acceptedAnswer: ['Answer', 'ItemList'],
+  suggestedAnswer: ['Answer', 'ItemList'],
+  answerCount: ['Integer'],
+  eduQuestionType: ['Text'],
+  reviewRating: ['Rating'],
+  reviewBody: ['Text'],
+};
+
+/**
+ * Whether a type is the same as, or a descendant of, another type
+ */
+export function isSubtypeOf(type: string, ancestor: string): boolean {
+  if (type === ancestor) return true;
+  const definition = TYPES[type];
+  return !!definition && definition.parents.some((parent) => isSubtypeOf(parent, ancestor));
+}
+
+/**
+ * All properties a type accepts, including inherited ones
+ */
+export function propertiesOf(type: string, seen = new Set<string>()): Set<string> {
+  const properties = new Set<string>();
+  const definition = TYPES[type];
+  if (!definition || seen.has(type)) return properties;
+  seen.add(type);
+
+  definition.properties.forEach((property) => properties.add(property));
+  for (const parent of definition.parents) {
+    propertiesOf(parent, seen).forEach((property) => properties.add(property));
+  }
+  return properties;
+}
@@ -0,0 +1,366 @@
+/**
+ * Structured Data Validator
+ *
+ * Validates JSON-LD blocks against the bundled schema.org vocabulary and
+ * Google's rich-result rules, without any network access.
+ */
+
+import {
+  DATA_TYPES,
+  ENUMERATIONS,
+  PROPERTY_RANGES,
+  TYPES,
+  isSubtypeOf,
+  propertiesOf,
+  type DataType,
+} from './schema-vocabulary';
+
+export type Severity = 'error' | 'warning';
+
+export interface StructuredDataIssue {
+  severity: Severity;
+  /** Location of the problem, e.g. LocalBusiness.potentialAction.target.inLanguage */
+  path: string;
+  message: string;
+}
+
+export interface ValidationOptions {
+  /** Expected BCP 47 language for inLanguage values, e.g. en-AU */
+  language: string;
+  /** Origin of the site, used to check that referenced assets exist */
+  siteOrigin?: string;
+  /** Returns false when a site-relative asset is missing from the build */
+  assetExists?: (pathname: string) => boolean;
+}
+
+export interface JsonLdBlock {
+  index: number;
+  data?: unknown;
+  parseError?: string;
+}
+
+type JsonObject = Record<string, unknown>;
+
+const JSON_LD_PATTERN = /<script\b[^>]*type=["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi;
+
+/**
+ * Pull every application/ld+json block out of an HTML document
+ */
+export function extractJsonLd(html: string): JsonLdBlock[] {
+  const blocks: JsonLdBlock[] = [];
+  let match: RegExpExecArray | null;
+  let index = 0;
+
+  JSON_LD_PATTERN.lastIndex = 0;
+  while ((match = JSON_LD_PATTERN.exec(html)) !== null) {
+    try {
+      blocks.push({ index, data: JSON.parse(match[1]) });
+    } catch (error) {
+      blocks.push({ index, parseError: (error as Error).message });
+    }
+    index++;
+  }
+  return blocks;
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function typesOf(node: JsonObject): string[] {
+  const type = node['@type'];
+  if (typeof type === 'string') return [type];
+  if (Array.isArray(type)) return type.filter((t): t is string => typeof t === 'string');
+  return [];
+}
+
+function hasType(node: JsonObject, ancestor: string): boolean {
+  return typesOf(node).some((type) => isSubtypeOf(type, ancestor));
+}
+
+function toArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : value === undefined ? [] : [value];
+}
+
+const DATA_TYPE_CHECKS: Record<DataType, (value: unknown) => boolean> = {
+  Text: (value) => typeof value === 'string',
+  URL: (value) => typeof value === 'string' && /^https?:\/\/\S+$/.test(value),
+  Number: (value) =>
+    (typeof value === 'number' && Number.isFinite(value)) ||
+    (typeof value === 'string' && /^-?\d+(\.\d+)?$/.test(value)),
+  Integer: (value) =>
+    (typeof value === 'number' && Number.isInteger(value)) ||
+    (typeof value === 'string' && /^-?\d+$/.test(value)),
+  Boolean: (value) => typeof value === 'boolean',
+  Date: (value) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value),
+  DateTime: (value) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?$/.test(value),
+  Time: (value) => typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?(Z|[+-]\d{2}:\d{2})?$/.test(value),
+};
+
+function matchesEnumeration(value: unknown, enumeration: string): boolean {
+  if (typeof value !== 'string') return false;
+  const member = value.replace(/^https?:\/\/schema\.org\//, '');
+  return ENUMERATIONS[enumeration].includes(member);
+}
+
+function describeValue(value: unknown): string {
+  const text = JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+/**
+ * Check a JSON-LD document against the schema.org vocabulary
+ */
+function validateVocabulary(data: unknown, issues: StructuredDataIssue[]): void {
+  const error = (path: string, message: string) => issues.push({ severity: 'error', path, message });
+  const warning = (path: string, message: string) => issues.push({ severity: 'warning', path, message });
+
+  function validateNode(node: JsonObject, path: string, expected?: string[]): void {
+    if (Array.isArray(node['@graph'])) {
+      node['@graph'].forEach((child, i) => isObject(child) && validateNode(child, `${path}@graph[${i}]`));
+      return;
+    }
+
+    const types = typesOf(node);
+    if (types.length === 0) {
+      error(path || '(root)', 'Missing @type');
+      return;
+    }
+
+    const known = types.filter((type) => TYPES[type]);
+    types.filter((type) => !TYPES[type]).forEach((type) => {
+      error(path || type, `Unknown schema.org type "${type}"`);
+    });
+    if (known.length === 0) return;
+
+    const nodePath = path || known[0];
+    const objectRanges = expected?.filter((range) => TYPES[range]);
+    if (objectRanges && !known.some((type) => objectRanges.some((range) => isSubtypeOf(type, range)))) {
+      error(nodePath, `${known.join('/')} is not a valid value here (expected ${expected!.join(' or ')})`);
+    }
+
+    const allowed = new Set<string>();
+    known.forEach((type) => propertiesOf(type).forEach((property) => allowed.add(property)));
+
+    for (const [property, value] of Object.entries(node)) {
+      if (property.startsWith('@')) continue;
+      const propertyPath = `${nodePath}.${property}`;
+
+      if (!allowed.has(property)) {
+        error(propertyPath, `"${property}" is not a property of ${known.join('/')}`);
+        continue;
+      }
+      validateValue(value, PROPERTY_RANGES[property] ?? ['Thing', 'Text'], propertyPath);
+    }
+  }
+
+  function validateValue(value: unknown, ranges: string[], path: string): void {
+    if (Array.isArray(value)) {
+      value.forEach((item, i) => validateValue(item, ranges, `${path}[${i}]`));
+      return;
+    }
+
+    if (value === null || value === '') {
+      warning(path, 'Empty value; omit the property instead');
+      return;
+    }
+
+    if (isObject(value)) {
+      if (!ranges.some((range) => TYPES[range])) {
+        error(path, `Expected ${ranges.join(' or ')}, got an object`);
+        return;
+      }
+      validateNode(value, path, ranges);
+      return;
+    }
+
+    const valid = ranges.some((range) => {
+      if ((DATA_TYPES as string[]).includes(range)) return DATA_TYPE_CHECKS[range as DataType](value);
+      if (ENUMERATIONS[range]) return matchesEnumeration(value, range);
+      return false;
+    });
+    if (valid) return;
+
+    const literalRanges = ranges.filter((range) => (DATA_TYPES as string[]).includes(range) || ENUMERATIONS[range]);
+    if (literalRanges.length === 0) {
+      // A plain string where an object is expected is tolerated by schema.org, but weak
+      if (typeof value === 'string') {
+        warning(path, `Expected a ${ranges.join(' or ')} object, got text`);
+        return;
+      }
+    }
+    error(path, `${describeValue(value)} is not a valid ${ranges.join(' or ')}`);
+  }
+
+  if (Array.isArray(data)) {
+    data.forEach((node, i) => isObject(node) ? validateNode(node, `[${i}]`) : error(`[${i}]`, 'Expected an object'));
+  } else if (isObject(data)) {
+    validateNode(data, '');
+  } else {
+    error('(root)', 'Expected a JSON-LD object');
+  }
+}
+
+/**
+ * Visit every typed node with its path
+ */
+function walkNodes(data: unknown, visit: (node: JsonObject, path: string) => void, path = ''): void {
+  if (Array.isArray(data)) {
+    data.forEach((item, i) => walkNodes(item, visit, `${path}[${i}]`));
+    return;
+  }
+  if (!isObject(data)) return;
+
+  const nodePath = path || typesOf(data)[0] || '(root)';
+  if (typesOf(data).length > 0) visit(data, nodePath);
+
+  for (const [key, value] of Object.entries(data)) {
+    if (key === '@type' || key === '@context') continue;
+    walkNodes(value, visit, key === '@graph' ? `${nodePath}@graph` : `${nodePath}.${key}`);
+  }
+}
+
+/**
+ * Google rich-result requirements and site policies on top of the vocabulary
+ */
+function validateRichResults(data: unknown, options: ValidationOptions, issues: StructuredDataIssue[]): void {
+  const error = (path: string, message: string) => issues.push({ severity: 'error', path, message });
+  const warning = (path: string, message: string) => issues.push({ severity: 'warning', path, message });
+
+  const roots = Array.isArray(data) ? data : [data];
+  roots.forEach((root, i) => {
+    if (!isObject(root)) return;
+    const context = root['@context'];
+    if (typeof context !== 'string' || !/^https?:\/\/schema\.org\/?$/.test(context)) {
+      error(roots.length > 1 ? `[${i}]` : typesOf(root)[0] ?? '(root)', '@context must be "https://schema.org"');
+    }
+  });
+
+  walkNodes(data, (node, path) => {
+    // Business listing rules apply to top-level entities, not provider references
+    if (hasType(node, 'LocalBusiness') && !path.includes('.')) {
+      for (const property of ['name', 'address']) {
+        if (node[property] === undefined) error(`${path}.${property}`, `LocalBusiness requires "${property}"`);
+      }
+      for (const property of ['telephone', 'url', 'geo', 'openingHoursSpecification']) {
+        if (node[property] === undefined) warning(`${path}.${property}`, `"${property}" is recommended for LocalBusiness`);
+      }
+      if (typeof node.priceRange === 'string' && node.priceRange.length >= 100) {
+        error(`${path}.priceRange`, 'priceRange must be under 100 characters');
+      }
+    }
+
+    if (hasType(node, 'PostalAddress')) {
+      const country = node.addressCountry;
+      if (typeof country === 'string' && !/^[A-Z]{2}$/.test(country)) {
+        warning(`${path}.addressCountry`, `Use a two-letter ISO 3166-1 country code instead of "${country}"`);
+      }
+    }
+
+    if (hasType(node, 'GeoCoordinates')) {
+      const latitude = Number(node.latitude);
+      const longitude = Number(node.longitude);
+      if (!(latitude >= -90 && latitude <= 90)) error(`${path}.latitude`, 'Latitude must be between -90 and 90');
+      if (!(longitude >= -180 && longitude <= 180)) error(`${path}.longitude`, 'Longitude must be between -180 and 180');
+    }
+
+    if (hasType(node, 'Offer') || hasType(node, 'PriceSpecification')) {
+      if (node.price !== undefined && !DATA_TYPE_CHECKS.Number(node.price)) {
+        error(`${path}.price`, `price must be a number (use "." for decimals), got ${describeValue(node.price)}`);
+      }
+      if (node.priceCurrency !== undefined && !/^[A-Z]{3}$/.test(String(node.priceCurrency))) {
+        error(`${path}.priceCurrency`, 'priceCurrency must be a three-letter ISO 4217 code such as "AUD"');
+      }
+      const hasPrice = node.price !== undefined || node.minPrice !== undefined || node.maxPrice !== undefined;
+      if (hasType(node, 'PriceSpecification') && !hasPrice) {
+        error(path, 'PriceSpecification needs price, or minPrice/maxPrice');
+      }
+      if (hasPrice && node.priceCurrency === undefined) {
+        error(`${path}.priceCurrency`, 'priceCurrency is required when a price is given');
+      }
+      if (typeof node.minPrice === 'number' && typeof node.maxPrice === 'number' && node.minPrice > node.maxPrice) {
+        error(path, 'minPrice must not be greater than maxPrice');
+      }
+    }
+
+    if (hasType(node, 'OpeningHoursSpecification')) {
+      if (node.opens === undefined || node.closes === undefined) {
+        error(path, 'OpeningHoursSpecification needs both opens and closes');
+      }
+      if (node.dayOfWeek === undefined && node.validFrom === undefined) {
+        error(path, 'OpeningHoursSpecification needs dayOfWeek, or validFrom/validThrough for special hours');
+      }
+    }
+
+    if (hasType(node, 'BreadcrumbList')) {
+      const items = toArray(node.itemListElement);
+      if (items.length === 0) {
+        error(`${path}.itemListElement`, 'BreadcrumbList needs at least one ListItem');
+      }
+      items.forEach((item, i) => {
+        const itemPath = `${path}.itemListElement[${i}]`;
+        if (!isObject(item)) return;
+        if (Number(item.position) !== i + 1) {
+          error(`${itemPath}.position`, `Expected position ${i + 1}, got ${describeValue(item.position)}`);
+        }
+        if (!item.name) error(`${itemPath}.name`, 'ListItem requires "name"');
+        if (item.item === undefined && i < items.length - 1) {
+          error(`${itemPath}.item`, 'ListItem requires "item" unless it is the last crumb');
+        }
+      });
+    }
+
+    if (hasType(node, 'FAQPage')) {
+      const questions = toArray(node.mainEntity);
+      if (questions.length === 0) error(`${path}.mainEntity`, 'FAQPage needs at least one Question');
+      questions.forEach((question, i) => {
+        const questionPath = `${path}.mainEntity[${i}]`;
+        if (!isObject(question) || !hasType(question, 'Question')) {
+          error(questionPath, 'FAQPage mainEntity must be Question objects');
+          return;
+        }
+        if (!question.name) error(`${questionPath}.name`, 'Question requires "name"');
+        const answer = question.acceptedAnswer;
+        if (!isObject(answer) || !answer.text) {
+          error(`${questionPath}.acceptedAnswer`, 'Question requires an acceptedAnswer with "text"');
+        }
+      });
+    }
+
+    if (node.inLanguage !== undefined) {
+      for (const language of toArray(node.inLanguage)) {
+        if (typeof language !== 'string' || !/^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/.test(language)) {
+          error(`${path}.inLanguage`, `${describeValue(language)} is not a BCP 47 language tag`);
+        } else if (language.toLowerCase() !== options.language.toLowerCase()) {
+          error(`${path}.inLanguage`, `Expected "${options.language}" for this site, got "${language}"`);
+        }
+      }
+    }
+
+    if (options.siteOrigin && options.assetExists) {
+      for (const property of ['image', 'logo']) {
+        for (const value of toArray(node[property])) {
+          if (typeof value !== 'string') continue;
+          try {
+            const url = new URL(value);
+            if (url.origin === options.siteOrigin && !options.assetExists(decodeURI(url.pathname))) {
+              error(`${path}.${property}`, `${url.pathname} does not exist in the build output`);
+            }
+          } catch {
+            // Invalid URLs are reported by the vocabulary check
+          }
+        }
+      }
+    }
+  });
+}
+
+/**
+ * Validate a parsed JSON-LD document
+ */
+export function validateJsonLd(data: unknown, options: ValidationOptions): StructuredDataIssue[] {
+  const issues: StructuredDataIssue[] = [];
+  validateVocabulary(data, issues);
+  validateRichResults(data, options, issues);
+  return issues;
+}
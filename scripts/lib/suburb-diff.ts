@@ -0,0 +1,139 @@
+/**
+ * Suburb Diff
+ *
+ * Compares a freshly exported suburb list with the previous suburbs.json:
+ * suburbs added, removed, renamed and with changed postcodes, plus the
+ * location pages that disappear and where their URLs should 301 to.
+ */
+
+import { generateLocationSlug } from '@mcoster/astro-local-package/utils/location-builder';
+import { geodesicDistanceMetres } from './geo';
+
+export interface DiffSuburb {
+  id: number;
+  name: string;
+  state: string;
+  postcode: string | null;
+  latitude: number;
+  longitude: number;
+}
+
+export interface SuburbRef {
+  id: number;
+  name: string;
+  slug: string;
+}
+
+export interface SuburbRename {
+  id: number;
+  from: SuburbRef;
+  to: SuburbRef;
+}
+
+export interface PostcodeChange {
+  id: number;
+  name: string;
+  from: string | null;
+  to: string | null;
+}
+
+export interface LocationRedirect {
+  from: string;
+  to: string;
+  reason: 'removed' | 'renamed' | 'postcode' | 'page-limit';
+}
+
+export interface SuburbDiff {
+  added: SuburbRef[];
+  removed: SuburbRef[];
+  renamed: SuburbRename[];
+  postcodeChanged: PostcodeChange[];
+  redirects: LocationRedirect[];
+}
+
+/**
+ * Location page slug ("burleigh-heads-qld-4220"): the package's own, which
+ * names the pages, so redirects always point at slugs that exist
+ */
+export const locationSlug: (suburb: Pick<DiffSuburb, 'name' | 'state' | 'postcode'>) => string = generateLocationSlug;
+
+export function locationUrl(slug: string): string {
+  return `/locations/${slug}/`;
+}
+
+function toRef(suburb: DiffSuburb): SuburbRef {
+  return { id: suburb.id, name: suburb.name, slug: locationSlug(suburb) };
+}
+
+/**
+ * Nearest suburb that still has a page, for removed suburbs
+ */
+function findNearest(suburb: DiffSuburb, candidates: DiffSuburb[]): DiffSuburb | undefined {
+  let nearest: { suburb: DiffSuburb; metres: number } | undefined;
+  for (const candidate of candidates) {
+    const metres = geodesicDistanceMetres(suburb.latitude, suburb.longitude, candidate.latitude, candidate.longitude);
+    if (!nearest || metres < nearest.metres) {
+      nearest = { suburb: candidate, metres };
+    }
+  }
+  return nearest?.suburb;
+}
+
+/**
+ * Diff two suburb lists (matched by suburb id). Only the first `pageLimit`
+ * suburbs of each list have location pages (max_location_pages, or the pages
+ * picked by page_selection ahead of the mentions), so a suburb can also lose
+ * its page by dropping below the cap.
+ */
+export function diffSuburbs(
+  previous: DiffSuburb[],
+  next: DiffSuburb[],
+  pageLimit = Infinity,
+  previousPageLimit = pageLimit
+): SuburbDiff {
+  const previousById = new Map(previous.map((suburb) => [suburb.id, suburb]));
+  const nextById = new Map(next.map((suburb) => [suburb.id, suburb]));
+
+  const added = next.filter((suburb) => !previousById.has(suburb.id)).map(toRef);
+  const removed = previous.filter((suburb) => !nextById.has(suburb.id)).map(toRef);
+
+  const renamed: SuburbRename[] = [];
+  const postcodeChanged: PostcodeChange[] = [];
+  for (const suburb of next) {
+    const before = previousById.get(suburb.id);
+    if (!before) continue;
+    if (before.name !== suburb.name || before.state !== suburb.state) {
+      renamed.push({ id: suburb.id, from: toRef(before), to: toRef(suburb) });
+    }
+    if (before.postcode !== suburb.postcode) {
+      postcodeChanged.push({ id: suburb.id, name: suburb.name, from: before.postcode, to: suburb.postcode });
+    }
+  }
+
+  // Pages that existed before and no longer exist at the same slug
+  const nextPages = next.slice(0, pageLimit);
+  const nextPageById = new Map(nextPages.map((suburb) => [suburb.id, suburb]));
+  const nextSlugs = new Set(nextPages.map(locationSlug));
+  const redirects: LocationRedirect[] = [];
+
+  for (const suburb of previous.slice(0, previousPageLimit)) {
+    const from = locationSlug(suburb);
+    if (nextSlugs.has(from)) continue;
+
+    const current = nextPageById.get(suburb.id);
+    const target = current ?? findNearest(suburb, nextPages);
+    if (!target) continue;
+
+    const reason: LocationRedirect['reason'] = current
+      ? (current.name !== suburb.name || current.state !== suburb.state ? 'renamed' : 'postcode')
+      : (nextById.has(suburb.id) ? 'page-limit' : 'removed');
+    redirects.push({ from: locationUrl(from), to: locationUrl(locationSlug(target)), reason });
+  }
+
+  return { added, removed, renamed, postcodeChanged, redirects };
+}
+
+export function hasChanges(diff: SuburbDiff): boolean {
+  return diff.added.length + diff.removed.length + diff.renamed.length +
+    diff.postcodeChanged.length + diff.redirects.length > 0;
+}
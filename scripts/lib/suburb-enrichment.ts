@@ -0,0 +1,122 @@
+/**
+ * Suburb Enrichment CSV
+ *
+ * Reads config/suburb-enrichment.csv (lga, region, coastal, housing_era,
+ * roof_mix per suburb) and attaches it to exported suburbs as `enrichment`.
+ * Lines starting with # are comments; blank cells are left out.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { SuburbEnrichment } from '../../src/utils/suburb-enrichment';
+
+export const ENRICHMENT_PATH = path.join(process.cwd(), 'config', 'suburb-enrichment.csv');
+
+const REQUIRED_COLUMNS = ['name', 'state', 'lga', 'region', 'coastal', 'housing_era', 'roof_mix'];
+
+/**
+ * Parse CSV text into rows (quoted fields may contain commas, quotes and newlines)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => !(cells.length === 1 && cells[0].trim() === '') && !cells[0].startsWith('#'));
+}
+
+function suburbKey(name: string, state: string): string {
+  return `${name.trim().toLowerCase()}|${state.trim().toUpperCase()}`;
+}
+
+/**
+ * "tile:60|metal:40" → { tile: 60, metal: 40 }
+ */
+function parseRoofMix(value: string, line: number): Record<string, number> {
+  const mix: Record<string, number> = {};
+  for (const part of value.split('|')) {
+    const match = part.trim().match(/^([a-z][a-z ]*):(\d+(?:\.\d+)?)$/i);
+    if (!match) {
+      throw new Error(`Row ${line}: roof_mix must look like "tile:60|metal:40", got "${value}"`);
+    }
+    mix[match[1].trim().toLowerCase()] = Number(match[2]);
+  }
+  return mix;
+}
+
+/**
+ * Read the enrichment CSV into a map keyed by suburb name and state
+ */
+export function readEnrichment(file = ENRICHMENT_PATH): Map<string, SuburbEnrichment> {
+  const [header, ...rows] = parseCsv(fs.readFileSync(file, 'utf8'));
+  const columns = (header ?? []).map((column) => column.trim().toLowerCase());
+  const missing = REQUIRED_COLUMNS.filter((column) => !columns.includes(column));
+  if (missing.length > 0) {
+    throw new Error(`${path.relative(process.cwd(), file)} is missing column(s): ${missing.join(', ')}`);
+  }
+
+  const enrichment = new Map<string, SuburbEnrichment>();
+  rows.forEach((cells, i) => {
+    const line = i + 1;
+    const get = (column: string) => (cells[columns.indexOf(column)] ?? '').trim();
+
+    const coastal = get('coastal').toLowerCase();
+    if (coastal && !['yes', 'no'].includes(coastal)) {
+      throw new Error(`Row ${line}: coastal must be "yes", "no" or blank, got "${get('coastal')}"`);
+    }
+
+    enrichment.set(suburbKey(get('name'), get('state')), {
+      ...(get('lga') && { lga: get('lga') }),
+      ...(get('region') && { region: get('region') }),
+      ...(coastal && { coastal: coastal === 'yes' }),
+      ...(get('housing_era') && { housingEra: get('housing_era') }),
+      ...(get('roof_mix') && { roofMix: parseRoofMix(get('roof_mix'), line) }),
+    });
+  });
+  return enrichment;
+}
+
+/**
+ * Attach enrichment to suburbs the CSV covers (others are left unchanged)
+ */
+export function enrichSuburbs<T extends { name: string; state: string }>(
+  suburbs: T[],
+  enrichment: Map<string, SuburbEnrichment>
+): Array<T & { enrichment?: SuburbEnrichment }> {
+  return suburbs.map((suburb) => {
+    const data = enrichment.get(suburbKey(suburb.name, suburb.state));
+    return data && Object.keys(data).length > 0 ? { ...suburb, enrichment: data } : suburb;
+  });
+}
@@ -0,0 +1,405 @@
+/**
+ * Suburb Providers
+ *
+ * Pluggable sources for the suburbs within the service radius (or the
+ * service area polygon, with its include/exclude lists, when configured):
+ * - postgis:   live query against the au_suburbs_db PostGIS database
+ * - gazetteer: bundled, gzipped dump of the same database (no database needed)
+ *
+ * A gazetteer seeded from exported suburbs.json files only holds the suburbs
+ * around those sites: it records the circles it is complete for, and refuses
+ * queries reaching beyond them rather than returning a partial list.
+ *
+ * Both return identical rows for the same centre and radius: distances are
+ * spheroidal and rounded to 2 decimals, directions use the same buckets, and
+ * ties are ordered by suburb id.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { getBranchLocations } from './branch-assignment';
+import { getPageSelectionPolicy } from './page-selection';
+import { ENRICHMENT_PATH } from './suburb-enrichment';
+import { compassDirection, geodesicDistanceMetres, planarAzimuthDegrees, roundHalfAwayFromZero } from './geo';
+import { isPointInServiceArea, matchesSuburbList, resolveServiceArea, type ServiceArea } from '../../src/utils/service-area';
+import type { BusinessConfig } from '../../src/config/business-schema';
+
+export interface Suburb {
+  id: number;
+  name: string;
+  postcode: string | null;
+  state: string;
+  latitude: number;
+  longitude: number;
+  distanceKm: number;
+  direction: string;
+  population: number | null;
+}
+
+export interface SuburbQuery {
+  centerLat: number;
+  centerLng: number;
+  radiusKm: number;
+  /** Polygon replaces the radius; include/exclude lists apply either way */
+  area?: ServiceArea;
+}
+
+export type SuburbProviderName = 'postgis' | 'gazetteer';
+
+export interface SuburbProvider {
+  name: SuburbProviderName;
+  findSuburbsWithinRadius(query: SuburbQuery): Promise<Suburb[]>;
+  close(): Promise<void>;
+}
+
+/** A suburb as stored in the gazetteer (no centre-dependent fields) */
+export interface GazetteerSuburb {
+  id: number;
+  name: string;
+  postcode: string | null;
+  state: string;
+  latitude: number;
+  longitude: number;
+  population: number | null;
+}
+
+/** A circle the gazetteer holds every suburb within */
+export interface GazetteerCoverage {
+  lat: number;
+  lng: number;
+  radiusKm: number;
+}
+
+export interface Gazetteer {
+  source: string;
+  /** Where the gazetteer is complete: null for a full database dump */
+  coverage: GazetteerCoverage[] | null;
+  suburbs: GazetteerSuburb[];
+}
+
+interface GazetteerFile {
+  version: 1;
+  generated: string;
+  source: string;
+  /** Missing in files written before coverage was recorded: treated as covering nothing */
+  coverage?: GazetteerCoverage[] | null;
+  columns: Array<keyof GazetteerSuburb>;
+  rows: unknown[][];
+}
+
+export const GAZETTEER_PATH = path.join(process.cwd(), 'scripts', 'data', 'au-suburbs.json.gz');
+
+const GAZETTEER_COLUMNS: Array<keyof GazetteerSuburb> = ['id', 'name', 'postcode', 'state', 'latitude', 'longitude', 'population'];
+
+/**
+ * Suburb query for a business.yaml config (centre, radius and service area)
+ */
+export function getSuburbQuery(config: BusinessConfig): SuburbQuery {
+  return {
+    centerLat: config.service.center_lat || -34.8517,
+    centerLng: config.service.center_lng || 138.5829,
+    radiusKm: config.service.radius_km,
+    area: resolveServiceArea(config.service.area),
+  };
+}
+
+/**
+ * Calculate a simple hash of relevant config values
+ */
+export function calculateConfigHash(config: BusinessConfig): string {
+  const area = resolveServiceArea(config.service.area);
+  const branches = getBranchLocations(config);
+  const selection = getPageSelectionPolicy(config);
+  const relevant = {
+    lat: config.service.center_lat,
+    lng: config.service.center_lng,
+    radius: config.service.radius_km,
+    // Area, branches, enrichment and page selection only present when configured so radius-only hashes are unchanged
+    ...(area && {
+      area: {
+        polygon: area.geometry
+          ? crypto.createHash('sha1').update(JSON.stringify(area.geometry)).digest('hex').slice(0, 12)
+          : null,
+        include: area.include,
+        exclude: area.exclude,
+      },
+    }),
+    ...(branches.length > 0 && {
+      branches: branches.map(({ id, lat, lng }) => [id, lat, lng]),
+    }),
+    ...(fs.existsSync(ENRICHMENT_PATH) && {
+      enrichment: crypto.createHash('sha1').update(fs.readFileSync(ENRICHMENT_PATH)).digest('hex').slice(0, 12),
+    }),
+    ...(selection && {
+      selection: {
+        ...selection,
+        maxPages: Number.isFinite(selection.maxPages) ? selection.maxPages : null,
+        maxMentions: Number.isFinite(selection.maxMentions) ? selection.maxMentions : null,
+        jobHistory: selection.jobHistory
+          ? crypto.createHash('sha1').update(fs.readFileSync(path.resolve(selection.jobHistory))).digest('hex').slice(0, 12)
+          : null,
+      },
+    }),
+  };
+  return JSON.stringify(relevant);
+}
+
+function getPoolConfig() {
+  return {
+    host: process.env.POSTGIS_HOST || 'localhost',
+    port: parseInt(process.env.POSTGIS_PORT || '5432'),
+    database: process.env.POSTGIS_DATABASE || 'au_suburbs_db',
+    user: process.env.POSTGIS_USER || 'suburbs_user',
+    password: process.env.POSTGIS_PASSWORD || '',
+  };
+}
+
+/**
+ * Check if we have database access
+ */
+export async function isPostgisAvailable(): Promise<boolean> {
+  try {
+    const { Pool } = await import('pg');
+    const pool = new Pool({ ...getPoolConfig(), connectionTimeoutMillis: 2000 });
+
+    try {
+      await pool.query('SELECT 1');
+      await pool.end();
+      return true;
+    } catch {
+      await pool.end();
+      return false;
+    }
+  } catch {
+    return false;
+  }
+}
+
+export function isGazetteerAvailable(file = GAZETTEER_PATH): boolean {
+  return fs.existsSync(file);
+}
+
+/**
+ * Apply the include/exclude lists on top of the polygon (or radius) test
+ */
+function isInServiceArea(suburb: { name: string; state: string }, inside: boolean, area?: ServiceArea): boolean {
+  if (!area) return inside;
+  return (inside || matchesSuburbList(suburb, area.include)) && !matchesSuburbList(suburb, area.exclude);
+}
+
+/**
+ * PostGIS provider (requires a running au_suburbs_db)
+ */
+export async function createPostgisProvider(): Promise<SuburbProvider> {
+  const { Pool } = await import('pg');
+  const pool = new Pool(getPoolConfig());
+
+  return {
+    name: 'postgis',
+
+    async findSuburbsWithinRadius({ centerLat, centerLng, radiusKm, area }) {
+      const inside = `CASE
+            WHEN $4::text IS NULL THEN ST_DWithin(s.location, c.point, $3 * 1000)
+            ELSE ST_Covers(ST_SetSRID(ST_GeomFromGeoJSON($4::text), 4326), s.location::geometry)
+          END`;
+      const query = `
+        WITH center AS (
+          SELECT ST_SetSRID(ST_MakePoint($2, $1), 4326)::geography AS point
+        )
+        SELECT
+          s.id,
+          s.name,
+          sp.postcode,
+          s.state,
+          s.latitude,
+          s.longitude,
+          ROUND((ST_Distance(s.location, c.point) / 1000)::numeric, 2) AS distance_km,
+          CASE
+            WHEN degrees(ST_Azimuth(c.point::geometry, s.location::geometry)) BETWEEN 337.5 AND 360
+              OR degrees(ST_Azimuth(c.point::geometry, s.location::geometry)) BETWEEN 0 AND 22.5 THEN 'N'
+            WHEN degrees(ST_Azimuth(c.point::geometry, s.location::geometry)) BETWEEN 22.5 AND 67.5 THEN 'NE'
+            WHEN degrees(ST_Azimuth(c.point::geometry, s.location::geometry)) BETWEEN 67.5 AND 112.5 THEN 'E'
+            WHEN degrees(ST_Azimuth(c.point::geometry, s.location::geometry)) BETWEEN 112.5 AND 157.5 THEN 'SE'
+            WHEN degrees(ST_Azimuth(c.point::geometry, s.location::geometry)) BETWEEN 157.5 AND 202.5 THEN 'S'
+            WHEN degrees(ST_Azimuth(c.point::geometry, s.location::geometry)) BETWEEN 202.5 AND 247.5 THEN 'SW'
+            WHEN degrees(ST_Azimuth(c.point::geometry, s.location::geometry)) BETWEEN 247.5 AND 292.5 THEN 'W'
+            WHEN degrees(ST_Azimuth(c.point::geometry, s.location::geometry)) BETWEEN 292.5 AND 337.5 THEN 'NW'
+          END AS direction,
+          s.population,
+          ${inside} AS inside
+        FROM suburbs s
+        CROSS JOIN center c
+        LEFT JOIN suburb_postcodes sp ON s.id = sp.suburb_id AND sp.is_primary = true
+        WHERE ${inside} OR lower(s.name) = ANY($5::text[])
+        ORDER BY distance_km ASC, s.id ASC
+      `;
+
+      // Include entries only narrow the query by name; states are matched below
+      const includeNames = (area?.include ?? []).map((entry) => entry.split(',')[0].trim().toLowerCase());
+      const result = await pool.query(query, [
+        centerLat,
+        centerLng,
+        radiusKm,
+        area?.geometry ? JSON.stringify(area.geometry) : null,
+        includeNames,
+      ]);
+
+      return result.rows
+        .filter(row => isInServiceArea(row, row.inside, area))
+        .map(row => ({
+          id: row.id,
+          name: row.name,
+          postcode: row.postcode,
+          state: row.state,
+          latitude: parseFloat(row.latitude),
+          longitude: parseFloat(row.longitude),
+          distanceKm: parseFloat(row.distance_km),
+          direction: row.direction,
+          population: row.population || null,
+        }));
+    },
+
+    async close() {
+      await pool.end();
+    },
+  };
+}
+
+/**
+ * Read every suburb from a gazetteer file, with the area it covers
+ */
+export function readGazetteer(file = GAZETTEER_PATH): Gazetteer {
+  const data: GazetteerFile = JSON.parse(zlib.gunzipSync(fs.readFileSync(file)).toString('utf8'));
+  if (data.version !== 1) {
+    throw new Error(`Unsupported gazetteer version ${data.version} in ${file}`);
+  }
+
+  return {
+    source: data.source,
+    coverage: data.coverage === undefined ? [] : data.coverage,
+    suburbs: data.rows.map((row) => Object.fromEntries(
+      data.columns.map((column, i) => [column, row[i]])
+    ) as unknown as GazetteerSuburb),
+  };
+}
+
+/**
+ * Write suburbs to a gazetteer file, sorted by id so dumps diff cleanly
+ */
+export function writeGazetteer(gazetteer: Gazetteer, file = GAZETTEER_PATH): void {
+  const { suburbs, source, coverage } = gazetteer;
+  const data: GazetteerFile = {
+    version: 1,
+    generated: new Date().toISOString(),
+    source,
+    coverage,
+    columns: GAZETTEER_COLUMNS,
+    rows: [...suburbs]
+      .sort((a, b) => a.id - b.id)
+      .map((suburb) => GAZETTEER_COLUMNS.map((column) => suburb[column])),
+  };
+
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, zlib.gzipSync(JSON.stringify(data), { level: 9 }));
+}
+
+function describeCoverage(coverage: GazetteerCoverage[]): string {
+  if (coverage.length === 0) return 'no recorded area';
+  return coverage.map(({ lat, lng, radiusKm }) => `${radiusKm}km around ${lat}, ${lng}`).join('; ');
+}
+
+/**
+ * Why the gazetteer can't answer a query completely, or undefined when it can.
+ * Unless it is a full dump, the radius circle (or every polygon vertex) must
+ * lie inside one covered circle, and include entries must name suburbs it has
+ */
+export function checkGazetteerCoverage(gazetteer: Gazetteer, query: SuburbQuery): string | undefined {
+  const { centerLat, centerLng, radiusKm, area } = query;
+  const problems: string[] = [];
+
+  if (gazetteer.coverage) {
+    const distanceKm = (circle: GazetteerCoverage, lat: number, lng: number) => geodesicDistanceMetres(circle.lat, circle.lng, lat, lng) / 1000;
+    // Rounding slack: distances are reported to 2 decimals
+    const covered = area?.geometry
+      ? gazetteer.coverage.some((circle) => polygonPositions(area.geometry!).every(([lng, lat]) => distanceKm(circle, lat, lng) <= circle.radiusKm + 0.005))
+      : gazetteer.coverage.some((circle) => distanceKm(circle, centerLat, centerLng) + radiusKm <= circle.radiusKm + 0.005);
+    if (!covered) {
+      const wanted = area?.geometry ? 'the service area polygon' : `${radiusKm}km around ${centerLat}, ${centerLng}`;
+      problems.push(`${wanted} goes beyond the suburbs it holds (${describeCoverage(gazetteer.coverage)})`);
+    }
+
+    // Include entries can name suburbs anywhere, so a partial gazetteer may not have them
+    const missing = (area?.include ?? []).filter((entry) => !gazetteer.suburbs.some((suburb) => matchesSuburbList(suburb, [entry])));
+    if (missing.length > 0) {
+      problems.push(`it has no suburb matching include ${missing.map((entry) => `"${entry}"`).join(', ')}`);
+    }
+  }
+
+  if (problems.length === 0) return undefined;
+  return `The gazetteer (built from ${gazetteer.source}) can't answer this query completely: ${problems.join('; ')}. ` +
+    'Rebuild it from the database with `npm run suburbs:gazetteer`, or use --provider=postgis.';
+}
+
+function polygonPositions(geometry: NonNullable<ServiceArea['geometry']>): number[][] {
+  return geometry.type === 'Polygon' ? geometry.coordinates.flat() : geometry.coordinates.flat(2);
+}
+
+/**
+ * Offline provider backed by the bundled gazetteer. Throws for queries
+ * outside the area the gazetteer covers.
+ */
+export function createGazetteerProvider(file = GAZETTEER_PATH): SuburbProvider {
+  let gazetteer: Gazetteer | undefined;
+
+  return {
+    name: 'gazetteer',
+
+    async findSuburbsWithinRadius(query) {
+      const { centerLat, centerLng, radiusKm, area } = query;
+      gazetteer ??= readGazetteer(file);
+      const problem = checkGazetteerCoverage(gazetteer, query);
+      if (problem) throw new Error(problem);
+      const radiusMetres = radiusKm * 1000;
+
+      return gazetteer.suburbs
+        .map((suburb) => ({
+          suburb,
+          metres: geodesicDistanceMetres(centerLat, centerLng, suburb.latitude, suburb.longitude),
+        }))
+        .filter(({ suburb, metres }) => isInServiceArea(
+          suburb,
+          area?.geometry ? isPointInServiceArea(area.geometry, suburb.latitude, suburb.longitude) : metres <= radiusMetres,
+          area
+        ))
+        .map(({ suburb, metres }) => ({
+          id: suburb.id,
+          name: suburb.name,
+          postcode: suburb.postcode,
+          state: suburb.state,
+          latitude: suburb.latitude,
+          longitude: suburb.longitude,
+          distanceKm: roundHalfAwayFromZero(metres / 1000, 2),
+          direction: compassDirection(planarAzimuthDegrees(centerLat, centerLng, suburb.latitude, suburb.longitude)) as string,
+          population: suburb.population || null,
+        }))
+        .sort((a, b) => a.distanceKm - b.distanceKm || a.id - b.id);
+    },
+
+    async close() {},
+  };
+}
+
+/**
+ * Pick a provider: an explicit name, or PostGIS when reachable and the
+ * bundled gazetteer otherwise
+ */
+export async function resolveSuburbProvider(name: SuburbProviderName | 'auto' = 'auto'): Promise<SuburbProvider> {
+  if (name === 'postgis') return createPostgisProvider();
+  if (name === 'gazetteer') return createGazetteerProvider();
+
+  if (await isPostgisAvailable()) return createPostgisProvider();
+  if (isGazetteerAvailable()) return createGazetteerProvider();
+  throw new Error(`PostGIS is not available and no gazetteer was found at ${path.relative(process.cwd(), GAZETTEER_PATH)}`);
+}
@@ -0,0 +1,161 @@
+#!/usr/bin/env tsx
+
+/**
+ * Serve Functions
+ *
+ * Offline stand-in for `netlify dev`: serves the built site from dist/ and
+ * runs the functions in netlify/functions/ (Netlify Functions 2.0 style:
+ * a default-exported Request → Response handler, routed by `config.path` or
+ * /.netlify/functions/<name>). Environment variables come from .env.
+ *
+ * Usage:
+ *   tsx scripts/serve-functions.ts [--port=8888] [--dist=dist]
+ *
+ * With LEAD_DELIVERY unset, quote requests are appended to data/leads.jsonl
+ * (a deployed function refuses to start without email or webhook delivery).
+ */
+
+import http from 'http';
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+/** Netlify passes a context with more than this; ip is all the functions here use */
+type Handler = (request: Request, context: { ip?: string }) => Promise<Response> | Response;
+
+interface LoadedFunction {
+  name: string;
+  routes: string[];
+  handler: Handler;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.xml': 'application/xml; charset=utf-8',
+  '.txt': 'text/plain; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.ico': 'image/x-icon',
+  '.ics': 'text/calendar; charset=utf-8',
+  '.woff2': 'font/woff2',
+};
+
+function getArg(name: string): string | undefined {
+  const flag = process.argv.find((arg) => arg.startsWith(`--${name}=`));
+  return flag?.slice(name.length + 3);
+}
+
+async function loadFunctions(dir: string): Promise<LoadedFunction[]> {
+  if (!existsSync(dir)) return [];
+  const files = (await fs.readdir(dir)).filter((file) => /\.(ts|mts|js|mjs)$/.test(file));
+
+  return Promise.all(files.map(async (file) => {
+    const name = file.replace(/\.[^.]+$/, '');
+    const module = await import(pathToFileURL(path.join(dir, file)).href);
+    const configured = module.config?.path;
+    return {
+      name,
+      routes: [`/.netlify/functions/${name}`, ...(configured ? [configured].flat() : [])],
+      handler: module.default as Handler,
+    };
+  }));
+}
+
+async function toRequest(req: http.IncomingMessage, origin: string): Promise<Request> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const headers = new Headers();
+  for (const [key, value] of Object.entries(req.headers)) {
+    if (value !== undefined) headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+  }
+  const hasBody = req.method !== 'GET' && req.method !== 'HEAD';
+  return new Request(new URL(req.url ?? '/', origin), {
+    method: req.method,
+    headers,
+    body: hasBody && chunks.length > 0 ? Buffer.concat(chunks) : undefined,
+  });
+}
+
+async function sendResponse(res: http.ServerResponse, response: Response): Promise<void> {
+  res.statusCode = response.status;
+  response.headers.forEach((value, key) => res.setHeader(key, value));
+  res.end(Buffer.from(await response.arrayBuffer()));
+}
+
+/**
+ * dist/ file for a URL path: the file itself, <path>/index.html or <path>.html
+ */
+async function findStaticFile(distDir: string, urlPath: string): Promise<string | undefined> {
+  const decoded = decodeURIComponent(urlPath);
+  const resolved = path.resolve(distDir, '.' + decoded);
+  if (resolved !== distDir && !resolved.startsWith(distDir + path.sep)) return undefined;
+
+  for (const candidate of [resolved, path.join(resolved, 'index.html'), `${resolved}.html`]) {
+    const stat = await fs.stat(candidate).catch(() => undefined);
+    if (stat?.isFile()) return candidate;
+  }
+  return undefined;
+}
+
+async function serveFunctions(): Promise<void> {
+  const port = Number(getArg('port') ?? process.env.PORT ?? 8888);
+  const distDir = path.resolve(getArg('dist') ?? 'dist');
+  const functions = await loadFunctions(path.resolve('netlify/functions'));
+
+  if (!existsSync(distDir)) {
+    console.warn(`⚠️  ${path.relative(process.cwd(), distDir)} not found, serving functions only. Run npm run build for the site.`);
+  }
+
+  const server = http.createServer(async (req, res) => {
+    const origin = `http://${req.headers.host ?? `localhost:${port}`}`;
+    const { pathname } = new URL(req.url ?? '/', origin);
+    try {
+      const fn = functions.find((candidate) => candidate.routes.some((route) => pathname === route || pathname === `${route}/`));
+      if (fn) {
+        const response = await fn.handler(await toRequest(req, origin), { ip: req.socket.remoteAddress });
+        console.log(`⚡ ${req.method} ${pathname} → ${fn.name} ${response.status}`);
+        await sendResponse(res, response);
+        return;
+      }
+
+      const file = await findStaticFile(distDir, pathname);
+      if (file && (req.method === 'GET' || req.method === 'HEAD')) {
+        res.setHeader('Content-Type', CONTENT_TYPES[path.extname(file).toLowerCase()] ?? 'application/octet-stream');
+        res.end(req.method === 'HEAD' ? undefined : await fs.readFile(file));
+        return;
+      }
+
+      const notFound = await findStaticFile(distDir, '/404.html');
+      res.statusCode = 404;
+      res.setHeader('Content-Type', 'text/html; charset=utf-8');
+      res.end(notFound ? await fs.readFile(notFound) : 'Not found');
+    } catch (error) {
+      console.error(`❌ ${req.method} ${pathname} failed:`, error);
+      res.statusCode = 500;
+      res.end('Internal error');
+    }
+  });
+
+  server.listen(port, () => {
+    const address = server.address();
+    const listening = typeof address === 'object' && address ? address.port : port;
+    console.log(`🚀 Functions running at http://localhost:${listening}`);
+    for (const fn of functions) console.log(`  - ${fn.name}: ${fn.routes.join(', ')}`);
+  });
+}
+
+serveFunctions().catch((error) => {
+  console.error('❌ Function server failed to start:', error);
+  process.exit(1);
+});
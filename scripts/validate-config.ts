@@ -0,0 +1,57 @@
+#!/usr/bin/env tsx
+
+/**
+ * Validate Business Configuration
+ * 
+ * Checks config/business.yaml (plus the active site profile) against the business config schema, and
+ * that pricing rates are for services in src/content/services, and fails with path-level errors
+ * (including line numbers) when it is invalid.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { BusinessConfigError, checkServiceReferences, readBusinessConfigSources } from '../src/config/business-schema';
+import { getActiveProfile, getProfilePaths, loadProfileConfig } from '../src/config/profile';
+
+const SERVICES_DIR = path.join(process.cwd(), 'src', 'content', 'services');
+
+function validateConfig(): void {
+  const profile = getActiveProfile();
+
+  console.log('🔍 Validating business configuration...\n');
+  if (profile) {
+    console.log(`   🏷️  Site profile: ${profile}\n`);
+  }
+
+  try {
+    const config = loadProfileConfig(profile);
+    if (!config) {
+      console.error('❌ Cannot build: config/business.yaml is missing');
+      process.exit(1);
+    }
+
+    // Content references are checked here rather than in the schema, which the quote function loads without src/
+    const paths = getProfilePaths(profile);
+    const serviceSlugs = fs.existsSync(SERVICES_DIR) ? fs.readdirSync(SERVICES_DIR) : [];
+    checkServiceReferences(config, readBusinessConfigSources(paths.configPath, paths.profileConfigPath), serviceSlugs);
+
+    console.log('✅ Business configuration is valid');
+    console.log(`   🏢 Business: ${config.business.name}`);
+    console.log(`   📞 Phone: ${config.business.phone}`);
+    console.log(`   📍 Location: ${config.service.main_location}, ${config.address.state}`);
+  } catch (error) {
+    if (error instanceof BusinessConfigError) {
+      console.error(`❌ ${error.issues.length} problem(s) found in ${error.file}:\n`);
+      for (const issue of error.issues) {
+        const location = `${issue.file ?? error.file}${issue.line ? `:${issue.line}` : ''}`;
+        console.error(`   ${issue.path || '(root)'} (${location}): ${issue.message}`);
+      }
+      console.error('\nFix the configuration above and run: npm run config:validate\n');
+      process.exit(1);
+    }
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+}
+
+validateConfig();
@@ -0,0 +1,106 @@
+#!/usr/bin/env tsx
+
+/**
+ * Validate Structured Data
+ *
+ * Crawls the built site in dist/, extracts every application/ld+json block
+ * and validates it against the bundled schema.org vocabulary and Google
+ * rich-result rules. Fails with a per-URL report when errors are found.
+ *
+ * Usage:
+ *   tsx scripts/validate-structured-data.ts [--dist=dist] [--lang=en-AU] [--strict] [--report=path.json]
+ */
+
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import { loadProfileConfig } from '../src/config/profile';
+import { extractJsonLd, validateJsonLd, type StructuredDataIssue } from './lib/structured-data-validator';
+import { findHtmlFiles, toUrlPath } from './lib/dist-pages';
+
+interface PageReport {
+  url: string;
+  blocks: number;
+  issues: StructuredDataIssue[];
+}
+
+function getArg(name: string): string | undefined {
+  const flag = process.argv.find((arg) => arg.startsWith(`--${name}=`));
+  return flag?.slice(name.length + 3);
+}
+
+async function validateStructuredData(): Promise<void> {
+  const distDir = path.resolve(getArg('dist') ?? 'dist');
+  const language = getArg('lang') ?? 'en-AU';
+  const strict = process.argv.includes('--strict');
+  const reportPath = getArg('report');
+
+  console.log('🔍 Validating structured data...\n');
+
+  if (!existsSync(distDir)) {
+    console.error(`❌ ${path.relative(process.cwd(), distDir) || distDir} not found. Run npm run build first.`);
+    process.exit(1);
+  }
+
+  const config = loadProfileConfig();
+  const siteOrigin = config ? new URL(config.website.url).origin : undefined;
+  const assetExists = (pathname: string) => existsSync(path.join(distDir, pathname));
+
+  const files = await findHtmlFiles(distDir);
+  const reports: PageReport[] = [];
+
+  for (const file of files) {
+    const html = await fs.readFile(file, 'utf8');
+    const blocks = extractJsonLd(html);
+    const issues: StructuredDataIssue[] = [];
+
+    for (const block of blocks) {
+      if (block.parseError) {
+        issues.push({ severity: 'error', path: `block ${block.index + 1}`, message: `Invalid JSON: ${block.parseError}` });
+        continue;
+      }
+      issues.push(...validateJsonLd(block.data, { language, siteOrigin, assetExists }));
+    }
+
+    reports.push({ url: toUrlPath(distDir, file), blocks: blocks.length, issues });
+  }
+
+  // Per-URL report
+  const withIssues = reports.filter((report) => report.issues.length > 0);
+  for (const report of withIssues) {
+    console.log(`📄 ${report.url}`);
+    for (const issue of report.issues) {
+      const icon = issue.severity === 'error' ? '❌' : '⚠️ ';
+      console.log(`   ${icon} ${issue.path}: ${issue.message}`);
+    }
+    console.log('');
+  }
+
+  const errorCount = reports.reduce((sum, r) => sum + r.issues.filter((i) => i.severity === 'error').length, 0);
+  const warningCount = reports.reduce((sum, r) => sum + r.issues.filter((i) => i.severity === 'warning').length, 0);
+  const blockCount = reports.reduce((sum, r) => sum + r.blocks, 0);
+
+  console.log('📊 Summary:');
+  console.log(`  - Pages scanned: ${reports.length}`);
+  console.log(`  - JSON-LD blocks: ${blockCount}`);
+  console.log(`  - Pages with issues: ${withIssues.length}`);
+  console.log(`  - Errors: ${errorCount}`);
+  console.log(`  - Warnings: ${warningCount}`);
+
+  if (reportPath) {
+    await fs.writeFile(reportPath, JSON.stringify({ generated: new Date().toISOString(), language, pages: reports }, null, 2));
+    console.log(`\n💾 Report saved to: ${reportPath}`);
+  }
+
+  if (errorCount > 0 || (strict && warningCount > 0)) {
+    console.error('\n❌ Structured data validation failed');
+    process.exit(1);
+  }
+
+  console.log('\n✅ Structured data is valid');
+}
+
+validateStructuredData().catch((error) => {
+  console.error('❌ Structured data validation failed:', error);
+  process.exit(1);
+});
@@ -8,10 +8,11 @@
  */
 
 import fs from 'fs/promises';
-import path from 'path';
-import * as yaml from 'js-yaml';
 import { execSync } from 'child_process';
 import * as dotenv from 'dotenv';
+import { getActiveProfile, getProfilePaths, loadProfileConfig } from '../src/config/profile';
+import type { BusinessConfig } from '../src/config/business-schema';
+import { calculateConfigHash, getSuburbQuery, isGazetteerAvailable, isPostgisAvailable } from './lib/suburb-providers';
 
 // Load environment variables
 dotenv.config();
@@ -25,65 +26,28 @@ interface SuburbsMetadata {
   configHash?: string;
 }
 
-/**
- * Calculate a simple hash of relevant config values
- */
-function calculateConfigHash(config: any): string {
-  const relevant = {
-    lat: config.service?.center_lat || config.address?.coordinates?.lat,
-    lng: config.service?.center_lng || config.address?.coordinates?.lng,
-    radius: config.service?.radius_km || config.seo?.location_based?.radius_km || config.locationPages?.serviceRadiusKm,
-  };
-  return JSON.stringify(relevant);
-}
-
-/**
- * Check if we have database access
- */
-async function hasDatabase(): Promise<boolean> {
-  try {
-    const { Pool } = await import('pg');
-    const pool = new Pool({
-      host: process.env.POSTGIS_HOST || 'localhost',
-      port: parseInt(process.env.POSTGIS_PORT || '5432'),
-      database: process.env.POSTGIS_DATABASE || 'au_suburbs_db',
-      user: process.env.POSTGIS_USER || 'suburbs_user',
-      password: process.env.POSTGIS_PASSWORD || '',
-      connectionTimeoutMillis: 2000,
-    });
-    
-    try {
-      await pool.query('SELECT 1');
-      await pool.end();
-      return true;
-    } catch {
-      await pool.end();
-      return false;
-    }
-  } catch {
-    return false;
-  }
-}
-
 /**
  * Main validation function
  */
 async function validateSuburbs(): Promise<void> {
+  const profile = getActiveProfile();
+  const { suburbsPath } = getProfilePaths(profile);
+
   console.log('🔍 Validating suburbs data...\n');
-  
-  const configPath = path.join(process.cwd(), 'config', 'business.yaml');
-  const suburbsPath = path.join(process.cwd(), 'src', 'data', 'suburbs.json');
+  if (profile) {
+    console.log(`   🏷️  Site profile: ${profile}\n`);
+  }
   
   // Load business config
-  const configContent = await fs.readFile(configPath, 'utf8');
-  const config = yaml.load(configContent) as any;
+  const config: BusinessConfig | null = loadProfileConfig(profile);
+  if (!config) {
+    console.error('❌ Cannot build: config/business.yaml is missing');
+    process.exit(1);
+  }
   
-  // Calculate expected values
-  const expectedLat = config.service?.center_lat || config.address?.coordinates?.lat || -34.8517;
-  const expectedLng = config.service?.center_lng || config.address?.coordinates?.lng || 138.5829;
-  const expectedRadius = config.service?.radius_km || 
-                         config.seo?.location_based?.radius_km || 
-                         config.locationPages?.serviceRadiusKm || 33;
+  // Calculate expected values (the same query export-suburbs runs)
+  const { centerLat: expectedLat, centerLng: expectedLng, radiusKm: expectedRadius } = getSuburbQuery(config);
+  const expectedState = config.address.state;
   const configHash = calculateConfigHash(config);
   
   // Check if suburbs.json exists
@@ -128,15 +92,16 @@ async function validateSuburbs(): Promise<void> {
   // Needs regeneration
   console.log(`⚠️  Suburbs data needs regeneration: ${reason}\n`);
   
-  // Check if we have database access
-  const dbAvailable = await hasDatabase();
+  // Regenerate from PostGIS, or offline from the bundled gazetteer
+  const dbAvailable = await isPostgisAvailable();
+  const canRegenerate = dbAvailable || isGazetteerAvailable();
   
-  if (dbAvailable) {
-    console.log('🔄 Regenerating suburbs data...\n');
+  if (canRegenerate) {
+    console.log(`🔄 Regenerating suburbs data from ${dbAvailable ? 'PostGIS' : 'the bundled gazetteer'}...\n`);
     
     try {
       // Run export-suburbs.ts
-      execSync('npx tsx scripts/export-suburbs.ts', { 
+      execSync(`npx tsx scripts/export-suburbs.ts --provider=${dbAvailable ? 'postgis' : 'gazetteer'}${profile ? ` --profile=${profile}` : ''}`, { 
         stdio: 'inherit',
         cwd: process.cwd()
       });
@@ -155,22 +120,23 @@ async function validateSuburbs(): Promise<void> {
       process.exit(1);
     }
   } else {
-    // No database access - check if we can continue
+    // No database or gazetteer - check if we can continue
     try {
       await fs.access(suburbsPath);
-      console.warn('⚠️  Database not available, using existing suburbs data');
+      console.warn('⚠️  Database and gazetteer not available, using existing suburbs data');
       console.warn('   Note: Data may not match current configuration');
       console.warn(`   Expected: ${expectedRadius}km radius from ${expectedLat}, ${expectedLng}`);
       console.warn('\n   To regenerate manually when database is available:');
-      console.warn('   npm run suburbs:generate\n');
+      console.warn(`   ${profile ? `SITE_PROFILE=${profile} ` : ''}npm run suburbs:generate\n`);
       // Don't fail the build, just warn
     } catch {
-      // No suburbs.json and no database - can't continue
-      console.error('❌ Cannot build: suburbs.json is missing and database is not available');
+      // No suburbs.json, database or gazetteer - can't continue
+      console.error('❌ Cannot build: suburbs.json is missing and neither the database nor the gazetteer is available');
       console.error('\nTo fix this issue:');
       console.error('1. Ensure PostGIS database is running locally, OR');
-      console.error('2. Copy suburbs.json from another site and adjust if needed, OR');
-      console.error('3. Run: npm run suburbs:generate (when database is available)\n');
+      console.error('2. Restore scripts/data/au-suburbs.json.gz (npm run suburbs:gazetteer with the database), OR');
+      console.error('3. Copy suburbs.json from another site and adjust if needed, OR');
+      console.error('4. Run: npm run suburbs:generate (when database is available)\n');
       process.exit(1);
     }
   }
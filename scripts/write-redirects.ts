@@ -0,0 +1,46 @@
+#!/usr/bin/env tsx
+
+/**
+ * Write Location Redirects
+ *
+ * Writes the active site profile's location page 301s
+ * (location-redirects.json next to its suburbs.json, kept by
+ * npm run suburbs:generate) into the managed block of dist/_redirects, the
+ * build's copy of public/_redirects. Each profile's deploy ships only its own
+ * rules.
+ *
+ * Usage:
+ *   tsx scripts/write-redirects.ts [--dist=dist] [--profile=<name>]
+ */
+
+import { existsSync } from 'fs';
+import path from 'path';
+import { getActiveProfile, getProfilePaths } from '../src/config/profile';
+import { getRedirectRulesPath, readRedirectRules, writeManagedRedirects } from './lib/redirects';
+
+function getArg(name: string): string | undefined {
+  const flag = process.argv.find((arg) => arg.startsWith(`--${name}=`));
+  return flag?.slice(name.length + 3);
+}
+
+function writeRedirects(): void {
+  const distDir = path.resolve(getArg('dist') ?? 'dist');
+  const profile = getActiveProfile();
+  const rulesPath = getRedirectRulesPath(getProfilePaths(profile).suburbsPath);
+
+  if (!existsSync(distDir)) {
+    console.error(`❌ ${path.relative(process.cwd(), distDir) || distDir} not found. Run npm run build first.`);
+    process.exit(1);
+  }
+
+  const rules = readRedirectRules(rulesPath);
+  writeManagedRedirects(rules, path.join(distDir, '_redirects'));
+  console.log(`↪️  ${rules.length} location redirect(s)${profile ? ` for ${profile}` : ''} written to ${path.relative(process.cwd(), path.join(distDir, '_redirects'))}`);
+}
+
+try {
+  writeRedirects();
+} catch (error) {
+  console.error('❌ Writing redirects failed:', error);
+  process.exit(1);
+}
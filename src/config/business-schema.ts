@@ -0,0 +1,618 @@
+/**
+ * Business Configuration Schema
+ * Validates config/business.yaml and reports problems with the YAML path
+ * and line number, so a typo fails the build instead of shipping defaults
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import yaml from 'js-yaml';
+import { z } from 'astro/zod';
+import { parseHoursString } from '../utils/business-hours';
+import { readServiceAreaFile, serviceAreaGeometrySchema } from '../utils/service-area';
+
+const AU_STATES = ['ACT', 'NSW', 'NT', 'QLD', 'SA', 'TAS', 'VIC', 'WA'] as const;
+
+// Optional URL fields are left as "" in business.yaml when not in use
+const optionalUrl = z.union([z.literal(''), z.string().url()]).optional();
+
+// "Name" or "Name, STATE" (the state disambiguates suburbs sharing a name)
+const suburbEntry = z.string().regex(
+  new RegExp(`^[^,]+(,\\s*(${AU_STATES.join('|')}))?$`),
+  `Expected "Suburb" or "Suburb, STATE" with STATE one of ${AU_STATES.join(', ')}`
+);
+
+const serviceAreaPolygon = z.union([
+  serviceAreaGeometrySchema,
+  z.string().regex(/\.(geo)?json$/, 'Expected a path to a .geojson file or an inline Polygon/MultiPolygon').superRefine((file, ctx) => {
+    try {
+      readServiceAreaFile(file);
+    } catch (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message });
+    }
+  }),
+]);
+
+const jobHistoryFile = z.string().regex(/\.csv$/, 'Expected a path to a .csv file').refine(
+  (file) => fs.existsSync(path.resolve(process.cwd(), file)),
+  (file) => ({ message: `File not found: ${file}` })
+);
+
+// Weighted ranking deciding which suburbs get pages, index mentions or nothing
+const pageSelection = z.object({
+  weights: z.object({
+    distance: z.number().nonnegative().default(1),
+    population: z.number().nonnegative().default(0),
+    jobs: z.number().nonnegative().default(0),
+  }).strict().default({}),
+  job_history: jobHistoryFile.optional(),
+  min_page_score: z.number().min(0).max(1).default(0),
+  max_mentions: z.number().int().nonnegative().optional(),
+  priority: z.array(suburbEntry).default([]),
+  mention_only: z.array(suburbEntry).default([]),
+  exclude: z.array(suburbEntry).default([]),
+}).strict().refine(
+  (selection) => selection.weights.jobs === 0 || selection.job_history !== undefined,
+  { message: 'weights.jobs needs a job_history CSV', path: ['job_history'] }
+);
+
+const hoursString = z.string().superRefine((value, ctx) => {
+  try {
+    parseHoursString(value);
+  } catch (error) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `${(error as Error).message}. Expected "Closed", "24 hours" or ranges like "7:00 AM - 12:00 PM, 1:00 PM - 5:00 PM"`,
+    });
+  }
+});
+
+// Unquoted YAML dates are loaded as Date objects
+const isoDate = z.preprocess(
+  (value) => value instanceof Date ? value.toISOString().slice(0, 10) : value,
+  z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date like 2025-12-25')
+);
+
+// A single date, or a from/to range of dates
+function checkDateRange(range: { date?: string; from?: string; to?: string }, ctx: z.RefinementCtx) {
+  const isRange = range.from !== undefined || range.to !== undefined;
+  if (range.date && isRange) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Use either date or from/to, not both', path: ['date'] });
+  } else if (!range.date && !(range.from && range.to)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Expected a date, or both from and to', path: ['from'] });
+  } else if (range.from && range.to && range.from > range.to) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'from must not be after to', path: ['to'] });
+  }
+}
+
+const hoursException = z.object({
+  name: z.string().optional(),
+  date: isoDate.optional(),
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+  hours: hoursString.default('Closed'),
+}).strict().superRefine(checkDateRange);
+
+// Booking requests (src/utils/booking.ts): arrival windows, notice and days taken off bookings
+const time24 = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected a 24-hour time like "07:00"');
+
+const bookingSchema = z.object({
+  // Earliest booking is this many days from today
+  min_notice_days: z.number().int().min(0).default(2),
+  max_days_ahead: z.number().int().positive().default(60),
+  // Preferred date/time choices a visitor can give
+  max_preferences: z.number().int().min(1).max(5).default(3),
+  windows: z.array(z.object({
+    id: z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Expected a lowercase id such as "morning"'),
+    label: z.string().min(1),
+    from: time24,
+    to: time24,
+  }).strict().refine((window) => window.from < window.to, { message: 'from must be before to', path: ['to'] }))
+    .min(1)
+    .superRefine((windows, ctx) => {
+      const seen = new Set<string>();
+      windows.forEach((window, i) => {
+        if (seen.has(window.id)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate window id "${window.id}"`, path: [i, 'id'] });
+        }
+        seen.add(window.id);
+      });
+    })
+    .default([
+      { id: 'morning', label: 'Morning', from: '07:00', to: '12:00' },
+      { id: 'afternoon', label: 'Afternoon', from: '12:00', to: '17:00' },
+    ]),
+  // Days bookings aren't taken although we're open (closures go in hours.exceptions)
+  blackout_dates: z.array(z.object({
+    name: z.string().optional(),
+    date: isoDate.optional(),
+    from: isoDate.optional(),
+    to: isoDate.optional(),
+  }).strict().superRefine(checkDateRange)).default([]),
+}).strict().refine((booking) => booking.min_notice_days <= booking.max_days_ahead, {
+  message: 'min_notice_days must not be greater than max_days_ahead',
+  path: ['min_notice_days'],
+});
+
+// Instant price estimator and the PriceSpecification ranges in Service schema (src/utils/pricing.ts)
+const price = z.number().nonnegative();
+const roofRates = z.object({ tile: price, metal: price }).strict();
+const multiplierOption = z.object({
+  label: z.string().min(1),
+  multiplier: z.number().positive(),
+}).strict();
+
+const pricingSchema = z.object({
+  currency: z.string().regex(/^[A-Z]{3}$/, 'Expected a three-letter currency code such as "AUD"').default('AUD'),
+  minimum_charge: price.default(0),
+  round_to: z.number().positive().default(10),
+  // Estimates are shown as a range this far either side of the calculated price
+  range_percent: z.number().min(0).max(100).default(15),
+  roof_area: z.object({
+    min: z.number().positive(),
+    max: z.number().positive(),
+    default: z.number().positive(),
+    // Roof sizes the structured data price range covers
+    typical_min: z.number().positive(),
+    typical_max: z.number().positive(),
+  }).strict().superRefine((area, ctx) => {
+    const inRange = (key: 'default' | 'typical_min' | 'typical_max') => {
+      if (area[key] < area.min || area[key] > area.max) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${key} must be between min and max`, path: [key] });
+      }
+    };
+    inRange('default');
+    inRange('typical_min');
+    inRange('typical_max');
+    if (area.typical_min > area.typical_max) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'typical_min must not be greater than typical_max', path: ['typical_min'] });
+    }
+  }),
+  storeys: z.array(multiplierOption).min(1),
+  pitch: z.array(multiplierOption).min(1),
+  // Keyed by service slug (src/content/services/<slug>, checked at build time by checkServiceReferences)
+  services: z.record(z.object({
+    base: price,
+    per_m2: roofRates.optional(),
+    per_panel: price.optional(),
+    // Add-on ids offered with the service (default: all)
+    add_ons: z.array(z.string()).optional(),
+  }).strict()),
+  add_ons: z.array(z.object({
+    id: z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Expected a lowercase id such as "gutters"'),
+    label: z.string().min(1),
+    price: price.optional(),
+    per_m2: z.union([price, roofRates]).optional(),
+    per_panel: price.optional(),
+    // Only offered for these roof types (default: all)
+    roof_types: z.array(z.enum(['tile', 'metal'])).optional(),
+  }).strict().refine(
+    (addOn) => addOn.price !== undefined || addOn.per_m2 !== undefined || addOn.per_panel !== undefined,
+    { message: 'An add-on needs price, per_m2 or per_panel' }
+  )).superRefine((addOns, ctx) => {
+    const seen = new Set<string>();
+    addOns.forEach((addOn, i) => {
+      if (seen.has(addOn.id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate add-on id "${addOn.id}"`, path: [i, 'id'] });
+      }
+      seen.add(addOn.id);
+    });
+  }).default([]),
+}).strict().superRefine((pricing, ctx) => {
+  const addOnIds = new Set(pricing.add_ons.map((addOn) => addOn.id));
+  for (const [slug, rates] of Object.entries(pricing.services)) {
+    rates.add_ons?.forEach((id, i) => {
+      if (!addOnIds.has(id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `No add-on "${id}" in pricing.add_ons`, path: ['services', slug, 'add_ons', i] });
+      }
+    });
+  }
+});
+
+const timezone = z.string().refine((value) => {
+  try {
+    new Intl.DateTimeFormat('en-AU', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}, 'Expected an IANA timezone such as "Australia/Brisbane"');
+
+const hexColor = z.string().regex(
+  /^[0-9A-Fa-f]{6}$/,
+  'Expected a 6 digit hex colour without the # prefix (quote values that start with a digit)'
+);
+
+const phoneNumber = z.string().regex(/^[\d\s()+-]{8,}$/, 'Expected a phone number such as "(07) 5230 7381"');
+
+const addressSchema = z.object({
+  street: z.string().min(1),
+  city: z.string().min(1),
+  state: z.enum(AU_STATES),
+  postcode: z.string().regex(/^\d{4}$/, 'Expected a quoted 4 digit postcode such as "4217"'),
+  country: z.string().min(1),
+}).strict();
+
+const hoursSchema = z.object({
+  monday: hoursString,
+  tuesday: hoursString,
+  wednesday: hoursString,
+  thursday: hoursString,
+  friday: hoursString,
+  saturday: hoursString,
+  sunday: hoursString,
+  timezone: timezone.default('Australia/Brisbane'),
+  // Public holidays, seasonal shutdowns and one-off changes
+  exceptions: z.array(hoursException).default([]),
+}).strict();
+
+const branchSchema = z.object({
+  id: z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Expected a lowercase id such as "tweed-heads"'),
+  name: z.string().min(1),
+  phone: phoneNumber,
+  email: z.string().email().optional(),
+  address: addressSchema,
+  coordinates: z.object({
+    lat: z.number().min(-90).max(90),
+    lng: z.number().min(-180).max(180),
+  }).strict(),
+  // Defaults to the top-level hours
+  hours: hoursSchema.optional(),
+}).strict();
+
+export const businessConfigSchema = z.object({
+  business: z.object({
+    name: z.string().min(1),
+    logo: z.string().optional(),
+    tagline: z.string().min(1),
+    phone: phoneNumber,
+    email: z.string().email(),
+    owner_name: z.string().optional(),
+    broad_region: z.string().optional(),
+    form_location: z.string().optional(),
+  }).strict(),
+
+  address: addressSchema,
+
+  service: z.object({
+    main_category: z.string().min(1),
+    main_location: z.string().min(1),
+    radius_km: z.number().positive(),
+    max_location_pages: z.number().int().positive(),
+    // Cap on /services/[slug]/[location] pages across all services (0 disables them)
+    max_service_location_pages: z.number().int().nonnegative().default(200),
+    center_lat: z.number().min(-90).max(90).optional(),
+    center_lng: z.number().min(-180).max(180).optional(),
+    // Polygon replaces radius_km for suburb selection; include/exclude apply either way
+    area: z.object({
+      polygon: serviceAreaPolygon.optional(),
+      include: z.array(suburbEntry).default([]),
+      exclude: z.array(suburbEntry).default([]),
+    }).strict().optional(),
+    page_selection: pageSelection.optional(),
+  }).strict().refine(
+    (service) => (service.center_lat === undefined) === (service.center_lng === undefined),
+    { message: 'center_lat and center_lng must be set together', path: ['center_lat'] }
+  ),
+
+  colors: z.object({
+    primary: hexColor,
+    secondary: hexColor,
+    accent: hexColor,
+    cta: hexColor,
+  }).strict(),
+
+  hours: hoursSchema,
+
+  // Depots crews run out of; each suburb is served by its nearest branch
+  branches: z.array(branchSchema).superRefine((branches, ctx) => {
+    const seen = new Set<string>();
+    branches.forEach((branch, i) => {
+      if (seen.has(branch.id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate branch id "${branch.id}"`, path: [i, 'id'] });
+      }
+      seen.add(branch.id);
+    });
+  }).default([]),
+
+  social: z.object({
+    facebook: optionalUrl,
+    instagram: optionalUrl,
+    linkedin: optionalUrl,
+    youtube: optionalUrl,
+  }).strict().default({}),
+
+  website: z.object({
+    url: z.string().url(),
+    google_maps_url: optionalUrl,
+    google_reviews_url: optionalUrl,
+  }).strict(),
+
+  google_maps: z.object({
+    embed: z.string().optional(),
+  }).strict().default({}),
+
+  footer: z.object({
+    featured_suburbs: z.array(z.string().min(1)).optional(),
+    suburb_selection_mode: z.enum(['best_match', 'all_variations']).default('best_match'),
+    auto_supplement: z.boolean().default(true),
+    suburb_limit: z.number().int().positive().optional(),
+  }).strict().default({}),
+
+  pricing: pricingSchema.optional(),
+
+  booking: bookingSchema.default({}),
+
+  // Quote form protection: spam score threshold, time-to-submit, rate limit and content heuristics
+  forms: z.object({
+    spam: z.object({
+      threshold: z.number().min(0).max(1).default(0.7),
+      min_fill_seconds: z.number().nonnegative().default(3),
+      token_max_age_hours: z.number().positive().default(24),
+      max_links: z.number().int().nonnegative().default(0),
+      rate_limit: z.object({
+        max_requests: z.number().int().positive().default(5),
+        window_minutes: z.number().positive().default(10),
+      }).strict().default({}),
+      blocked_email_domains: z.array(z.string().regex(/^[a-z0-9.-]+\.[a-z]{2,}$/i, 'Expected a domain such as "example.com"')).default([]),
+      blocked_phrases: z.array(z.string().min(1)).default([]),
+    }).strict().default({}),
+  }).strict().default({}),
+
+  // Content collection entry ids, so a site profile can swap in its own page YAML
+  content: z.object({
+    homepage: z.string().default('homepage'),
+    about: z.string().default('about'),
+    contact: z.string().default('contact'),
+    location_sections: z.string().default('locations'),
+    service_sections: z.string().default('services-default'),
+    service_location_sections: z.string().default('service-locations'),
+  }).strict().default({}),
+}).strict();
+
+export type BusinessConfig = z.infer<typeof businessConfigSchema>;
+
+/** Location pages when neither business.yaml nor MAX_LOCATION_PAGES sets a cap */
+export const DEFAULT_MAX_LOCATION_PAGES = 100;
+
+/**
+ * How many suburbs get a location page. The site and the suburb export both
+ * read the cap from here so they can't disagree
+ */
+export function getMaxLocationPages(config: BusinessConfig | null, env: Record<string, string | undefined> = process.env): number {
+  return config?.service.max_location_pages || Number(env.MAX_LOCATION_PAGES) || DEFAULT_MAX_LOCATION_PAGES;
+}
+
+export interface BusinessConfigIssue {
+  path: string;
+  message: string;
+  line?: number;
+  file?: string;
+}
+
+/**
+ * Thrown when business.yaml cannot be parsed or does not match the schema
+ */
+export class BusinessConfigError extends Error {
+  constructor(
+    public readonly file: string,
+    public readonly issues: BusinessConfigIssue[]
+  ) {
+    super(
+      `Invalid business configuration in ${file}:\n` +
+      issues.map((issue) => `  - ${formatIssue(file, issue)}`).join('\n')
+    );
+    this.name = 'BusinessConfigError';
+  }
+}
+
+function formatIssue(file: string, issue: BusinessConfigIssue): string {
+  const source = issue.file ?? file;
+  const location = issue.line ? `${source}:${issue.line}` : source;
+  return `${location} ${issue.path || '(root)'}: ${issue.message}`;
+}
+
+/**
+ * Find the 1-based line of a key path in a block-style YAML document,
+ * along with how many path segments were matched.
+ */
+function findYamlPath(source: string, keys: (string | number)[]): { line?: number; depth: number } {
+  const lines = source.split('\n');
+  let line: number | undefined;
+  let depth = 0;
+  let start = 0;
+  let parentIndent = -1;
+  // Set when the current node is a sequence item whose first key shares the "- " line
+  let inlineItem = false;
+
+  for (const key of keys) {
+    if (typeof key === 'number') {
+      // Count block sequence items below the current key; flow sequences stay on the key line
+      let seen = -1;
+      for (let i = start; i < lines.length; i++) {
+        const match = lines[i].match(/^(\s*)-\s/);
+        if (!match) {
+          const indent = lines[i].search(/\S/);
+          if (indent !== -1 && indent <= parentIndent && !lines[i].trimStart().startsWith('#')) break;
+          continue;
+        }
+        if (match[1].length <= parentIndent) break;
+        if (++seen === key) {
+          line = i + 1;
+          start = i;
+          parentIndent = match[1].length;
+          inlineItem = true;
+          break;
+        }
+      }
+      if (seen !== key) return { line, depth };
+      depth++;
+      continue;
+    }
+
+    const keyPattern = new RegExp(`^(\\s*(?:-\\s+)?)${key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*:`);
+    let found = false;
+    // Only direct children match: the first line below the parent sets their indent
+    let childIndent: number | undefined;
+    for (let i = start; i < lines.length; i++) {
+      const text = lines[i];
+      const indent = text.search(/\S/);
+      if (indent === -1 || text.trimStart().startsWith('#')) continue;
+      if (indent <= parentIndent && !(inlineItem && i === start)) break;
+      const keyIndent = text.match(/^\s*(?:-\s+)?/)![0].length;
+      childIndent ??= keyIndent;
+      if (keyIndent !== childIndent) continue;
+      const match = text.match(keyPattern);
+      if (match && match[1].length > parentIndent) {
+        line = i + 1;
+        start = i + 1;
+        parentIndent = match[1].length;
+        inlineItem = false;
+        found = true;
+        break;
+      }
+    }
+    if (!found) return { line, depth };
+    depth++;
+  }
+
+  return { line, depth };
+}
+
+/**
+ * Find the 1-based line of a key path in a block-style YAML document.
+ * Falls back to the deepest parent that could be found.
+ */
+export function locateYamlPath(source: string, keys: (string | number)[]): number | undefined {
+  return findYamlPath(source, keys).line;
+}
+
+export interface BusinessConfigSource {
+  file: string;
+  source: string;
+}
+
+function readYaml({ file, source }: BusinessConfigSource): Record<string, unknown> {
+  try {
+    return (yaml.load(source) ?? {}) as Record<string, unknown>;
+  } catch (error) {
+    if (error instanceof yaml.YAMLException) {
+      throw new BusinessConfigError(file, [{
+        path: '',
+        message: error.reason,
+        line: error.mark ? error.mark.line + 1 : undefined,
+      }]);
+    }
+    throw error;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Deep merge an overlay config onto a base config. Arrays are replaced, not concatenated.
+ */
+export function mergeConfig(
+  base: Record<string, unknown>,
+  overlay: Record<string, unknown>
+): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(overlay)) {
+    merged[key] = isPlainObject(value) && isPlainObject(base[key])
+      ? mergeConfig(base[key] as Record<string, unknown>, value)
+      : value;
+  }
+  return merged;
+}
+
+/**
+ * Validate one or more layered YAML sources (later sources win).
+ * Issues are attributed to the last source that declares the offending key.
+ */
+export function parseLayeredBusinessConfig(sources: BusinessConfigSource[]): BusinessConfig {
+  const raw = sources.map(readYaml).reduce((merged, layer) => mergeConfig(merged, layer), {});
+
+  const result = businessConfigSchema.safeParse(raw);
+  if (result.success) {
+    return result.data;
+  }
+
+  const primary = sources[sources.length - 1];
+  const issues = result.error.issues.map((issue) => {
+    // Point unknown keys at the offending key rather than its parent section
+    const keys = issue.code === 'unrecognized_keys'
+      ? [...issue.path, issue.keys[0]]
+      : issue.path;
+    return locateIssue(sources, keys, issue.message);
+  });
+
+  throw new BusinessConfigError(primary.file, issues);
+}
+
+/**
+ * An issue at a key path, attributed to the last source that declares it
+ */
+function locateIssue(sources: BusinessConfigSource[], keys: (string | number)[], message: string): BusinessConfigIssue {
+  let best: { file: string; line?: number; depth: number } = { file: sources[sources.length - 1].file, depth: 0 };
+  for (const candidate of [...sources].reverse()) {
+    const match = findYamlPath(candidate.source, keys);
+    if (match.depth > best.depth) {
+      best = { file: candidate.file, ...match };
+    }
+  }
+  return { path: keys.join('.'), message, line: best.line, file: best.file };
+}
+
+/**
+ * Check references to site content the schema can't see: pricing rates must
+ * be for services in src/content/services. Run at build time only, since the
+ * quote function loads business.yaml without the content collections.
+ */
+export function checkServiceReferences(
+  config: BusinessConfig,
+  sources: BusinessConfigSource[],
+  serviceSlugs: string[]
+): void {
+  const issues = Object.keys(config.pricing?.services ?? {})
+    .filter((slug) => !serviceSlugs.includes(slug))
+    .map((slug) => locateIssue(sources, ['pricing', 'services', slug], `No service "${slug}" in src/content/services`));
+  if (issues.length > 0) {
+    throw new BusinessConfigError(sources[sources.length - 1].file, issues);
+  }
+}
+
+/**
+ * The YAML sources loadBusinessConfigFile reads, for reporting build-time checks
+ */
+export function readBusinessConfigSources(
+  configPath = path.join(process.cwd(), 'config', 'business.yaml'),
+  overlayPath?: string
+): BusinessConfigSource[] {
+  return [configPath, ...(overlayPath ? [overlayPath] : [])].map((file) => ({
+    file: path.relative(process.cwd(), file),
+    source: fs.readFileSync(file, 'utf8'),
+  }));
+}
+
+/**
+ * Parse and validate business.yaml source text
+ */
+export function parseBusinessConfig(source: string, file = 'config/business.yaml'): BusinessConfig {
+  return parseLayeredBusinessConfig([{ file, source }]);
+}
+
+/**
+ * Load and validate config/business.yaml, optionally layering a site profile on top.
+ * Returns null when the base file does not exist so environment variables can be used instead.
+ */
+export function loadBusinessConfigFile(
+  configPath = path.join(process.cwd(), 'config', 'business.yaml'),
+  overlayPath?: string
+): BusinessConfig | null {
+  if (!fs.existsSync(configPath)) {
+    return null;
+  }
+  return parseLayeredBusinessConfig(readBusinessConfigSources(configPath, overlayPath));
+}
@@ -0,0 +1,153 @@
+/**
+ * Site Profiles
+ * Lets one checkout build several brands. A profile is a YAML file in
+ * config/sites/<name>.yaml layered over config/business.yaml, selected with
+ * the SITE_PROFILE environment variable or a --profile=<name> CLI flag.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { loadBusinessConfigFile, type BusinessConfig } from './business-schema';
+
+export const SITE_PROFILE_ENV = 'SITE_PROFILE';
+
+export interface ProfilePaths {
+  /** Shared base configuration */
+  configPath: string;
+  /** Profile overlay, when a profile is active */
+  profileConfigPath?: string;
+  /** Where this profile's suburbs data is generated, and read by the build and the quote function */
+  suburbsPath: string;
+}
+
+/**
+ * Resolve the active profile name from --profile=<name> / --profile <name>,
+ * then the SITE_PROFILE environment variable. Returns null for the default site.
+ */
+export function getActiveProfile(
+  argv: string[] = process.argv,
+  env: NodeJS.ProcessEnv = process.env
+): string | null {
+  let profile: string | undefined;
+
+  const flagIndex = argv.findIndex((arg) => arg === '--profile' || arg.startsWith('--profile='));
+  if (flagIndex !== -1) {
+    const flag = argv[flagIndex];
+    profile = flag.includes('=') ? flag.slice(flag.indexOf('=') + 1) : argv[flagIndex + 1];
+  } else {
+    profile = env[SITE_PROFILE_ENV];
+  }
+
+  if (!profile || profile === 'default') {
+    return null;
+  }
+  if (!/^[a-z0-9][a-z0-9-]*$/.test(profile)) {
+    throw new Error(`Invalid site profile name "${profile}" (use lowercase letters, numbers and dashes)`);
+  }
+  return profile;
+}
+
+/**
+ * Resolve config and data file locations for a profile
+ */
+export function getProfilePaths(profile: string | null = getActiveProfile(), root = process.cwd()): ProfilePaths {
+  const configPath = path.join(root, 'config', 'business.yaml');
+
+  if (!profile) {
+    return { configPath, suburbsPath: path.join(root, 'src', 'data', 'suburbs.json') };
+  }
+
+  return {
+    configPath,
+    profileConfigPath: path.join(root, 'config', 'sites', `${profile}.yaml`),
+    suburbsPath: path.join(root, 'src', 'data', 'sites', profile, 'suburbs.json'),
+  };
+}
+
+/**
+ * Load business.yaml with the active profile layered on top
+ */
+export function loadProfileConfig(profile: string | null = getActiveProfile()): BusinessConfig | null {
+  const paths = getProfilePaths(profile);
+
+  if (paths.profileConfigPath && !fs.existsSync(paths.profileConfigPath)) {
+    const available = listProfiles();
+    throw new Error(
+      `Unknown site profile "${profile}": ${path.relative(process.cwd(), paths.profileConfigPath)} not found` +
+      (available.length ? ` (available: ${available.join(', ')})` : '')
+    );
+  }
+
+  return loadBusinessConfigFile(paths.configPath, paths.profileConfigPath);
+}
+
+/**
+ * The active profile's suburbs data, for code the build doesn't bundle
+ * (the build itself resolves src/data/suburbs.json imports to the profile's file)
+ */
+export function readProfileSuburbs<T>(profile: string | null = getActiveProfile()): T {
+  return JSON.parse(fs.readFileSync(getProfilePaths(profile).suburbsPath, 'utf8'));
+}
+
+/**
+ * List profile names declared in config/sites/
+ */
+export function listProfiles(root = process.cwd()): string[] {
+  const sitesDir = path.join(root, 'config', 'sites');
+  if (!fs.existsSync(sitesDir)) {
+    return [];
+  }
+  return fs.readdirSync(sitesDir)
+    .filter((file) => file.endsWith('.yaml'))
+    .map((file) => file.replace(/\.yaml$/, ''))
+    .sort();
+}
+
+/**
+ * Template variables that a profile overrides. The shared package derives its
+ * variables from config/business.yaml only, so pages built for another profile
+ * layer these on top. Returns an empty object for the default site.
+ */
+export function getProfileTemplateVariables(profile: string | null = getActiveProfile()): Record<string, string | number> {
+  if (!profile) {
+    return {};
+  }
+
+  const config = loadProfileConfig(profile);
+  if (!config) {
+    return {};
+  }
+
+  const { business, address, service, website, hours, social } = config;
+  return {
+    businessName: business.name,
+    tagline: business.tagline,
+    phone: business.phone,
+    formattedPhone: business.phone.replace(/\D/g, ''),
+    email: business.email,
+    ...(business.owner_name ? { ownerName: business.owner_name } : {}),
+    street: address.street,
+    city: address.city,
+    state: address.state,
+    postcode: address.postcode,
+    country: address.country,
+    fullAddress: `${address.street}, ${address.city} ${address.state} ${address.postcode}`,
+    mainLocation: service.main_location,
+    mainServiceCategory: service.main_category,
+    serviceRadius: service.radius_km,
+    hoursMonday: hours.monday,
+    hoursTuesday: hours.tuesday,
+    hoursWednesday: hours.wednesday,
+    hoursThursday: hours.thursday,
+    hoursFriday: hours.friday,
+    hoursSaturday: hours.saturday,
+    hoursSunday: hours.sunday,
+    facebookUrl: social.facebook ?? '',
+    instagramUrl: social.instagram ?? '',
+    linkedinUrl: social.linkedin ?? '',
+    youtubeUrl: social.youtube ?? '',
+    siteUrl: website.url,
+    googleMapsUrl: website.google_maps_url ?? '',
+    googleReviewsUrl: website.google_reviews_url ?? '',
+  };
+}
@@ -4,9 +4,12 @@
  * and provides type-safe access to configuration throughout the app
  */
 
-import fs from 'node:fs';
-import path from 'node:path';
-import yaml from 'js-yaml';
+import { getMaxLocationPages, type BusinessConfig } from './business-schema';
+import { getActiveProfile, loadProfileConfig } from './profile';
+import { buildHoursModel, DEFAULT_TIMEZONE, type HoursModel } from '../utils/business-hours';
+import { resolveServiceArea } from '../utils/service-area';
+import { resolvePricing } from '../utils/pricing';
+import { resolveBookingSettings } from '../utils/booking';
 
 interface BusinessHours {
   monday: string;
@@ -26,6 +29,17 @@ interface Address {
   country: string;
 }
 
+export interface Branch {
+  id: string;
+  name: string;
+  phone: string;
+  formattedPhone: string;
+  email: string;
+  address: Address;
+  coordinates: { lat: number; lng: number };
+  hoursModel: HoursModel;
+}
+
 interface SocialLinks {
   facebook?: string;
   instagram?: string;
@@ -40,69 +54,23 @@ interface Colors {
   cta: string;
 }
 
-interface BusinessConfig {
-  business: {
-    name: string;
-    logo?: string;
-    tagline: string;
-    phone: string;
-    email: string;
-    owner_name?: string;
-    broad_region?: string;
-    form_location?: string;
-  };
-  address: Address;
-  service: {
-    main_category: string;
-    main_location: string;
-    radius_km: number;
-    max_location_pages: number;
-    center_lat?: number;
-    center_lng?: number;
-  };
-  colors: {
-    primary: string;
-    secondary: string;
-    accent: string;
-    cta: string;
-  };
-  hours: BusinessHours;
-  social: {
-    facebook?: string;
-    instagram?: string;
-    linkedin?: string;
-    youtube?: string;
-  };
-  website: {
-    url: string;
-    google_maps_url?: string;
-    google_reviews_url?: string;
-  };
-  google_maps: {
-    embed?: string;
-  };
-  footer: {
-    featured_suburbs?: string[];
-  };
-}
-
-// Load business configuration from YAML
+// Load business configuration from YAML, layering the active site profile on top.
+// A missing file falls back to environment variables, but an invalid file
+// throws a BusinessConfigError so the build fails with the offending lines.
 function loadBusinessConfig(): BusinessConfig | null {
-  try {
-    const configPath = path.join(process.cwd(), 'config', 'business.yaml');
-    if (fs.existsSync(configPath)) {
-      const configContent = fs.readFileSync(configPath, 'utf8');
-      return yaml.load(configContent) as BusinessConfig;
-    }
-  } catch (error) {
-    console.warn('Could not load business.yaml, falling back to environment variables:', error);
+  const config = loadProfileConfig();
+  if (!config) {
+    console.warn('Could not find config/business.yaml, falling back to environment variables');
   }
-  return null;
+  return config;
 }
 
 // Load the business configuration
 const businessConfig = loadBusinessConfig();
 
+// import.meta.env only exists under Vite; scripts and tests run with tsx
+const env: Record<string, string | undefined> = import.meta.env ?? process.env;
+
 // Helper function to get value from config or env with fallback
 function getConfigValue<T>(
   configPath: string,
@@ -123,7 +91,7 @@ function getConfigValue<T>(
   }
   
   // Fall back to environment variable
-  const envValue = import.meta.env[envVar];
+  const envValue = env[envVar];
   if (envValue !== undefined && envValue !== null && envValue !== '') {
     return envValue as T;
   }
@@ -132,10 +100,46 @@ function getConfigValue<T>(
   return defaultValue;
 }
 
+// Business hours as free text (kept for components that display them)
+const businessHours: BusinessHours = {
+  monday: getConfigValue('hours.monday', 'PUBLIC_HOURS_MONDAY', '9:00 AM - 5:00 PM'),
+  tuesday: getConfigValue('hours.tuesday', 'PUBLIC_HOURS_TUESDAY', '9:00 AM - 5:00 PM'),
+  wednesday: getConfigValue('hours.wednesday', 'PUBLIC_HOURS_WEDNESDAY', '9:00 AM - 5:00 PM'),
+  thursday: getConfigValue('hours.thursday', 'PUBLIC_HOURS_THURSDAY', '9:00 AM - 5:00 PM'),
+  friday: getConfigValue('hours.friday', 'PUBLIC_HOURS_FRIDAY', '9:00 AM - 5:00 PM'),
+  saturday: getConfigValue('hours.saturday', 'PUBLIC_HOURS_SATURDAY', '9:00 AM - 1:00 PM'),
+  sunday: getConfigValue('hours.sunday', 'PUBLIC_HOURS_SUNDAY', 'Closed'),
+};
+
+const businessHoursModel = buildHoursModel(
+  businessHours,
+  businessConfig?.hours.exceptions ?? [],
+  businessConfig?.hours.timezone ?? DEFAULT_TIMEZONE
+);
+
+// Branches from business.yaml, with hours defaulting to the business hours
+function buildBranches(): Branch[] {
+  return (businessConfig?.branches ?? []).map((branch) => ({
+    id: branch.id,
+    name: branch.name,
+    phone: branch.phone,
+    formattedPhone: branch.phone.replace(/\D/g, ''),
+    email: branch.email ?? getConfigValue('business.email', 'PUBLIC_EMAIL', 'info@example.com'),
+    address: branch.address,
+    coordinates: branch.coordinates,
+    hoursModel: branch.hours
+      ? buildHoursModel(branch.hours, branch.hours.exceptions, branch.hours.timezone)
+      : businessHoursModel,
+  }));
+}
+
 export const siteConfig = {
+  // Active site profile (null for the default config/business.yaml site)
+  profile: getActiveProfile(),
+
   // Business Information
   businessName: getConfigValue('business.name', 'PUBLIC_BUSINESS_NAME', 'Your Business Name'),
-  businessLogo: getConfigValue('business.logo', 'PUBLIC_BUSINESS_LOGO', undefined),
+  businessLogo: getConfigValue<string | undefined>('business.logo', 'PUBLIC_BUSINESS_LOGO', undefined),
   tagline: getConfigValue('business.tagline', 'PUBLIC_BUSINESS_TAGLINE', 'Professional Services'),
   phone: getConfigValue('business.phone', 'PUBLIC_PHONE', '(00) 0000 0000'),
   email: getConfigValue('business.email', 'PUBLIC_EMAIL', 'info@example.com'),
@@ -155,15 +159,19 @@ export const siteConfig = {
   } as Address,
   
   // Business Hours
-  hours: {
-    monday: getConfigValue('hours.monday', 'PUBLIC_HOURS_MONDAY', '9:00 AM - 5:00 PM'),
-    tuesday: getConfigValue('hours.tuesday', 'PUBLIC_HOURS_TUESDAY', '9:00 AM - 5:00 PM'),
-    wednesday: getConfigValue('hours.wednesday', 'PUBLIC_HOURS_WEDNESDAY', '9:00 AM - 5:00 PM'),
-    thursday: getConfigValue('hours.thursday', 'PUBLIC_HOURS_THURSDAY', '9:00 AM - 5:00 PM'),
-    friday: getConfigValue('hours.friday', 'PUBLIC_HOURS_FRIDAY', '9:00 AM - 5:00 PM'),
-    saturday: getConfigValue('hours.saturday', 'PUBLIC_HOURS_SATURDAY', '9:00 AM - 1:00 PM'),
-    sunday: getConfigValue('hours.sunday', 'PUBLIC_HOURS_SUNDAY', 'Closed'),
-  } as BusinessHours,
+  hours: businessHours,
+  
+  // Parsed hours with holiday/seasonal exceptions (see utils/business-hours)
+  hoursModel: businessHoursModel,
+
+  // Depots crews run out of (empty for a single-location business)
+  branches: buildBranches(),
+
+  // Estimator rates from business.yaml pricing (undefined = no estimator or price ranges)
+  pricing: resolvePricing(businessConfig?.pricing),
+
+  // Booking notice, arrival windows and blackout dates for the booking request form
+  booking: resolveBookingSettings(businessConfig?.booking),
   
   // Social Media
   social: {
@@ -181,9 +189,9 @@ export const siteConfig = {
   // Google Maps Integration
   googleMaps: {
     embed: getConfigValue('google_maps.embed', 'PUBLIC_GOOGLE_MAPS_EMBED', undefined),
-    placeId: import.meta.env.PUBLIC_GOOGLE_MAPS_PLACE_ID || undefined,
-    apiKey: import.meta.env.PUBLIC_GOOGLE_MAPS_API_KEY || undefined,
-    discoveredCache: import.meta.env.GOOGLE_MAPS_DISCOVERED_CACHE || undefined,
+    placeId: env.PUBLIC_GOOGLE_MAPS_PLACE_ID || undefined,
+    apiKey: env.PUBLIC_GOOGLE_MAPS_API_KEY || undefined,
+    discoveredCache: env.GOOGLE_MAPS_DISCOVERED_CACHE || undefined,
   },
   
   // Theme Colors (with # prefix added)
@@ -197,10 +205,26 @@ export const siteConfig = {
   // Location Page Generation Settings
   locationPages: {
     serviceRadiusKm: getConfigValue('service.radius_km', 'SERVICE_RADIUS_KM', 50),
-    maxLocationPages: getConfigValue('service.max_location_pages', 'MAX_LOCATION_PAGES', 100),
+    maxLocationPages: getMaxLocationPages(businessConfig, env),
+    maxServiceLocationPages: getConfigValue('service.max_service_location_pages', 'MAX_SERVICE_LOCATION_PAGES', 200),
     centerLat: getConfigValue('service.center_lat', 'SERVICE_CENTER_LAT', undefined),
     centerLng: getConfigValue('service.center_lng', 'SERVICE_CENTER_LNG', undefined),
+    // Polygon and include/exclude lists from service.area (undefined = radius only)
+    serviceArea: resolveServiceArea(businessConfig?.service.area),
     footerFeaturedSuburbs: getConfigValue('footer.featured_suburbs', 'FOOTER_FEATURED_SUBURBS', []),
+    footerSuburbSelectionMode: getConfigValue('footer.suburb_selection_mode', 'FOOTER_SUBURB_SELECTION_MODE', 'best_match'),
+    footerAutoSupplement: getConfigValue('footer.auto_supplement', 'FOOTER_AUTO_SUPPLEMENT', true),
+    footerSuburbLimit: getConfigValue('footer.suburb_limit', 'FOOTER_SUBURB_LIMIT', undefined),
+  },
+  
+  // Content collection entries used for each page
+  content: {
+    homepage: getConfigValue('content.homepage', 'CONTENT_HOMEPAGE', 'homepage'),
+    about: getConfigValue('content.about', 'CONTENT_ABOUT', 'about'),
+    contact: getConfigValue('content.contact', 'CONTENT_CONTACT', 'contact'),
+    locationSections: getConfigValue('content.location_sections', 'CONTENT_LOCATION_SECTIONS', 'locations'),
+    serviceSections: getConfigValue('content.service_sections', 'CONTENT_SERVICE_SECTIONS', 'services-default'),
+    serviceLocationSections: getConfigValue('content.service_location_sections', 'CONTENT_SERVICE_LOCATION_SECTIONS', 'service-locations'),
   },
   
   // Computed values
@@ -1,8 +1,9 @@
 import { defineCollection, z } from 'astro:content';
 import { getTemplateVariables } from '@mcoster/astro-local-package/utils/config-loader';
+import { getProfileTemplateVariables } from '../config/profile';
 
-// Get template variables for processing
-const templateVars = getTemplateVariables();
+// Get template variables for processing (active site profile values win)
+const templateVars = { ...getTemplateVariables(), ...getProfileTemplateVariables() };
 
 /**
  * Process template variables in a string
@@ -21,6 +22,16 @@ function processTemplate(str: string): string {
   return processed;
 }
 
+/**
+ * SEO title/description templates for generated pages.
+ * Supports Spintax and template variables; rendered by the page's context
+ * and length-checked at build time (titles ~580px, descriptions 160 chars)
+ */
+const seoTemplateSchema = z.object({
+  title: z.string(),
+  description: z.string(),
+}).optional();
+
 /**
  * Homepage Collection Schema
  * 
@@ -31,6 +42,7 @@ function processTemplate(str: string): string {
 const homepageCollection = defineCollection({
   type: 'data',
   schema: z.object({
+    seo: seoTemplateSchema,
     sections: z.array(z.object({
       component: z.string(), // Component name from registry
       enabled: z.boolean().default(true),
@@ -60,6 +72,7 @@ const servicesCollection = defineCollection({
     icon: z.string().optional(), // Emoji or icon class for service cards
     order: z.number().default(99), // Display order (lower numbers appear first)
     featured: z.boolean().default(false), // Whether to show on homepage
+    locationPages: z.boolean().default(false), // Generate /services/[slug]/[location] pages for this service
     
     // SEO fields (optional)
     seo: z.object({
@@ -97,6 +110,7 @@ const aboutCollection = defineCollection({
 const contactCollection = defineCollection({
   type: 'data',
   schema: z.object({
+    seo: seoTemplateSchema,
     sections: z.array(z.object({
       component: z.string(), // Component name from registry
       enabled: z.boolean().default(true),
@@ -139,6 +153,29 @@ const serviceSectionsCollection = defineCollection({
 const locationSectionsCollection = defineCollection({
   type: 'data',
   schema: z.object({
+    seo: seoTemplateSchema,
+    sections: z.array(z.object({
+      id: z.string().optional(), // Name suburb overrides use to target the section
+      component: z.string(), // Component name from registry
+      enabled: z.boolean().default(true),
+      props: z.record(z.any()).optional(), // Component props
+    })),
+  }),
+});
+
+/**
+ * Service Location Sections Collection Schema
+ * 
+ * This defines the structure for service + suburb page section YAML files
+ * (/services/[slug]/[location]). The default file is service-locations.yaml
+ * in src/content/serviceLocationSections/
+ * Sections support Spintax, location variables and service variables
+ * ({{serviceTitle}}, {{serviceSlug}}, {{serviceDescription}}, ...)
+ */
+const serviceLocationSectionsCollection = defineCollection({
+  type: 'data',
+  schema: z.object({
+    seo: seoTemplateSchema,
     sections: z.array(z.object({
       component: z.string(), // Component name from registry
       enabled: z.boolean().default(true),
@@ -147,6 +184,41 @@ const locationSectionsCollection = defineCollection({
   }),
 });
 
+/**
+ * Suburb Collection Schema
+ *
+ * Optional per-suburb content layered over the shared location sections.
+ * The file name is the location page slug (e.g. surfers-paradise.md in
+ * src/content/suburbs/). Frontmatter `sections` target shared sections by id
+ * or component name (see src/utils/suburb-overrides.ts); the markdown body,
+ * if any, is added as its own section (before the last section unless
+ * `content.before`/`content.after` say otherwise)
+ */
+const suburbsCollection = defineCollection({
+  type: 'content',
+  schema: z.object({
+    seo: z.object({
+      title: z.string().optional(),
+      description: z.string().optional(),
+    }).optional(),
+    content: z.object({
+      title: z.string().optional(),
+      before: z.string().optional(),
+      after: z.string().optional(),
+    }).refine((value) => !(value.before && value.after), 'Use before or after, not both').optional(),
+    sections: z.array(z.object({
+      target: z.string().optional(), // Shared section to change (id or component)
+      before: z.string().optional(), // Shared section to insert a new section before
+      after: z.string().optional(), // ...or after
+      component: z.string().optional(), // Component of an inserted section
+      id: z.string().optional(),
+      enabled: z.boolean().optional(),
+      props: z.record(z.any()).optional(), // Merged over the target's props
+      append: z.record(z.array(z.any())).optional(), // Added to the target's list props (e.g. faqs)
+    })).default([]),
+  }),
+});
+
 /**
  * Legal Pages Collection Schema
  * 
@@ -183,6 +255,8 @@ export const collections = {
   services: servicesCollection,
   serviceSections: serviceSectionsCollection,
   locationSections: locationSectionsCollection,
+  serviceLocationSections: serviceLocationSectionsCollection,
+  suburbs: suburbsCollection,
   homepage: homepageCollection,
   about: aboutCollection,
   contact: contactCollection,
@@ -34,6 +34,9 @@ interface ImportMetaEnv {
   readonly PUBLIC_COLOR_ACCENT: string;
   readonly PUBLIC_COLOR_CTA: string;
   
+  // Site profile (config/sites/<name>.yaml)
+  readonly SITE_PROFILE?: string;
+  
   // Location Page Generation
   readonly SERVICE_RADIUS_KM?: string;
   readonly SERVICE_CENTER_LAT?: string;
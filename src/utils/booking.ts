@@ -0,0 +1,297 @@
+/**
+ * Booking Requests
+ * The dates and arrival windows the booking form offers, from the booking
+ * section of business.yaml and the business hours: windows are trimmed to
+ * the day's opening hours, and closed days, blackout dates and days inside
+ * the notice period can't be picked. The quote function checks the same
+ * rules, so a page built last week can't book a day since blacked out.
+ *
+ * Runs in the browser too, so it only imports business-hours, ics and types.
+ */
+
+import type { BusinessConfig } from '../config/business-schema';
+import type { LeadRecord } from './lead-schema';
+import { addDays, formatTime, getException, getHoursForDate, getZonedParts, toInstant, toMinutes, type HoursModel } from './business-hours';
+import { buildCalendar } from './ics';
+
+export interface BookingWindow {
+  id: string;
+  label: string;
+  /** "HH:MM" */
+  from: string;
+  to: string;
+}
+
+export interface BlackoutDate {
+  name?: string;
+  /** YYYY-MM-DD, inclusive */
+  from: string;
+  to: string;
+}
+
+export interface BookingSettings {
+  minNoticeDays: number;
+  maxDaysAhead: number;
+  maxPreferences: number;
+  windows: BookingWindow[];
+  blackoutDates: BlackoutDate[];
+}
+
+/** An arrival window on a date, trimmed to the opening hours */
+export interface BookingSlot {
+  date: string;
+  window: string;
+  label: string;
+  start: string;
+  end: string;
+}
+
+export interface BookingDay {
+  date: string;
+  slots: BookingSlot[];
+}
+
+/** A booking request as stored with the lead */
+export interface BookingRequest {
+  /** Best first */
+  preferences: BookingSlot[];
+  streetAddress: string;
+  propertyType?: string;
+  storeys?: string;
+  /** Timezone of the preferred dates and times */
+  timezone: string;
+}
+
+export type BookingValidation =
+  | { ok: true; booking: BookingRequest }
+  | { ok: false; errors: Record<string, string> };
+
+export const PROPERTY_TYPES = ['House', 'Townhouse', 'Unit / apartment', 'Commercial'];
+export const STOREY_OPTIONS = ['Single storey', 'Two storey', 'Three storey or more'];
+
+/** Set to "booking" by the booking form; quote forms don't send it */
+export const BOOKING_REQUEST_FIELD = 'request_type';
+
+/** Form field names for the booking details (none are lead field aliases) */
+export const BOOKING_FIELDS = {
+  streetAddress: 'street_address',
+  propertyType: 'property_type',
+  storeys: 'storeys',
+  date: (choice: number) => `preferred_date_${choice}`,
+  window: (choice: number) => `preferred_window_${choice}`,
+};
+
+/** Windows left with less time than this after trimming to the opening hours are not offered */
+const MIN_SLOT_MINUTES = 60;
+
+export const DEFAULT_BOOKING_SETTINGS: BookingSettings = {
+  minNoticeDays: 2,
+  maxDaysAhead: 60,
+  maxPreferences: 3,
+  windows: [
+    { id: 'morning', label: 'Morning', from: '07:00', to: '12:00' },
+    { id: 'afternoon', label: 'Afternoon', from: '12:00', to: '17:00' },
+  ],
+  blackoutDates: [],
+};
+
+/**
+ * Booking settings from the booking section of business.yaml
+ */
+export function resolveBookingSettings(booking: BusinessConfig['booking'] | undefined): BookingSettings {
+  if (!booking) return DEFAULT_BOOKING_SETTINGS;
+  return {
+    minNoticeDays: booking.min_notice_days,
+    maxDaysAhead: booking.max_days_ahead,
+    maxPreferences: booking.max_preferences,
+    windows: booking.windows,
+    blackoutDates: booking.blackout_dates.map((blackout) => ({
+      name: blackout.name,
+      from: (blackout.date ?? blackout.from) as string,
+      to: (blackout.date ?? blackout.to) as string,
+    })),
+  };
+}
+
+/**
+ * The blackout covering a date, if any
+ */
+export function getBlackout(settings: BookingSettings, isoDate: string): BlackoutDate | undefined {
+  return settings.blackoutDates.find((blackout) => blackout.from <= isoDate && isoDate <= blackout.to);
+}
+
+/**
+ * Arrival windows on a date, each trimmed to the opening period it overlaps
+ * most. Empty when we're closed or the date is blacked out.
+ */
+export function getBookingSlots(settings: BookingSettings, hours: HoursModel, isoDate: string): BookingSlot[] {
+  if (getBlackout(settings, isoDate)) return [];
+  const open = getHoursForDate(hours, isoDate);
+
+  return settings.windows.flatMap((window) => {
+    let best: { start: string; end: string } | undefined;
+    for (const range of open) {
+      // "HH:MM" strings compare in time order
+      const start = window.from > range.opens ? window.from : range.opens;
+      const end = window.to < range.closes ? window.to : range.closes;
+      const minutes = toMinutes(end) - toMinutes(start);
+      if (minutes >= MIN_SLOT_MINUTES && (!best || minutes > toMinutes(best.end) - toMinutes(best.start))) best = { start, end };
+    }
+    return best ? [{ date: isoDate, window: window.id, label: window.label, ...best }] : [];
+  });
+}
+
+/**
+ * First and last dates that can be booked, counted from today in the
+ * business's timezone
+ */
+export function getBookingRange(settings: BookingSettings, hours: HoursModel, now: Date = new Date()): { first: string; last: string } {
+  const today = getZonedParts(now, hours.timezone).date;
+  return { first: addDays(today, settings.minNoticeDays), last: addDays(today, settings.maxDaysAhead) };
+}
+
+/**
+ * Every day in the booking range with at least one window
+ */
+export function getBookableDays(settings: BookingSettings, hours: HoursModel, now: Date = new Date()): BookingDay[] {
+  const { first, last } = getBookingRange(settings, hours, now);
+  const days: BookingDay[] = [];
+  for (let date = first; date <= last; date = addDays(date, 1)) {
+    const slots = getBookingSlots(settings, hours, date);
+    if (slots.length > 0) days.push({ date, slots });
+  }
+  return days;
+}
+
+/** 2026-10-21 → "Wednesday 21 October" */
+export function formatBookingDate(isoDate: string): string {
+  return new Intl.DateTimeFormat('en-AU', { weekday: 'long', day: 'numeric', month: 'long', timeZone: 'UTC' })
+    .format(new Date(`${isoDate}T00:00:00Z`));
+}
+
+/** "07:00" → "7am", "12:30" → "12:30pm" */
+export function formatBookingTime(time: string): string {
+  return formatTime(time);
+}
+
+/** "Wednesday 21 October, Morning (7am – 12pm)" */
+export function describeSlot(slot: BookingSlot): string {
+  return `${formatBookingDate(slot.date)}, ${slot.label} (${formatBookingTime(slot.start)} – ${formatBookingTime(slot.end)})`;
+}
+
+/**
+ * The slot for a chosen date and window, or why it can't be booked
+ */
+export function checkBookingSlot(
+  settings: BookingSettings,
+  hours: HoursModel,
+  isoDate: string,
+  windowId: string,
+  now: Date = new Date()
+): { ok: true; slot: BookingSlot } | { ok: false; error: string } {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(isoDate) || Number.isNaN(Date.parse(isoDate))) {
+    return { ok: false, error: 'Please choose a date' };
+  }
+  const { first, last } = getBookingRange(settings, hours, now);
+  if (isoDate < first) return { ok: false, error: `Please choose a date from ${formatBookingDate(first)}` };
+  if (isoDate > last) return { ok: false, error: `We take bookings up to ${settings.maxDaysAhead} days ahead` };
+
+  const date = formatBookingDate(isoDate);
+  const blackout = getBlackout(settings, isoDate);
+  if (blackout) return { ok: false, error: `We're not taking bookings on ${date}${blackout.name ? ` (${blackout.name})` : ''}` };
+
+  const slots = getBookingSlots(settings, hours, isoDate);
+  if (slots.length === 0) {
+    const closure = getException(hours, isoDate)?.name;
+    return { ok: false, error: `We're closed on ${date}${closure ? ` (${closure})` : ''}` };
+  }
+  const slot = slots.find((candidate) => candidate.window === windowId);
+  if (!slot) return { ok: false, error: `Please choose a time of day for ${date}` };
+  return { ok: true, slot };
+}
+
+/**
+ * The booking details from a form post, with one message per invalid field.
+ * Undefined when the form is not a booking request.
+ */
+export function parseBookingRequest(
+  fields: Record<string, string>,
+  settings: BookingSettings,
+  hours: HoursModel,
+  now: Date = new Date()
+): BookingValidation | undefined {
+  if (fields[BOOKING_REQUEST_FIELD] !== 'booking') return undefined;
+  const errors: Record<string, string> = {};
+  const text = (name: string) => fields[name]?.trim() || undefined;
+
+  const streetAddress = text(BOOKING_FIELDS.streetAddress);
+  if (!streetAddress || streetAddress.length < 5) errors[BOOKING_FIELDS.streetAddress] = 'Please enter the property address';
+  else if (streetAddress.length > 200) errors[BOOKING_FIELDS.streetAddress] = 'Must be 200 characters or fewer';
+
+  const propertyType = text(BOOKING_FIELDS.propertyType);
+  if (propertyType && !PROPERTY_TYPES.includes(propertyType)) errors[BOOKING_FIELDS.propertyType] = `Must be one of ${PROPERTY_TYPES.join(', ')}`;
+  const storeys = text(BOOKING_FIELDS.storeys);
+  if (storeys && !STOREY_OPTIONS.includes(storeys)) errors[BOOKING_FIELDS.storeys] = `Must be one of ${STOREY_OPTIONS.join(', ')}`;
+
+  const preferences: BookingSlot[] = [];
+  for (let choice = 1; choice <= settings.maxPreferences; choice++) {
+    const date = text(BOOKING_FIELDS.date(choice));
+    const window = text(BOOKING_FIELDS.window(choice));
+    if (!date && !window) continue;
+
+    const check = checkBookingSlot(settings, hours, date ?? '', window ?? '', now);
+    if (!check.ok) {
+      errors[BOOKING_FIELDS.date(choice)] = check.error;
+    } else if (preferences.some((slot) => slot.date === check.slot.date && slot.window === check.slot.window)) {
+      errors[BOOKING_FIELDS.date(choice)] = 'You have already chosen this time';
+    } else {
+      preferences.push(check.slot);
+    }
+  }
+  if (preferences.length === 0 && !errors[BOOKING_FIELDS.date(1)]) {
+    errors[BOOKING_FIELDS.date(1)] = 'Please choose a preferred date';
+  }
+
+  if (Object.keys(errors).length > 0) return { ok: false, errors };
+  return {
+    ok: true,
+    booking: {
+      preferences,
+      streetAddress: streetAddress!,
+      ...(propertyType && { propertyType }),
+      ...(storeys && { storeys }),
+      timezone: hours.timezone,
+    },
+  };
+}
+
+/**
+ * The calendar file for a booking request: one tentative event at the first
+ * preference, with the other times and the lead reference in the description.
+ * The customer's copy (customerCopy) carries nothing the visitor typed: no
+ * service or address, only the business, the times and the reference.
+ */
+export function buildBookingCalendar(
+  lead: Pick<LeadRecord, 'id' | 'receivedAt' | 'suburb' | 'service'> & { booking: BookingRequest },
+  options: { businessName?: string; phone?: string; domain?: string; customerCopy?: boolean } = {}
+): string {
+  const { timezone } = lead.booking;
+  const [first, ...others] = lead.booking.preferences;
+  const description = [
+    'Requested time. We will call to confirm.',
+    ...(others.length > 0 ? [`Other times that suit: ${others.map(describeSlot).join('; ')}`] : []),
+    `Reference: ${lead.id.slice(0, 8).toUpperCase()}`,
+    ...(options.phone ? [`Questions? Call ${options.phone}`] : []),
+  ].join('\n');
+
+  return buildCalendar([{
+    uid: `${lead.id}@${options.domain ?? 'booking-request'}`,
+    start: toInstant(first.date, first.start, timezone),
+    end: toInstant(first.date, first.end, timezone),
+    summary: `${(!options.customerCopy && lead.service) || 'Booking'} (requested)${options.businessName ? ` - ${options.businessName}` : ''}`,
+    description,
+    location: options.customerCopy ? undefined : `${lead.booking.streetAddress}, ${lead.suburb}`,
+    status: 'TENTATIVE',
+    stamp: new Date(lead.receivedAt),
+  }], { prodId: `-//${options.businessName ?? 'Local Business Website'}//Booking Requests//EN` });
+}
@@ -0,0 +1,54 @@
+/**
+ * Branches
+ * Suburbs in suburbs.json are tagged with their nearest branch by the suburb
+ * export; suburb pages use that branch's phone, address, hours and distance
+ */
+
+import { siteConfig, type Branch } from '../config/site';
+import suburbsData from '../data/suburbs.json';
+
+/** Nearest-branch tag written to each suburb by scripts/export-suburbs.ts */
+export interface SuburbBranch {
+  id: string;
+  distanceKm: number;
+  direction: string | null;
+}
+
+export interface BranchAssignment {
+  branch: Branch;
+  distanceKm: number;
+  direction: string | null;
+}
+
+const DIRECTION_NAMES: Record<string, string> = {
+  N: 'north',
+  NE: 'north-east',
+  E: 'east',
+  SE: 'south-east',
+  S: 'south',
+  SW: 'south-west',
+  W: 'west',
+  NW: 'north-west',
+};
+
+/**
+ * Branch serving a suburb, or undefined when no branches are configured
+ * (pages then fall back to the business address and service centre)
+ */
+export function getSuburbBranch(suburb: { name: string; state: string; branch?: SuburbBranch }): BranchAssignment | undefined {
+  const tag = suburb.branch ?? (suburbsData.suburbs as Array<{ name: string; state: string; branch?: SuburbBranch }>)
+    .find((candidate) => candidate.name === suburb.name && candidate.state === suburb.state)?.branch;
+  const branch = tag && siteConfig.branches.find((candidate) => candidate.id === tag.id);
+  return branch ? { branch, distanceKm: tag.distanceKm, direction: tag.direction } : undefined;
+}
+
+/**
+ * "9.4 km south" style distance from a branch (direction is branch → suburb)
+ */
+export function describeBranchDistance({ distanceKm, direction }: Pick<BranchAssignment, 'distanceKm' | 'direction'>): string {
+  return direction ? `${distanceKm} km ${DIRECTION_NAMES[direction] ?? direction}` : `${distanceKm} km`;
+}
+
+export function formatBranchAddress({ address }: Branch): string {
+  return `${address.street}, ${address.city} ${address.state} ${address.postcode}`;
+}
@@ -0,0 +1,328 @@
+/**
+ * Business Hours Model
+ * Parses the free-text hours in business.yaml into time ranges and answers
+ * "are we open?" questions in the business's own timezone (Queensland by default)
+ */
+
+export const DAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'] as const;
+export type Day = typeof DAYS[number];
+
+export const DEFAULT_TIMEZONE = 'Australia/Brisbane';
+
+/** A single opening period using 24-hour "HH:MM" times */
+export interface TimeRange {
+  opens: string;
+  closes: string;
+}
+
+/** A holiday, seasonal closure or one-off change to the weekly hours */
+export interface HoursException {
+  name?: string;
+  /** First day the exception applies (YYYY-MM-DD) */
+  from: string;
+  /** Last day the exception applies, inclusive (YYYY-MM-DD) */
+  to: string;
+  /** Empty when closed */
+  ranges: TimeRange[];
+}
+
+export interface HoursModel {
+  timezone: string;
+  weekly: Record<Day, TimeRange[]>;
+  exceptions: HoursException[];
+}
+
+export interface HoursExceptionInput {
+  name?: string;
+  date?: string;
+  from?: string;
+  to?: string;
+  hours?: string;
+}
+
+export interface OpenStatus {
+  isOpen: boolean;
+  /** Closing time of the current period when open */
+  closesAt?: string;
+  /** Next opening when closed (searches two weeks ahead) */
+  nextOpen?: { date: string; day: Day; time: string };
+  /** Exception affecting the given date, if any */
+  exception?: HoursException;
+}
+
+const TIME_PATTERN = /^(\d{1,2})(?:[:.](\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)?$/i;
+
+function parseTime(value: string): string {
+  const match = value.trim().match(TIME_PATTERN);
+  if (!match) {
+    throw new Error(`Unrecognised time "${value.trim()}"`);
+  }
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  const meridiem = match[3]?.toLowerCase().replace(/\./g, '');
+
+  if (meridiem) {
+    if (hours < 1 || hours > 12) throw new Error(`Invalid 12-hour time "${value.trim()}"`);
+    if (meridiem === 'am' && hours === 12) hours = 0;
+    if (meridiem === 'pm' && hours !== 12) hours += 12;
+  } else if (!match[2]) {
+    // A bare number like "7" is ambiguous without AM/PM
+    throw new Error(`Time "${value.trim()}" needs minutes or AM/PM`);
+  }
+
+  if (hours === 24 && minutes === 0) return '23:59';
+  if (hours > 23 || minutes > 59) {
+    throw new Error(`Invalid time "${value.trim()}"`);
+  }
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+/**
+ * Minutes past midnight of an "HH:MM" time
+ */
+export function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Parse a day's hours, e.g. "7:00 AM - 5:00 PM", "07:00-12:00, 13:00-17:00",
+ * "24 hours" or "Closed". Returns an empty array when closed.
+ */
+export function parseHoursString(value: string): TimeRange[] {
+  const text = value.trim();
+  if (/^closed$/i.test(text)) {
+    return [];
+  }
+  if (/^(open\s+)?24\s*(hours|hrs|\/7)$/i.test(text)) {
+    return [{ opens: '00:00', closes: '23:59' }];
+  }
+
+  const ranges = text.split(/\s*(?:,|&|\band\b)\s*/i).map((part) => {
+    const times = part.split(/\s*(?:-|–|—|\bto\b)\s*/i);
+    if (times.length !== 2) {
+      throw new Error(`Expected a range like "7:00 AM - 5:00 PM", got "${part}"`);
+    }
+    const range = { opens: parseTime(times[0]), closes: parseTime(times[1]) };
+    if (toMinutes(range.closes) <= toMinutes(range.opens)) {
+      throw new Error(`Closing time must be after opening time in "${part}"`);
+    }
+    return range;
+  });
+
+  ranges.sort((a, b) => toMinutes(a.opens) - toMinutes(b.opens));
+  for (let i = 1; i < ranges.length; i++) {
+    if (toMinutes(ranges[i].opens) < toMinutes(ranges[i - 1].closes)) {
+      throw new Error(`Overlapping time ranges in "${text}"`);
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Build the hours model from the hours strings and exceptions in business.yaml
+ */
+export function buildHoursModel(
+  hours: Record<Day, string>,
+  exceptions: HoursExceptionInput[] = [],
+  timezone = DEFAULT_TIMEZONE
+): HoursModel {
+  const weekly = Object.fromEntries(
+    DAYS.map((day) => [day, parseHoursString(hours[day])])
+  ) as Record<Day, TimeRange[]>;
+
+  return {
+    timezone,
+    weekly,
+    exceptions: exceptions.map((exception) => ({
+      name: exception.name,
+      from: (exception.date ?? exception.from) as string,
+      to: (exception.date ?? exception.to) as string,
+      ranges: parseHoursString(exception.hours ?? 'Closed'),
+    })),
+  };
+}
+
+/**
+ * Calendar date, weekday and minutes past midnight of an instant in a timezone
+ */
+export function getZonedParts(date: Date, timezone = DEFAULT_TIMEZONE): { date: string; day: Day; minutes: number } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-AU', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      weekday: 'long',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(date).map((part) => [part.type, part.value])
+  );
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    day: parts.weekday.toLowerCase() as Day,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+/**
+ * The instant a local date and "HH:MM" time happen in a timezone
+ */
+export function toInstant(isoDate: string, time: string, timezone = DEFAULT_TIMEZONE): Date {
+  const wanted = Date.parse(`${isoDate}T${time}:00Z`);
+  // Start from the time as if it were UTC and correct by the zone's offset, twice for DST changes
+  let instant = wanted;
+  for (let i = 0; i < 2; i++) {
+    const zoned = getZonedParts(new Date(instant), timezone);
+    const shown = Date.parse(`${zoned.date}T00:00:00Z`) + zoned.minutes * 60_000;
+    instant += wanted - shown;
+  }
+  return new Date(instant);
+}
+
+function dayOfIsoDate(isoDate: string): Day {
+  const weekday = new Date(`${isoDate}T00:00:00Z`).getUTCDay();
+  return DAYS[(weekday + 6) % 7];
+}
+
+/**
+ * The calendar date (YYYY-MM-DD) a number of days after another
+ */
+export function addDays(isoDate: string, days: number): string {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Find the exception covering a date. Single-day exceptions beat date ranges.
+ */
+export function getException(model: HoursModel, isoDate: string): HoursException | undefined {
+  const matches = model.exceptions.filter((exception) => exception.from <= isoDate && isoDate <= exception.to);
+  return matches.find((exception) => exception.from === exception.to) ?? matches[0];
+}
+
+/**
+ * Opening periods for a calendar date (YYYY-MM-DD), taking exceptions into account
+ */
+export function getHoursForDate(model: HoursModel, isoDate: string): TimeRange[] {
+  const exception = getException(model, isoDate);
+  return exception ? exception.ranges : model.weekly[dayOfIsoDate(isoDate)];
+}
+
+function isWithin(range: TimeRange, minutes: number): boolean {
+  const closes = range.closes === '23:59' ? 24 * 60 : toMinutes(range.closes);
+  return toMinutes(range.opens) <= minutes && minutes < closes;
+}
+
+/**
+ * Whether the business is open at a given instant (defaults to now)
+ */
+export function isOpenAt(model: HoursModel, at: Date = new Date()): boolean {
+  return getOpenStatus(model, at).isOpen;
+}
+
+/**
+ * Open/closed status at a given instant with the next change of state
+ */
+export function getOpenStatus(model: HoursModel, at: Date = new Date()): OpenStatus {
+  const now = getZonedParts(at, model.timezone);
+  const exception = getException(model, now.date);
+  const current = getHoursForDate(model, now.date).find((range) => isWithin(range, now.minutes));
+
+  if (current) {
+    return { isOpen: true, closesAt: current.closes, exception };
+  }
+
+  for (let offset = 0; offset <= 14; offset++) {
+    const date = addDays(now.date, offset);
+    const next = getHoursForDate(model, date).find(
+      (range) => offset > 0 || toMinutes(range.opens) > now.minutes
+    );
+    if (next) {
+      return { isOpen: false, nextOpen: { date, day: dayOfIsoDate(date), time: next.opens }, exception };
+    }
+  }
+
+  return { isOpen: false, exception };
+}
+
+const SCHEMA_DAY_NAMES: Record<Day, string> = {
+  monday: 'Monday',
+  tuesday: 'Tuesday',
+  wednesday: 'Wednesday',
+  thursday: 'Thursday',
+  friday: 'Friday',
+  saturday: 'Saturday',
+  sunday: 'Sunday',
+};
+
+/**
+ * schema.org OpeningHoursSpecification entries, grouping days with the same hours
+ */
+export function toOpeningHoursSpecification(model: HoursModel) {
+  const groups = new Map<string, { range: TimeRange; days: string[] }>();
+
+  for (const day of DAYS) {
+    for (const range of model.weekly[day]) {
+      const key = `${range.opens}-${range.closes}`;
+      const group = groups.get(key) ?? { range, days: [] };
+      group.days.push(SCHEMA_DAY_NAMES[day]);
+      groups.set(key, group);
+    }
+  }
+
+  return [...groups.values()].map(({ range, days }) => ({
+    "@type": "OpeningHoursSpecification",
+    "dayOfWeek": days,
+    "opens": range.opens,
+    "closes": range.closes,
+  }));
+}
+
+/**
+ * schema.org specialOpeningHoursSpecification entries for holidays and closures.
+ * Closed days use opens/closes of 00:00 as recommended by Google.
+ */
+export function toSpecialOpeningHoursSpecification(model: HoursModel) {
+  return model.exceptions.flatMap((exception) => {
+    const ranges = exception.ranges.length ? exception.ranges : [{ opens: '00:00', closes: '00:00' }];
+    return ranges.map((range) => ({
+      "@type": "OpeningHoursSpecification",
+      ...(exception.name ? { "name": exception.name } : {}),
+      "validFrom": exception.from,
+      "validThrough": exception.to,
+      "opens": range.opens,
+      "closes": range.closes,
+    }));
+  });
+}
+
+/** "07:00" → "7am", "12:30" → "12:30pm", "23:59" (end of day) → "midnight" */
+export function formatTime(time: string): string {
+  if (time === '23:59') return 'midnight';
+  const [hours, minutes] = time.split(':').map(Number);
+  const hour12 = hours % 12 === 0 ? 12 : hours % 12;
+  return `${hour12}${minutes ? `:${String(minutes).padStart(2, '0')}` : ''}${hours < 12 ? 'am' : 'pm'}`;
+}
+
+/**
+ * An open status in words for an "open now" display: "Open now, closes 5pm",
+ * "Closed for Christmas Day, opens tomorrow at 7am"
+ */
+export function describeOpenStatus(status: OpenStatus, today: string): string {
+  if (status.isOpen) {
+    return `Open now${status.closesAt ? `, closes ${formatTime(status.closesAt)}` : ''}`;
+  }
+  const closed = status.exception?.name && status.exception.ranges.length === 0 ? `Closed for ${status.exception.name}` : 'Closed';
+  if (!status.nextOpen) return closed;
+
+  const { date, day, time } = status.nextOpen;
+  const days = Math.round((Date.parse(date) - Date.parse(today)) / 86_400_000);
+  const when = days === 0 ? '' : days === 1 ? 'tomorrow ' : days < 7 ? `${SCHEMA_DAY_NAMES[day]} `
+    : `${new Intl.DateTimeFormat('en-AU', { weekday: 'long', day: 'numeric', month: 'long', timeZone: 'UTC' }).format(new Date(`${date}T00:00:00Z`))} `;
+  return `${closed}, opens ${when}at ${formatTime(time)}`;
+}
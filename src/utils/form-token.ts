@@ -0,0 +1,46 @@
+/**
+ * Form Tokens
+ * A signed timestamp handed to the quote form when it is shown (GET
+ * /api/quote) and sent back with the request, so the quote function knows
+ * how long the form really took to fill in. Unlike the form's own
+ * form_started_at field, a bot can't backdate it without the secret.
+ *
+ * Token format: "<issued at, ms since epoch>.<hex HMAC-SHA256 of the time>",
+ * sent in the FORM_TOKEN_FIELD form field (lead-spam.ts). Server-side only.
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+export type FormTokenCheck =
+  | { status: 'valid'; ageMs: number }
+  | { status: 'missing' | 'expired' | 'invalid'; ageMs?: number };
+
+function sign(issuedAt: number, secret: string): string {
+  return createHmac('sha256', secret).update(String(issuedAt)).digest('hex');
+}
+
+/**
+ * A token issued now
+ */
+export function issueFormToken(secret: string, now = Date.now()): string {
+  return `${now}.${sign(now, secret)}`;
+}
+
+/**
+ * Check a token's signature and age. Tokens from the future (beyond a
+ * minute of clock skew) are invalid, older than maxAgeMs expired.
+ */
+export function checkFormToken(token: string | undefined, secret: string, now: number, maxAgeMs: number): FormTokenCheck {
+  if (!token?.trim()) return { status: 'missing' };
+
+  const match = token.trim().match(/^(\d{1,15})\.([0-9a-f]{64})$/);
+  if (!match) return { status: 'invalid' };
+  const issuedAt = Number(match[1]);
+  const expected = Buffer.from(sign(issuedAt, secret), 'hex');
+  if (!timingSafeEqual(expected, Buffer.from(match[2], 'hex'))) return { status: 'invalid' };
+
+  const ageMs = now - issuedAt;
+  if (ageMs < -60_000) return { status: 'invalid' };
+  if (ageMs > maxAgeMs) return { status: 'expired', ageMs };
+  return { status: 'valid', ageMs: Math.max(0, ageMs) };
+}
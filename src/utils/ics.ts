@@ -0,0 +1,82 @@
+/**
+ * iCalendar (.ics)
+ * Just enough of RFC 5545 to hand someone an event for their calendar: UTC
+ * times, escaped text and folded lines. Runs in the browser too.
+ */
+
+export interface CalendarEvent {
+  /** Globally unique, e.g. "<lead id>@example.com" */
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  /** TENTATIVE until the business confirms the time */
+  status?: 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED';
+  /** When the event was created (defaults to now) */
+  stamp?: Date;
+}
+
+/** 2026-10-21T21:00:00.000Z → 20261021T210000Z */
+export function formatIcsDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/** Escape TEXT values: backslash, semicolon, comma and newlines */
+export function escapeIcsText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line into 75-octet lines, continued with a leading space,
+ * without splitting a multi-byte character
+ */
+export function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards their 75
+    if (octets + size > (lines.length === 0 ? 75 : 74)) {
+      lines.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  lines.push(current);
+  return lines.join('\r\n ');
+}
+
+/**
+ * A VCALENDAR with one VEVENT per event, CRLF line endings
+ */
+export function buildCalendar(events: CalendarEvent[], options: { prodId?: string } = {}): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${options.prodId ?? '-//Local Business Website//Booking Requests//EN'}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...events.flatMap((event) => [
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatIcsDate(event.stamp ?? new Date())}`,
+      `DTSTART:${formatIcsDate(event.start)}`,
+      `DTEND:${formatIcsDate(event.end)}`,
+      `SUMMARY:${escapeIcsText(event.summary)}`,
+      ...(event.description ? [`DESCRIPTION:${escapeIcsText(event.description)}`] : []),
+      ...(event.location ? [`LOCATION:${escapeIcsText(event.location)}`] : []),
+      ...(event.url ? [`URL:${event.url}`] : []),
+      `STATUS:${event.status ?? 'CONFIRMED'}`,
+      'END:VEVENT',
+    ]),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,153 @@
+/**
+ * Lead Attribution
+ * Where a quote request came from: the page the form was on, the location
+ * and service that page is about, and how the visitor reached the site
+ * (UTM parameters, referrer, first and latest landing page).
+ *
+ * Runs in the browser (QuoteFormHandler adds the hidden fields) and on the
+ * server (the quote function reads them back), so it has no imports.
+ */
+
+/** What a page knows about itself at build time */
+export interface PageAttribution {
+  locationSlug?: string;
+  suburb?: string;
+  serviceSlug?: string;
+}
+
+/** A landing on the site: the first page of a visit */
+export interface Touch {
+  /** Path and query of the landing page */
+  page: string;
+  /** ISO time of the landing */
+  at: string;
+  /** Referring URL when it was another site */
+  referrer?: string;
+  utm?: Partial<Record<UtmParameter, string>>;
+}
+
+export interface LeadAttribution extends PageAttribution {
+  /** Path and query of the page the form was sent from */
+  pageUrl?: string;
+  /** UTM parameters of the latest landing, or the first one when the latest had none */
+  utm?: Partial<Record<UtmParameter, string>>;
+  referrer?: string;
+  firstTouch?: { page: string; at?: string };
+  lastTouch?: { page: string; at?: string };
+}
+
+export const UTM_PARAMETERS = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content'] as const;
+
+export type UtmParameter = typeof UTM_PARAMETERS[number];
+
+/**
+ * Hidden form field for each attribution value. Prefixed so they never match
+ * the lead's own field aliases (a hidden "suburb" would fill in the visitor's)
+ */
+export const ATTRIBUTION_FIELDS = {
+  pageUrl: 'attr_page_url',
+  locationSlug: 'attr_location_slug',
+  suburb: 'attr_suburb',
+  serviceSlug: 'attr_service_slug',
+  referrer: 'attr_referrer',
+  firstTouchPage: 'attr_first_touch_page',
+  firstTouchAt: 'attr_first_touch_at',
+  lastTouchPage: 'attr_last_touch_page',
+  lastTouchAt: 'attr_last_touch_at',
+} as const;
+
+const MAX_LENGTH = 500;
+
+// URL.canParse is missing before Safari 17, and this runs in the browser
+function parseUrl(value: string): URL | undefined {
+  try {
+    return new URL(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The touch for a page view when it starts a visit: its path, UTM parameters
+ * and an external referrer. A page view carrying UTM parameters always
+ * starts a new touch, so a second campaign click in the same visit counts.
+ */
+export function touchFor(url: URL, referrer: string, at: Date): Touch {
+  const utm = Object.fromEntries(UTM_PARAMETERS
+    .map((parameter) => [parameter, url.searchParams.get(parameter)?.trim()])
+    .filter(([, value]) => value)) as Touch['utm'];
+  const referrerUrl = parseUrl(referrer);
+  const external = referrerUrl !== undefined && referrerUrl.host !== url.host;
+  return {
+    page: url.pathname + url.search,
+    at: at.toISOString(),
+    ...(external && { referrer }),
+    ...(utm && Object.keys(utm).length > 0 && { utm }),
+  };
+}
+
+/**
+ * Hidden field values for a form on this page
+ */
+export function attributionFields(page: PageAttribution, pageUrl: string, first?: Touch, last?: Touch): Record<string, string> {
+  const values: Record<string, string | undefined> = {
+    [ATTRIBUTION_FIELDS.pageUrl]: pageUrl,
+    [ATTRIBUTION_FIELDS.locationSlug]: page.locationSlug,
+    [ATTRIBUTION_FIELDS.suburb]: page.suburb,
+    [ATTRIBUTION_FIELDS.serviceSlug]: page.serviceSlug,
+    [ATTRIBUTION_FIELDS.referrer]: last?.referrer ?? first?.referrer,
+    [ATTRIBUTION_FIELDS.firstTouchPage]: first?.page,
+    [ATTRIBUTION_FIELDS.firstTouchAt]: first?.at,
+    [ATTRIBUTION_FIELDS.lastTouchPage]: last?.page,
+    [ATTRIBUTION_FIELDS.lastTouchAt]: last?.at,
+    ...(last?.utm ?? first?.utm),
+  };
+  return Object.fromEntries(Object.entries(values).filter((entry): entry is [string, string] => Boolean(entry[1])));
+}
+
+/**
+ * Read the attribution back out of submitted form fields. Values are trimmed
+ * and capped; pages must be site paths and the referrer an http(s) URL.
+ */
+export function parseAttribution(fields: Record<string, string>): LeadAttribution | undefined {
+  const text = (name: string) => fields[name]?.trim().slice(0, MAX_LENGTH) || undefined;
+  const sitePath = (name: string) => {
+    const value = text(name);
+    return value?.startsWith('/') && !value.startsWith('//') ? value : undefined;
+  };
+  const time = (name: string) => {
+    const value = text(name);
+    return value && !Number.isNaN(Date.parse(value)) ? new Date(value).toISOString() : undefined;
+  };
+  const referrer = text(ATTRIBUTION_FIELDS.referrer);
+  const utm = Object.fromEntries(UTM_PARAMETERS
+    .map((parameter) => [parameter, text(parameter)])
+    .filter(([, value]) => value));
+  const firstTouchPage = sitePath(ATTRIBUTION_FIELDS.firstTouchPage);
+  const lastTouchPage = sitePath(ATTRIBUTION_FIELDS.lastTouchPage);
+
+  const attribution: LeadAttribution = {
+    pageUrl: sitePath(ATTRIBUTION_FIELDS.pageUrl),
+    locationSlug: text(ATTRIBUTION_FIELDS.locationSlug),
+    suburb: text(ATTRIBUTION_FIELDS.suburb),
+    serviceSlug: text(ATTRIBUTION_FIELDS.serviceSlug),
+    utm: Object.keys(utm).length > 0 ? utm : undefined,
+    referrer: referrer && /^https?:\/\//i.test(referrer) && parseUrl(referrer) ? referrer : undefined,
+    firstTouch: firstTouchPage ? { page: firstTouchPage, at: time(ATTRIBUTION_FIELDS.firstTouchAt) } : undefined,
+    lastTouch: lastTouchPage ? { page: lastTouchPage, at: time(ATTRIBUTION_FIELDS.lastTouchAt) } : undefined,
+  };
+  const given = Object.entries(attribution).filter(([, value]) => value !== undefined);
+  return given.length > 0 ? Object.fromEntries(given) as LeadAttribution : undefined;
+}
+
+/**
+ * One-line summary for emails and spreadsheets, e.g.
+ * "google / cpc (spring-sale), landed on /services/tile-roof-cleaning"
+ */
+export function describeAttribution(attribution: LeadAttribution): string {
+  const source = attribution.utm?.utm_source
+    ? `${attribution.utm.utm_source}${attribution.utm.utm_medium ? ` / ${attribution.utm.utm_medium}` : ''}${attribution.utm.utm_campaign ? ` (${attribution.utm.utm_campaign})` : ''}`
+    : (attribution.referrer && parseUrl(attribution.referrer)?.host) || 'direct';
+  const landing = attribution.lastTouch?.page ?? attribution.firstTouch?.page;
+  return landing ? `${source}, landed on ${landing.split('?')[0]}` : source;
+}
@@ -0,0 +1,309 @@
+/**
+ * Lead Delivery
+ * Where a quote request goes once it has been validated: a JSON Lines or CSV
+ * file, an email through SMTP, a webhook. Deliveries run in order and a lead
+ * counts as received when at least one of them succeeds. Server-side only.
+ *
+ * The chain is configured from environment variables (see .env.example), so
+ * the same code runs in the Netlify function and the local function server.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { createHmac } from 'node:crypto';
+import type { LeadRecord } from './lead-schema';
+import { describeAttribution, UTM_PARAMETERS } from './lead-attribution';
+import { buildBookingCalendar, describeSlot } from './booking';
+import { sendMail, type EmailAttachment, type SmtpOptions } from './smtp';
+
+export interface LeadDelivery {
+  name: string;
+  /** Spam-scored leads are only passed to deliveries that keep them for review */
+  acceptsSpam?: boolean;
+  deliver(lead: LeadRecord): Promise<void>;
+}
+
+export interface DeliveryResult {
+  name: string;
+  ok: boolean;
+  error?: string;
+}
+
+const CSV_COLUMNS: Array<keyof LeadRecord> = [
+  'receivedAt', 'id', 'name', 'phone', 'email', 'suburb', 'service', 'roofType', 'message', 'page', 'spamScore', 'spamReasons',
+];
+
+/** Attribution columns, after the lead's own */
+const CSV_ATTRIBUTION_COLUMNS: Record<string, (lead: LeadRecord) => string | undefined> = {
+  locationSlug: (lead) => lead.attribution?.locationSlug,
+  pageSuburb: (lead) => lead.attribution?.suburb,
+  serviceSlug: (lead) => lead.attribution?.serviceSlug,
+  ...Object.fromEntries(UTM_PARAMETERS.map((parameter) => [parameter, (lead: LeadRecord) => lead.attribution?.utm?.[parameter]])),
+  referrer: (lead) => lead.attribution?.referrer,
+  firstTouchPage: (lead) => lead.attribution?.firstTouch?.page,
+  firstTouchAt: (lead) => lead.attribution?.firstTouch?.at,
+  lastTouchPage: (lead) => lead.attribution?.lastTouch?.page,
+  lastTouchAt: (lead) => lead.attribution?.lastTouch?.at,
+};
+
+/** Booking columns, after the attribution */
+const CSV_BOOKING_COLUMNS: Record<string, (lead: LeadRecord) => string | undefined> = {
+  streetAddress: (lead) => lead.booking?.streetAddress,
+  propertyType: (lead) => lead.booking?.propertyType,
+  storeys: (lead) => lead.booking?.storeys,
+  preferredTimes: (lead) => lead.booking?.preferences.map((slot) => `${slot.date} ${slot.start}-${slot.end}`).join('; '),
+};
+
+/**
+ * A CSV field. Text a spreadsheet would read as a formula (=, +, -, @, or a
+ * leading tab or CR) is prefixed with ' so a visitor's input stays text.
+ */
+function csvCell(value: unknown): string {
+  const raw = Array.isArray(value) ? value.join('; ') : value === undefined || value === null ? '' : String(value);
+  const text = /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Append each lead to a file: one JSON object per line, or a CSV row (the
+ * header is written when the file is created)
+ */
+export function createFileDelivery(options: { file: string; format?: 'jsonl' | 'csv' }): LeadDelivery {
+  const format = options.format ?? (options.file.endsWith('.csv') ? 'csv' : 'jsonl');
+  return {
+    name: `file (${options.file})`,
+    acceptsSpam: true,
+    async deliver(lead) {
+      await fs.mkdir(path.dirname(options.file), { recursive: true });
+      if (format === 'jsonl') {
+        await fs.appendFile(options.file, JSON.stringify(lead) + '\n');
+        return;
+      }
+      const exists = await fs.stat(options.file).then(() => true, () => false);
+      const header = [...CSV_COLUMNS, ...Object.keys(CSV_ATTRIBUTION_COLUMNS), ...Object.keys(CSV_BOOKING_COLUMNS)].join(',');
+      const row = [
+        ...CSV_COLUMNS.map((column) => csvCell(lead[column])),
+        ...Object.values(CSV_ATTRIBUTION_COLUMNS).map((value) => csvCell(value(lead))),
+        ...Object.values(CSV_BOOKING_COLUMNS).map((value) => csvCell(value(lead))),
+      ].join(',');
+      await fs.appendFile(options.file, `${exists ? '' : header + '\n'}${row}\n`);
+    },
+  };
+}
+
+/**
+ * A booking request's calendar file as an email attachment
+ */
+function bookingAttachments(lead: LeadRecord, options: { businessName?: string; phone?: string; customerCopy?: boolean } = {}): EmailAttachment[] | undefined {
+  if (!lead.booking) return undefined;
+  return [{
+    filename: 'booking-request.ics',
+    contentType: 'text/calendar; charset=utf-8; method=PUBLISH',
+    content: buildBookingCalendar({ ...lead, booking: lead.booking }, options),
+  }];
+}
+
+/**
+ * The notification email for a lead. Booking requests list the property and
+ * preferred times and attach the requested time as a calendar file.
+ */
+export function formatLeadEmail(lead: LeadRecord, businessName?: string): { subject: string; text: string; attachments?: EmailAttachment[] } {
+  const rows: Array<[string, string | undefined]> = [
+    ['Name', lead.name],
+    ['Phone', lead.phone],
+    ['Email', lead.email],
+    ['Suburb', lead.suburb],
+    ['Address', lead.booking?.streetAddress],
+    ['Property', [lead.booking?.propertyType, lead.booking?.storeys].filter(Boolean).join(', ')],
+    ['Service', lead.service],
+    ['Roof type', lead.roofType],
+    ...(lead.booking?.preferences ?? []).map((slot, i): [string, string] => [`Preferred time ${i + 1}`, describeSlot(slot)]),
+    ['Page', lead.page],
+    ['Source', lead.attribution && describeAttribution(lead.attribution)],
+    ['First visit', lead.attribution?.firstTouch && `${lead.attribution.firstTouch.page}${lead.attribution.firstTouch.at ? ` (${lead.attribution.firstTouch.at})` : ''}`],
+  ];
+  const details = rows.filter(([, value]) => value).map(([label, value]) => `${label}: ${value}`).join('\n');
+  return {
+    subject: `New ${lead.booking ? 'booking' : 'quote'} request: ${lead.name}, ${lead.suburb}${businessName ? ` (${businessName})` : ''}`,
+    text: `${details}\n\n${lead.message ? `Message:\n${lead.message}\n\n` : ''}Received ${lead.receivedAt} (lead ${lead.id})\n`,
+    ...(lead.booking && { attachments: bookingAttachments(lead, { businessName }) }),
+  };
+}
+
+/**
+ * The email confirming a booking request to the customer, with the
+ * requested time as a calendar file. It goes to whatever address the visitor
+ * typed, so nothing else they typed (name, address, service, message) is in
+ * it: only the business, the times they picked and the reference.
+ */
+export function formatBookingConfirmation(lead: LeadRecord, businessName?: string, phone?: string): { subject: string; text: string; attachments?: EmailAttachment[] } {
+  const preferences = (lead.booking?.preferences ?? []).map((slot, i) => `${i + 1}. ${describeSlot(slot)}`).join('\n');
+  const text = [
+    `Thanks for your booking request${businessName ? ` with ${businessName}` : ''}. We'll call you to confirm a time.`,
+    `You asked for:\n${preferences}`,
+    `Your reference: ${lead.id.slice(0, 8).toUpperCase()}`,
+    'The attached calendar file holds your first choice until we confirm it.',
+    ...(phone ? [`Questions? Call us on ${phone}.`] : []),
+  ].join('\n\n');
+  return {
+    subject: `Your booking request${businessName ? ` with ${businessName}` : ''}`,
+    text: `${text}\n`,
+    attachments: bookingAttachments(lead, { businessName, phone, customerCopy: true }),
+  };
+}
+
+/**
+ * Email each lead, with Reply-To set to the customer when they gave an email
+ */
+export function createEmailDelivery(options: { smtp: SmtpOptions; from: string; to: string[]; businessName?: string }): LeadDelivery {
+  return {
+    name: `email (${options.to.join(', ')})`,
+    async deliver(lead) {
+      await sendMail(options.smtp, {
+        from: options.from,
+        to: options.to,
+        replyTo: lead.email,
+        ...formatLeadEmail(lead, options.businessName),
+      });
+    },
+  };
+}
+
+/**
+ * Email booking requests back to the customer, with Reply-To set to the business
+ */
+export function createBookingConfirmation(options: { smtp: SmtpOptions; from: string; replyTo?: string; businessName?: string; phone?: string }): (lead: LeadRecord) => Promise<void> {
+  return async (lead) => {
+    if (!lead.booking || !lead.email) return;
+    await sendMail(options.smtp, {
+      from: options.from,
+      to: [lead.email],
+      replyTo: options.replyTo,
+      ...formatBookingConfirmation(lead, options.businessName, options.phone),
+    });
+  };
+}
+
+/**
+ * POST each lead as JSON. With a secret, the body is signed in
+ * X-Lead-Signature ("sha256=<hex HMAC of the body>")
+ */
+export function createWebhookDelivery(options: { url: string; secret?: string; timeoutMs?: number }): LeadDelivery {
+  return {
+    name: `webhook (${new URL(options.url).host})`,
+    async deliver(lead) {
+      const body = JSON.stringify({ type: 'lead', lead });
+      const response = await fetch(options.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(options.secret && { 'X-Lead-Signature': `sha256=${createHmac('sha256', options.secret).update(body).digest('hex')}` }),
+        },
+        body,
+        signal: AbortSignal.timeout(options.timeoutMs ?? 10000),
+      });
+      if (!response.ok) throw new Error(`Webhook responded ${response.status} ${response.statusText}`);
+    },
+  };
+}
+
+/**
+ * Run the deliveries in order. Spam only goes to deliveries that accept it.
+ */
+export async function deliverLead(lead: LeadRecord, deliveries: LeadDelivery[], spam = false): Promise<DeliveryResult[]> {
+  const results: DeliveryResult[] = [];
+  for (const delivery of deliveries) {
+    if (spam && !delivery.acceptsSpam) continue;
+    try {
+      await delivery.deliver(lead);
+      results.push({ name: delivery.name, ok: true });
+    } catch (error) {
+      results.push({ name: delivery.name, ok: false, error: (error as Error).message });
+    }
+  }
+  return results;
+}
+
+function smtpOptions(env: Record<string, string | undefined>, setting: (key: string) => string): SmtpOptions {
+  const port = Number(env.SMTP_PORT ?? 587);
+  return {
+    host: setting('SMTP_HOST'),
+    port,
+    secure: env.SMTP_SECURE ? env.SMTP_SECURE === 'true' : port === 465,
+    user: env.SMTP_USER,
+    pass: env.SMTP_PASS,
+  };
+}
+
+/** Running as a deployed Netlify function, not under `netlify dev`, functions:serve or a test */
+function isDeployed(env: Record<string, string | undefined>): boolean {
+  return !env.NETLIFY_DEV && Boolean(env.NETLIFY || env.CONTEXT || env.AWS_LAMBDA_FUNCTION_NAME);
+}
+
+/**
+ * The delivery chain named in LEAD_DELIVERY ("file,email,webhook"), each
+ * configured from its own variables. Throws when a named delivery is missing
+ * its settings, so a misconfigured deploy fails loudly instead of dropping leads.
+ * Locally LEAD_DELIVERY defaults to the file; deployed, it must be set and
+ * include email or webhook, since a function's files don't outlive it.
+ */
+export function getLeadDeliveries(env: Record<string, string | undefined>): LeadDelivery[] {
+  const deployed = isDeployed(env);
+  if (deployed && !env.LEAD_DELIVERY?.trim()) {
+    throw new Error('LEAD_DELIVERY is not set: set it to email and/or webhook with their settings (see .env.example)');
+  }
+  const names = (env.LEAD_DELIVERY ?? 'file').split(',').map((name) => name.trim().toLowerCase()).filter(Boolean);
+  if (deployed && names.every((name) => name === 'file')) {
+    throw new Error(`LEAD_DELIVERY=${names.join(',')} would lose every lead: files written by a Netlify function don't persist, so add email or webhook`);
+  }
+  const setting = (key: string) => {
+    const value = env[key]?.trim();
+    if (!value) throw new Error(`${key} is required for LEAD_DELIVERY=${names.join(',')}`);
+    return value;
+  };
+
+  return names.map((name): LeadDelivery => {
+    switch (name) {
+      case 'file':
+        return createFileDelivery({
+          file: env.LEAD_FILE?.trim() || 'data/leads.jsonl',
+          format: env.LEAD_FILE_FORMAT === 'csv' || env.LEAD_FILE_FORMAT === 'jsonl' ? env.LEAD_FILE_FORMAT : undefined,
+        });
+      case 'email':
+        return createEmailDelivery({
+          smtp: smtpOptions(env, setting),
+          from: setting('LEAD_EMAIL_FROM'),
+          to: setting('LEAD_EMAIL_TO').split(',').map((address) => address.trim()),
+          businessName: env.LEAD_BUSINESS_NAME,
+        });
+      case 'webhook':
+        return createWebhookDelivery({ url: setting('LEAD_WEBHOOK_URL'), secret: env.LEAD_WEBHOOK_SECRET });
+      default:
+        throw new Error(`Unknown lead delivery "${name}" in LEAD_DELIVERY (use file, email or webhook)`);
+    }
+  });
+}
+
+/**
+ * The customer confirmation for booking requests when LEAD_CONFIRM_BOOKINGS
+ * is "true", sent through the same SMTP server and From address as the lead
+ * emails (undefined otherwise). Throws when those settings are missing.
+ */
+export function getBookingConfirmation(
+  env: Record<string, string | undefined>,
+  details: { businessName?: string; phone?: string } = {}
+): ((lead: LeadRecord) => Promise<void>) | undefined {
+  if (env.LEAD_CONFIRM_BOOKINGS !== 'true') return undefined;
+  const setting = (key: string) => {
+    const value = env[key]?.trim();
+    if (!value) throw new Error(`${key} is required for LEAD_CONFIRM_BOOKINGS=true`);
+    return value;
+  };
+  return createBookingConfirmation({
+    smtp: smtpOptions(env, setting),
+    from: setting('LEAD_EMAIL_FROM'),
+    replyTo: env.LEAD_EMAIL_TO?.split(',')[0]?.trim() || undefined,
+    businessName: env.LEAD_BUSINESS_NAME ?? details.businessName,
+    phone: details.phone,
+  });
+}
@@ -0,0 +1,276 @@
+/**
+ * Lead Handler
+ * The quote request endpoint as a web-standard Request → Response function,
+ * shared by the Netlify function (netlify/functions/quote.ts) and the local
+ * function server (scripts/serve-functions.ts).
+ *
+ * Plain form posts are redirected to the thank-you page (or answered with a
+ * short error page); requests that ask for JSON get JSON back, including the
+ * thank-you URL. That URL carries the lead id and the page's location and
+ * service slugs for conversion tracking, never the visitor's details.
+ *
+ * GET returns a signed form token for the quote form script, and whether
+ * posts need one (a form secret is set), so the script can tell a missing
+ * secret from a failed fetch. Requests are rate limited per client IP; rate-limited, too-fast and (with a form
+ * secret) forged-token or tokenless requests are rejected and logged with
+ * the reason.
+ *
+ * Booking requests (request_type=booking, from the BookingRequest section)
+ * are leads with a property address and preferred times. The times are
+ * checked against the booking rules and the suburb against the service area,
+ * and the JSON reply carries an .ics calendar file of the requested time.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { validateLead, type LeadRecord } from './lead-schema';
+import { DEFAULT_SPAM_SETTINGS, FORM_TOKEN_FIELD, HONEYPOT_FIELD, scoreLeadSpam, STARTED_AT_FIELD, type SpamSettings } from './lead-spam';
+import { deliverLead, type LeadDelivery } from './lead-delivery';
+import { parseAttribution } from './lead-attribution';
+import { checkFormToken, issueFormToken } from './form-token';
+import { createRateLimiter, type RateLimitOptions } from './rate-limit';
+import { buildBookingCalendar, parseBookingRequest, type BookingSettings } from './booking';
+import type { HoursModel } from './business-hours';
+
+export interface LeadBookingOptions {
+  settings: BookingSettings;
+  hours: HoursModel;
+  /** Whether we service a suburb. Bookings elsewhere are turned back (quote requests aren't) */
+  isServiced?: (suburb: string) => boolean;
+  /** Shown in the calendar file and the out-of-area message */
+  businessName?: string;
+  phone?: string;
+}
+
+export interface LeadHandlerOptions {
+  deliveries: LeadDelivery[];
+  /** Spam threshold, timing, rate limit and content rules (forms.spam in business.yaml) */
+  spam?: SpamSettings;
+  /** Signs form tokens. Without it forms are timed by their own form_started_at field */
+  formSecret?: string;
+  /** Booking rules. Without them booking fields are ignored and the lead is a quote request */
+  booking?: LeadBookingOptions;
+  /**
+   * Sends the customer a confirmation of their booking request, after the lead
+   * is delivered and only when it isn't spam, at most CONFIRMATION_RATE_LIMIT
+   * times per address
+   */
+  confirmBooking?: (lead: LeadRecord) => Promise<void>;
+  /** Where plain form posts go after a lead is accepted */
+  redirectTo?: string;
+  /** Request body limit in bytes */
+  maxBodyBytes?: number;
+  now?: () => Date;
+  log?: (message: string) => void;
+}
+
+/** What the platform knows about the request (Netlify passes its context) */
+export interface LeadRequestContext {
+  ip?: string;
+}
+
+const MAX_BODY_BYTES = 32 * 1024;
+
+/** Booking confirmations to one email address, so the form can't be used to mail someone else */
+const CONFIRMATION_RATE_LIMIT: RateLimitOptions = { maxRequests: 3, windowMs: 24 * 60 * 60 * 1000 };
+
+class RequestError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+async function readFields(request: Request, maxBytes: number): Promise<Record<string, string>> {
+  const length = Number(request.headers.get('content-length') ?? 0);
+  if (length > maxBytes) throw new RequestError(413, 'Request too large');
+
+  const type = request.headers.get('content-type') ?? '';
+  if (type.includes('application/json')) {
+    const body = await request.text();
+    if (body.length > maxBytes) throw new RequestError(413, 'Request too large');
+    let data: unknown;
+    try {
+      data = JSON.parse(body);
+    } catch {
+      throw new RequestError(400, 'Invalid JSON');
+    }
+    if (!data || typeof data !== 'object' || Array.isArray(data)) throw new RequestError(400, 'Expected a JSON object');
+    return Object.fromEntries(Object.entries(data).map(([key, value]) => [key, value === null || value === undefined ? '' : String(value)]));
+  }
+  if (type.includes('application/x-www-form-urlencoded') || type.includes('multipart/form-data')) {
+    const form = await request.formData();
+    return Object.fromEntries([...form.entries()].flatMap(([key, value]) => typeof value === 'string' ? [[key, value]] : []));
+  }
+  throw new RequestError(415, 'Send the form as application/x-www-form-urlencoded, multipart/form-data or JSON');
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+function errorPage(status: number, title: string, problems: string[]): Response {
+  const items = problems.map((problem) => `<li>${escapeHtml(problem)}</li>`).join('');
+  return new Response(
+    `<!doctype html><meta charset="utf-8"><title>${escapeHtml(title)}</title>` +
+    `<h1>${escapeHtml(title)}</h1>${items ? `<ul>${items}</ul>` : ''}<p><a href="javascript:history.back()">Go back</a></p>`,
+    { status, headers: { 'Content-Type': 'text/html; charset=utf-8' } }
+  );
+}
+
+/**
+ * Request handler for quote form posts
+ */
+export function createLeadHandler(options: LeadHandlerOptions): (request: Request, context?: LeadRequestContext) => Promise<Response> {
+  const {
+    deliveries,
+    spam: settings = DEFAULT_SPAM_SETTINGS,
+    formSecret,
+    booking,
+    confirmBooking,
+    redirectTo = '/thank-you',
+    maxBodyBytes = MAX_BODY_BYTES,
+    now = () => new Date(),
+    log = (message) => console.log(message),
+  } = options;
+  const rateLimiter = createRateLimiter(settings.rateLimit);
+  const confirmationLimiter = createRateLimiter(CONFIRMATION_RATE_LIMIT);
+
+  return async (request, context = {}) => {
+    const wantsJson = (request.headers.get('accept') ?? '').includes('application/json');
+    const reply = (status: number, body: Record<string, unknown>, problems: string[] = []) => wantsJson
+      ? Response.json(body, { status })
+      : errorPage(status, status >= 500 ? 'Sorry, your request could not be sent' : 'Please check your details', problems);
+    const accepted = (lead?: LeadRecord) => {
+      const thankYou = new URL(redirectTo, request.url);
+      for (const [key, value] of Object.entries({
+        lead: lead?.id,
+        location: lead?.attribution?.locationSlug,
+        service: lead?.attribution?.serviceSlug,
+        type: lead?.booking && 'booking',
+      })) {
+        if (value) thankYou.searchParams.set(key, value);
+      }
+      const calendar = lead?.booking && buildBookingCalendar({ ...lead, booking: lead.booking }, {
+        businessName: booking?.businessName,
+        phone: booking?.phone,
+        domain: new URL(request.url).hostname,
+      });
+      return wantsJson
+        ? Response.json({ ok: true, id: lead?.id, redirect: thankYou.pathname + thankYou.search, ...(calendar && { calendar }) })
+        : new Response(null, { status: 303, headers: { Location: thankYou.href } });
+    };
+
+    if (request.method === 'GET') {
+      return Response.json(
+        { token: formSecret ? issueFormToken(formSecret, now().getTime()) : null, required: Boolean(formSecret) },
+        { headers: { 'Cache-Control': 'no-store' } }
+      );
+    }
+    if (request.method !== 'POST') {
+      return new Response('Method not allowed', { status: 405, headers: { Allow: 'GET, POST' } });
+    }
+
+    // Netlify's context.ip, or its client IP header. X-Forwarded-For is not trusted: clients can set it
+    const ip = context.ip ?? request.headers.get('x-nf-client-connection-ip') ?? undefined;
+    const referer = URL.canParse(request.headers.get('referer') ?? '') ? new URL(request.headers.get('referer')!) : undefined;
+    const rejected = (reason: string) => log(`🚫 Rejected quote request from ${ip ?? 'unknown IP'}${referer ? ` on ${referer.pathname}` : ''}: ${reason}`);
+
+    if (ip) {
+      const limit = rateLimiter.hit(ip, now().getTime());
+      if (!limit.allowed) {
+        const minutes = Math.round(settings.rateLimit.windowMs / 60000);
+        rejected(`more than ${settings.rateLimit.maxRequests} requests in ${minutes} minute${minutes === 1 ? '' : 's'}`);
+        const retryAfter = String(Math.ceil(limit.retryAfterMs / 1000));
+        const response = reply(429, { ok: false, error: 'Too many requests' }, ['Too many quote requests. Please wait a few minutes, or give us a call.']);
+        response.headers.set('Retry-After', retryAfter);
+        return response;
+      }
+    }
+
+    let fields: Record<string, string>;
+    try {
+      fields = await readFields(request, maxBodyBytes);
+    } catch (error) {
+      if (error instanceof RequestError) return reply(error.status, { ok: false, error: error.message }, [error.message]);
+      throw error;
+    }
+
+    const validation = validateLead(fields);
+    const bookingRequest = booking && parseBookingRequest(fields, booking.settings, booking.hours, now());
+    const errors: Record<string, string | undefined> = {
+      ...(!validation.ok && validation.errors),
+      ...(bookingRequest && !bookingRequest.ok && bookingRequest.errors),
+    };
+    if (validation.ok && bookingRequest && booking.isServiced && !booking.isServiced(validation.lead.suburb)) {
+      errors.suburb = `Sorry, we don't take bookings in ${validation.lead.suburb}. Send us a quote request instead${booking.phone ? ` or call ${booking.phone}` : ''}`;
+    }
+    if (!validation.ok || Object.keys(errors).length > 0) {
+      // A filled honeypot is a bot whatever else it sent: don't tell it what went wrong
+      if (fields[HONEYPOT_FIELD]?.trim()) return accepted();
+      return reply(422, { ok: false, errors }, Object.values(errors) as string[]);
+    }
+
+    const receivedAt = now();
+    const formToken = formSecret
+      ? checkFormToken(fields[FORM_TOKEN_FIELD], formSecret, receivedAt.getTime(), settings.tokenMaxAgeMs)
+      : undefined;
+    // Only a bot forges or leaves out the token the form script fetches: it gets the same answer as an accepted lead
+    if (formToken?.status === 'invalid' || formToken?.status === 'missing') {
+      rejected(`${formToken.status === 'missing' ? 'no' : 'invalid'} form token`);
+      return accepted();
+    }
+    if (formToken?.status === 'valid' && formToken.ageMs < settings.minFillMs) {
+      rejected(`form sent ${Math.round(formToken.ageMs / 1000)}s after it was shown`);
+      return reply(422, { ok: false, errors: { form: 'Please check your details and send the form again' } },
+        ['Please check your details and send the form again.']);
+    }
+
+    const startedAt = Number(fields[STARTED_AT_FIELD]);
+    const spam = scoreLeadSpam(validation.lead, {
+      honeypot: fields[HONEYPOT_FIELD],
+      startedAt: Number.isFinite(startedAt) && startedAt > 0 ? startedAt : undefined,
+      receivedAt: receivedAt.getTime(),
+      formToken,
+    }, settings);
+    const attribution = parseAttribution(fields);
+    const lead: LeadRecord = {
+      id: randomUUID(),
+      receivedAt: receivedAt.toISOString(),
+      ...validation.lead,
+      // The page the form script recorded, or the Referer for forms posted without it
+      page: attribution?.pageUrl?.split('?')[0] ?? referer?.pathname,
+      spamScore: spam.score,
+      spamReasons: spam.reasons,
+      ...(attribution && { attribution }),
+      ...(bookingRequest?.ok && { booking: bookingRequest.booking }),
+    };
+    const isSpam = spam.score >= settings.threshold;
+
+    const results = await deliverLead(lead, deliveries, isSpam);
+    for (const result of results) {
+      log(`${result.ok ? '✅' : '❌'} Lead ${lead.id} → ${result.name}${result.error ? `: ${result.error}` : ''}`);
+    }
+
+    // Spam looks accepted so bots learn nothing
+    if (isSpam) {
+      log(`🚫 Lead ${lead.id} scored ${spam.score} as spam (${spam.reasons.join('; ')})`);
+      return accepted(lead);
+    }
+    if (!results.some((result) => result.ok)) {
+      return reply(502, { ok: false, error: 'The quote request could not be delivered' }, ['Please try again in a few minutes, or give us a call.']);
+    }
+    // Best effort: the business has the lead, so a failed confirmation doesn't fail the request
+    if (lead.booking && lead.email && confirmBooking) {
+      if (!confirmationLimiter.hit(lead.email.toLowerCase(), now().getTime()).allowed) {
+        log(`⏭️  Lead ${lead.id} → no booking confirmation: that address has had ${CONFIRMATION_RATE_LIMIT.maxRequests} today`);
+        return accepted(lead);
+      }
+      try {
+        await confirmBooking(lead);
+        log(`✅ Lead ${lead.id} → booking confirmation to the customer`);
+      } catch (error) {
+        log(`❌ Lead ${lead.id} → booking confirmation to the customer: ${(error as Error).message}`);
+      }
+    }
+    return accepted(lead);
+  };
+}
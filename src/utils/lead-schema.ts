@@ -0,0 +1,121 @@
+/**
+ * Lead Schema
+ * The quote request a visitor sends from the QuoteForm / HeroWithForm
+ * sections, validated on the server by the quote function
+ * (netlify/functions/quote.ts). Field names are matched loosely because the
+ * package forms and hand-written forms name them differently.
+ */
+
+import { z } from 'astro/zod';
+import type { LeadAttribution } from './lead-attribution';
+import type { BookingRequest } from './booking';
+
+export const ROOF_TYPES = ['tile', 'metal', 'colorbond', 'terracotta', 'slate', 'other', 'unsure'] as const;
+
+export type RoofType = typeof ROOF_TYPES[number];
+
+/** Form field names accepted for each lead field (lowercased, without - and _) */
+const FIELD_ALIASES: Record<keyof LeadInput, string[]> = {
+  name: ['name', 'fullname', 'yourname', 'firstname'],
+  phone: ['phone', 'phonenumber', 'mobile', 'tel', 'telephone'],
+  email: ['email', 'emailaddress'],
+  suburb: ['suburb', 'location', 'address', 'postcode', 'area'],
+  service: ['service', 'services', 'servicetype', 'serviceneeded'],
+  roofType: ['rooftype', 'roof', 'roofmaterial'],
+  message: ['message', 'comments', 'details', 'description', 'notes'],
+};
+
+/**
+ * Australian phone numbers: 10 digits starting 0, or +61 with the leading 0
+ * dropped ("0412 345 678", "+61 7 5230 7381")
+ */
+function normalisePhone(value: string): string | undefined {
+  const digits = value.replace(/[\s()\-.]/g, '');
+  const local = digits.startsWith('+61') ? `0${digits.slice(3)}` : digits.startsWith('61') && digits.length === 11 ? `0${digits.slice(2)}` : digits;
+  return /^0[2-478]\d{8}$/.test(local) || /^1[38]00\d{6}$/.test(local) || /^13\d{4}$/.test(local) ? local : undefined;
+}
+
+function normaliseRoofType(value: string): string {
+  const roofType = value.trim().toLowerCase();
+  if (/colou?rbond/.test(roofType)) return 'colorbond';
+  if (/tin|steel|iron|metal/.test(roofType)) return 'metal';
+  if (/terracotta/.test(roofType)) return 'terracotta';
+  if (/tile/.test(roofType)) return 'tile';
+  if (/not sure|unsure|don.?t know/.test(roofType)) return 'unsure';
+  return roofType;
+}
+
+/** Blank optional fields count as not given */
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess((value) => typeof value === 'string' && !value.trim() ? undefined : value, schema.optional());
+
+const optionalText = (max: number) => optional(z.string().trim().max(max, `Must be ${max} characters or fewer`));
+
+export const leadSchema = z.object({
+  name: z.string().trim().min(2, 'Please enter your name').max(100, 'Must be 100 characters or fewer'),
+  phone: z.string().trim().min(1, 'Please enter your phone number').transform((value, ctx) => {
+    const phone = normalisePhone(value);
+    if (!phone) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Please enter an Australian phone number' });
+      return z.NEVER;
+    }
+    return phone;
+  }),
+  email: optional(z.string().trim().max(200).email('Please enter a valid email address')),
+  suburb: z.string().trim().min(2, 'Please enter your suburb').max(100, 'Must be 100 characters or fewer'),
+  service: optionalText(100),
+  roofType: optional(z.string().transform(normaliseRoofType).pipe(z.enum(ROOF_TYPES, {
+    errorMap: () => ({ message: `Must be one of ${ROOF_TYPES.join(', ')}` }),
+  }))),
+  message: optionalText(2000),
+});
+
+export type LeadInput = z.input<typeof leadSchema>;
+export type Lead = z.output<typeof leadSchema>;
+
+/** A validated lead as it is delivered and stored */
+export interface LeadRecord extends Lead {
+  id: string;
+  receivedAt: string;
+  /** 0 (clean) to 1 (certainly spam), from scoreLeadSpam */
+  spamScore: number;
+  spamReasons: string[];
+  /** Page the form was sent from */
+  page?: string;
+  /** Landing pages, UTM parameters and the page's location/service, from parseAttribution */
+  attribution?: LeadAttribution;
+  /** Property and preferred times, when sent from the booking form */
+  booking?: BookingRequest;
+}
+
+export type LeadValidation =
+  | { ok: true; lead: Lead }
+  | { ok: false; errors: Partial<Record<keyof LeadInput, string>> };
+
+/**
+ * Pick the lead fields out of submitted form fields, by any of their aliases
+ */
+export function extractLeadFields(fields: Record<string, string>): Partial<LeadInput> {
+  const byKey = new Map(Object.entries(fields).map(([key, value]) => [key.toLowerCase().replace(/[-_\s]/g, ''), value]));
+  const lead: Partial<Record<keyof LeadInput, string>> = {};
+  for (const [field, aliases] of Object.entries(FIELD_ALIASES) as Array<[keyof LeadInput, string[]]>) {
+    const alias = aliases.find((candidate) => byKey.get(candidate)?.trim());
+    if (alias) lead[field] = byKey.get(alias);
+  }
+  return lead;
+}
+
+/**
+ * Validate submitted form fields, with one message per invalid field
+ */
+export function validateLead(fields: Record<string, string>): LeadValidation {
+  const result = leadSchema.safeParse(extractLeadFields(fields));
+  if (result.success) return { ok: true, lead: result.data };
+
+  const errors: Partial<Record<keyof LeadInput, string>> = {};
+  for (const issue of result.error.issues) {
+    const field = issue.path[0] as keyof LeadInput;
+    errors[field] ??= issue.message === 'Required' ? 'This field is required' : issue.message;
+  }
+  return { ok: false, errors };
+}
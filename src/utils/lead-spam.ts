@@ -0,0 +1,150 @@
+/**
+ * Lead Spam Scoring
+ * Scores a quote request from 0 (looks genuine) to 1 (certainly spam) from
+ * the honeypot field, how fast the form was filled in and the content itself
+ * (links, spam phrases, disposable email domains). Leads at or above the
+ * threshold are stored but not emailed or posted on.
+ *
+ * The thresholds come from forms.spam in business.yaml (getSpamSettings).
+ * Also imported by the quote form script for the field names, so it only
+ * has type imports.
+ */
+
+import type { Lead } from './lead-schema';
+import type { BusinessConfig } from '../config/business-schema';
+import type { FormTokenCheck } from './form-token';
+
+/** Hidden field bots fill in and people never see (added by the quote form script) */
+export const HONEYPOT_FIELD = 'company_website';
+/** Milliseconds since the form was shown, set by the quote form script */
+export const STARTED_AT_FIELD = 'form_started_at';
+/** Signed form token from GET /api/quote (form-token.ts), set by the quote form script */
+export const FORM_TOKEN_FIELD = 'form_token';
+
+export interface SpamSettings {
+  /** Leads scoring at or above this are treated as spam */
+  threshold: number;
+  /** Faster than this, nobody typed the form in */
+  minFillMs: number;
+  /** Form tokens older than this count as missing */
+  tokenMaxAgeMs: number;
+  /** Links allowed in a lead before each one counts against it */
+  maxLinks: number;
+  rateLimit: { maxRequests: number; windowMs: number };
+  /** Added to the built-in lists */
+  blockedEmailDomains: string[];
+  blockedPhrases: string[];
+}
+
+export const DEFAULT_SPAM_SETTINGS: SpamSettings = {
+  threshold: 0.7,
+  minFillMs: 3000,
+  tokenMaxAgeMs: 24 * 60 * 60 * 1000,
+  maxLinks: 0,
+  rateLimit: { maxRequests: 5, windowMs: 10 * 60 * 1000 },
+  blockedEmailDomains: [],
+  blockedPhrases: [],
+};
+
+export const DEFAULT_SPAM_THRESHOLD = DEFAULT_SPAM_SETTINGS.threshold;
+
+const SPAM_PHRASES = [
+  'seo', 'backlink', 'guest post', 'crypto', 'bitcoin', 'casino', 'viagra', 'cialis', 'loan',
+  'web design', 'website traffic', 'first page of google', 'marketing services', 'dear sir',
+];
+
+/** Throwaway inbox services; subdomains match too */
+const DISPOSABLE_EMAIL_DOMAINS = [
+  'mailinator.com', 'guerrillamail.com', 'guerrillamail.net', 'sharklasers.com', '10minutemail.com', 'tempmail.com',
+  'temp-mail.org', 'tempmail.net', 'yopmail.com', 'trashmail.com', 'getnada.com', 'dispostable.com', 'maildrop.cc',
+  'throwawaymail.com', 'fakeinbox.com', 'mintemail.com', 'mohmal.com', 'emailondeck.com', 'burnermail.io',
+  'mailnesia.com', 'moakt.com', 'tempr.email', 'discard.email', 'spamgourmet.com', 'mailcatch.com',
+];
+
+/**
+ * Spam settings from forms.spam in business.yaml, over the defaults
+ */
+export function getSpamSettings(config: BusinessConfig | null): SpamSettings {
+  const spam = config?.forms.spam;
+  if (!spam) return DEFAULT_SPAM_SETTINGS;
+  return {
+    threshold: spam.threshold,
+    minFillMs: spam.min_fill_seconds * 1000,
+    tokenMaxAgeMs: spam.token_max_age_hours * 60 * 60 * 1000,
+    maxLinks: spam.max_links,
+    rateLimit: { maxRequests: spam.rate_limit.max_requests, windowMs: spam.rate_limit.window_minutes * 60 * 1000 },
+    blockedEmailDomains: spam.blocked_email_domains,
+    blockedPhrases: spam.blocked_phrases,
+  };
+}
+
+/**
+ * Whether an email address is on a throwaway inbox domain
+ */
+export function isDisposableEmail(email: string, extraDomains: string[] = []): boolean {
+  const domain = email.split('@').pop()?.trim().toLowerCase() ?? '';
+  return [...DISPOSABLE_EMAIL_DOMAINS, ...extraDomains.map((blocked) => blocked.toLowerCase())]
+    .some((blocked) => domain === blocked || domain.endsWith(`.${blocked}`));
+}
+
+export interface SpamContext {
+  /** Value of the honeypot field */
+  honeypot?: string;
+  /** When the form was shown (ms since epoch), if the script could set it */
+  startedAt?: number;
+  /** When the lead arrived (ms since epoch) */
+  receivedAt: number;
+  /**
+   * The signed form token, when form tokens are in use. A valid one times the
+   * form instead of startedAt; the handler turns away missing and invalid ones
+   */
+  formToken?: FormTokenCheck;
+}
+
+export interface SpamScore {
+  score: number;
+  reasons: string[];
+}
+
+/**
+ * Spam score and the reasons behind it
+ */
+export function scoreLeadSpam(lead: Lead, context: SpamContext, settings: SpamSettings = DEFAULT_SPAM_SETTINGS): SpamScore {
+  const reasons: string[] = [];
+  let score = 0;
+  const add = (points: number, reason: string) => {
+    score += points;
+    reasons.push(reason);
+  };
+
+  if (context.honeypot?.trim()) add(1, 'honeypot field filled in');
+
+  const token = context.formToken;
+  if (token?.status === 'expired') add(0.2, 'form token expired');
+  const elapsed = token?.status === 'valid' ? token.ageMs
+    : context.startedAt !== undefined ? context.receivedAt - context.startedAt
+    : undefined;
+  if (elapsed !== undefined && elapsed < settings.minFillMs) {
+    add(0.6, `form sent ${Math.max(0, Math.round(elapsed / 1000))}s after it was shown`);
+  }
+
+  const text = [lead.name, lead.suburb, lead.service, lead.message].filter(Boolean).join(' ');
+  const links = text.match(/https?:\/\/|www\.|\[url=|<a\s/gi)?.length ?? 0;
+  if (links > settings.maxLinks) {
+    add(Math.min(0.8, 0.4 * (links - settings.maxLinks)), `${links} link${links > 1 ? 's' : ''}`);
+  }
+
+  if (lead.email && isDisposableEmail(lead.email, settings.blockedEmailDomains)) add(0.5, 'disposable email address');
+
+  const phrases = [...SPAM_PHRASES, ...settings.blockedPhrases]
+    .filter((phrase) => new RegExp(`(?<!\\w)${phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?!\\w)`, 'i').test(text));
+  if (phrases.length > 0) add(Math.min(0.6, 0.3 * phrases.length), `spam phrases: ${phrases.join(', ')}`);
+
+  if (/(\d)\1{7,}/.test(lead.phone)) add(0.4, 'repeated digits in phone number');
+  if (lead.message && lead.message.length > 40 && lead.message === lead.message.toUpperCase() && /[A-Z]/.test(lead.message)) {
+    add(0.2, 'message in capitals');
+  }
+  if (lead.message && lead.name.trim().toLowerCase() === lead.message.trim().toLowerCase()) add(0.3, 'message repeats the name');
+
+  return { score: Math.min(1, Math.round(score * 100) / 100), reasons };
+}
@@ -0,0 +1,154 @@
+/**
+ * Nearby Suburbs
+ * Chooses the nearby suburbs each location page links to, from the distance
+ * between suburbs (haversine) rather than their distance from the service
+ * centre. Links are spread across compass directions, no suburb collects
+ * too many inbound links, and every page is linked from at least one other.
+ * scripts/check-location-links.ts checks the built pages against the same
+ * limits.
+ */
+
+export interface GeoSuburb {
+  name: string;
+  state: string;
+  latitude: number;
+  longitude: number;
+}
+
+export interface NearbyOptions {
+  /** Links per page */
+  count: number;
+  /** Inbound links per page; fuller suburbs are passed over for the next nearest */
+  maxInbound: number;
+}
+
+export const NEARBY_SUBURB_COUNT = 9;
+export const MAX_INBOUND_LINKS = NEARBY_SUBURB_COUNT * 2;
+
+const EARTH_RADIUS_KM = 6371;
+
+/** Candidates further than this multiple of the count-th nearest suburb are not linked */
+const REACH_FACTOR = 2;
+
+export function suburbKey(suburb: { name: string; state: string }): string {
+  return `${suburb.name}|${suburb.state}`;
+}
+
+export function haversineKm(a: GeoSuburb, b: GeoSuburb): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Compass sector (0 = N, 1 = NE ... 7 = NW) of `to` as seen from `from`
+ */
+export function compassSector(from: GeoSuburb, to: GeoSuburb): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const y = Math.sin(toRadians(to.longitude - from.longitude)) * Math.cos(toRadians(to.latitude));
+  const x = Math.cos(toRadians(from.latitude)) * Math.sin(toRadians(to.latitude)) -
+    Math.sin(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.cos(toRadians(to.longitude - from.longitude));
+  const bearing = (Math.atan2(y, x) * 180 / Math.PI + 360) % 360;
+  return Math.round(bearing / 45) % 8;
+}
+
+interface Candidate<T> {
+  suburb: T;
+  km: number;
+  sector: number;
+}
+
+/**
+ * Nearby suburbs for every suburb, keyed by suburbKey and nearest first
+ */
+export function buildNearbyGraph<T extends GeoSuburb>(
+  suburbs: T[],
+  options: NearbyOptions = { count: NEARBY_SUBURB_COUNT, maxInbound: MAX_INBOUND_LINKS }
+): Map<string, T[]> {
+  const { count, maxInbound } = options;
+  const inbound = new Map<T, number>(suburbs.map((suburb) => [suburb, 0]));
+  const links = new Map<T, Candidate<T>[]>();
+
+  // Candidates for each suburb, nearest first
+  const candidates = new Map<T, Candidate<T>[]>(suburbs.map((from) => [
+    from,
+    suburbs
+      .filter((to) => to !== from)
+      .map((to) => ({ suburb: to, km: haversineKm(from, to), sector: compassSector(from, to) }))
+      .sort((a, b) => a.km - b.km || a.suburb.name.localeCompare(b.suburb.name)),
+  ]));
+
+  for (const from of suburbs) {
+    const all = candidates.get(from)!;
+    const reach = (all[Math.min(count, all.length) - 1]?.km ?? 0) * REACH_FACTOR;
+    const local = all.filter((candidate) => candidate.km <= reach);
+    const chosen: Candidate<T>[] = [];
+    const take = (candidate: Candidate<T>) => {
+      chosen.push(candidate);
+      inbound.set(candidate.suburb, inbound.get(candidate.suburb)! + 1);
+    };
+
+    // Round robin over compass sectors, nearest sector first, so a page links
+    // in every direction it has neighbours in before doubling up on one.
+    // Suburbs already at maxInbound are skipped.
+    const open = (candidate: Candidate<T>) => !chosen.includes(candidate) && inbound.get(candidate.suburb)! < maxInbound;
+    const bySector = new Map<number, Candidate<T>[]>();
+    for (const candidate of local.filter(open)) {
+      bySector.set(candidate.sector, [...(bySector.get(candidate.sector) ?? []), candidate]);
+    }
+    const queues = [...bySector.values()];
+    while (chosen.length < count && queues.some((queue) => queue.length > 0)) {
+      for (const queue of queues) {
+        if (chosen.length < count && queue.length > 0) take(queue.shift()!);
+      }
+    }
+    // Local suburbs all full: the nearest ones further out
+    for (const candidate of all.filter(open)) {
+      if (chosen.length >= count) break;
+      take(candidate);
+    }
+    links.set(from, chosen);
+  }
+
+  // Orphans: swap them into a neighbour's links in place of a suburb that
+  // has inbound links to spare, nearest neighbour first
+  for (const orphan of suburbs) {
+    if (inbound.get(orphan)! > 0) continue;
+    for (const { suburb: neighbour } of candidates.get(orphan)!) {
+      const neighbourLinks = links.get(neighbour)!;
+      const candidate = candidates.get(neighbour)!.find((c) => c.suburb === orphan)!;
+      if (neighbourLinks.length < count) {
+        neighbourLinks.push(candidate);
+      } else {
+        const spare = neighbourLinks
+          .filter((link) => inbound.get(link.suburb)! > 1)
+          .sort((a, b) => b.km - a.km)[0];
+        if (!spare) continue;
+        neighbourLinks.splice(neighbourLinks.indexOf(spare), 1, candidate);
+        inbound.set(spare.suburb, inbound.get(spare.suburb)! - 1);
+      }
+      inbound.set(orphan, 1);
+      break;
+    }
+  }
+
+  return new Map(suburbs.map((suburb) => [
+    suburbKey(suburb),
+    links.get(suburb)!.sort((a, b) => a.km - b.km).map((link) => link.suburb),
+  ]));
+}
+
+/**
+ * Location pages with `nearbySuburbs` replaced by buildNearbyGraph's choice
+ * (pass every location page so inbound links are balanced across the site)
+ */
+export function withNearbySuburbs<P extends { suburb: GeoSuburb }>(
+  locationPages: P[],
+  options?: NearbyOptions
+): Array<P & { nearbySuburbs: P['suburb'][] }> {
+  const graph = buildNearbyGraph(locationPages.map((page) => page.suburb), options);
+  return locationPages.map((page) => ({ ...page, nearbySuburbs: graph.get(suburbKey(page.suburb)) ?? [] }));
+}
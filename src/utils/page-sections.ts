@@ -0,0 +1,38 @@
+/**
+ * Page Sections
+ * Renders page YAML sections like renderPageSections from
+ * @mcoster/astro-local-package, plus the section components that live in
+ * this site (src/components), so they can be used in any page YAML by name
+ */
+
+import { renderPageSections } from '@mcoster/astro-local-package/utils/page-renderer';
+import BookingRequest from '../components/BookingRequest.astro';
+import OpenStatus from '../components/OpenStatus.astro';
+import PriceEstimator from '../components/PriceEstimator.astro';
+import ServiceAreaLookup from '../components/ServiceAreaLookup.astro';
+
+type RenderArgs = Parameters<typeof renderPageSections>;
+type RenderedSections = ReturnType<typeof renderPageSections>;
+
+/** Site components by the name used in `component:` */
+export const siteSections: Record<string, unknown> = {
+  BookingRequest,
+  OpenStatus,
+  PriceEstimator,
+  ServiceAreaLookup,
+};
+
+/**
+ * Render sections in order: site components get their props run through the
+ * page's template context, everything else goes to the package renderer
+ */
+export function renderSiteSections(
+  sections: RenderArgs[0],
+  context: RenderArgs[1],
+  handlers?: RenderArgs[2]
+): RenderedSections {
+  return sections.flatMap((section: any) => section.component in siteSections
+    ? [{ Component: siteSections[section.component], props: context.process(section.props ?? {}) }]
+    : renderPageSections([section], context, handlers)
+  ) as RenderedSections;
+}
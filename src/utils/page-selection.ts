@@ -0,0 +1,29 @@
+/**
+ * Page Selection
+ * With business.yaml `service.page_selection`, the suburb export splits
+ * suburbs into full location pages (`suburbs` in suburbs.json), lightweight
+ * mentions on the /locations index (`mentions`) and suburbs left off the site
+ */
+
+import suburbsData from '../data/suburbs.json';
+
+export type PageTier = 'page' | 'mention' | 'none';
+
+export interface MentionedSuburb {
+  id: number;
+  name: string;
+  state: string;
+  postcode: string | null;
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Suburbs we service that are listed on /locations without their own page
+ * (empty unless page_selection is configured)
+ */
+export function getMentionedSuburbs(): MentionedSuburb[] {
+  return ((suburbsData as { mentions?: MentionedSuburb[] }).mentions ?? [])
+    .slice()
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -0,0 +1,258 @@
+/**
+ * Pricing
+ * Ballpark prices from the pricing section of business.yaml: a service's
+ * base rate plus its per-m² rate for the roof material (or per-panel rate)
+ * and any add-ons, times the storey and pitch multipliers, shown as a range
+ * either side and never below the minimum charge.
+ *
+ * Used by the PriceEstimator section in the browser and by the Service
+ * schema (PriceSpecification ranges), so it only has type imports.
+ */
+
+import type { BusinessConfig } from '../config/business-schema';
+
+export type RoofMaterial = 'tile' | 'metal';
+
+export const ROOF_MATERIALS: Array<{ id: RoofMaterial; label: string }> = [
+  { id: 'tile', label: 'Tile' },
+  { id: 'metal', label: 'Metal / Colorbond' },
+];
+
+interface MultiplierOption {
+  label: string;
+  multiplier: number;
+}
+
+export interface ServiceRates {
+  base: number;
+  perM2?: Record<RoofMaterial, number>;
+  perPanel?: number;
+  /** Add-on ids offered with the service (all when unset) */
+  addOns?: string[];
+}
+
+export interface AddOn {
+  id: string;
+  label: string;
+  price?: number;
+  perM2?: number | Record<RoofMaterial, number>;
+  perPanel?: number;
+  /** Only offered for these roofs (all when unset) */
+  roofTypes?: RoofMaterial[];
+}
+
+export interface PricingModel {
+  currency: string;
+  minimumCharge: number;
+  roundTo: number;
+  rangePercent: number;
+  roofArea: { min: number; max: number; default: number; typicalMin: number; typicalMax: number };
+  storeys: MultiplierOption[];
+  pitch: MultiplierOption[];
+  /** By service slug */
+  services: Record<string, ServiceRates>;
+  addOns: AddOn[];
+}
+
+export interface EstimateInput {
+  service: string;
+  roofType: RoofMaterial;
+  areaM2: number;
+  /** Index into storeys */
+  storeys: number;
+  /** Index into pitch */
+  pitch: number;
+  addOns?: string[];
+  panels?: number;
+}
+
+export interface Estimate {
+  low: number;
+  high: number;
+  /** Calculated price before the range is applied */
+  price: number;
+  lines: Array<{ label: string; amount: number }>;
+}
+
+/** Solar panel count the estimator starts from */
+export const DEFAULT_PANELS = 16;
+
+/**
+ * The pricing model from business.yaml (undefined when there is none)
+ */
+export function resolvePricing(pricing: BusinessConfig['pricing']): PricingModel | undefined {
+  if (!pricing) return undefined;
+  return {
+    currency: pricing.currency,
+    minimumCharge: pricing.minimum_charge,
+    roundTo: pricing.round_to,
+    rangePercent: pricing.range_percent,
+    roofArea: {
+      min: pricing.roof_area.min,
+      max: pricing.roof_area.max,
+      default: pricing.roof_area.default,
+      typicalMin: pricing.roof_area.typical_min,
+      typicalMax: pricing.roof_area.typical_max,
+    },
+    storeys: pricing.storeys,
+    pitch: pricing.pitch,
+    services: Object.fromEntries(Object.entries(pricing.services).map(([slug, rates]) => [slug, {
+      base: rates.base,
+      perM2: rates.per_m2,
+      perPanel: rates.per_panel,
+      addOns: rates.add_ons,
+    }])),
+    addOns: pricing.add_ons.map((addOn) => ({
+      id: addOn.id,
+      label: addOn.label,
+      price: addOn.price,
+      perM2: addOn.per_m2,
+      perPanel: addOn.per_panel,
+      roofTypes: addOn.roof_types,
+    })),
+  };
+}
+
+/**
+ * Add-ons offered with a service on a roof type
+ */
+export function availableAddOns(model: PricingModel, service: string, roofType: RoofMaterial): AddOn[] {
+  const offered = model.services[service]?.addOns;
+  return model.addOns.filter((addOn) =>
+    (!addOn.roofTypes || addOn.roofTypes.includes(roofType)) && (!offered || offered.includes(addOn.id))
+  );
+}
+
+function perM2Rate(rate: number | Record<RoofMaterial, number> | undefined, roofType: RoofMaterial): number {
+  return typeof rate === 'number' ? rate : rate?.[roofType] ?? 0;
+}
+
+/**
+ * The estimate for one job, with a line per priced item. Throws for a
+ * service without rates.
+ */
+export function estimatePrice(model: PricingModel, input: EstimateInput): Estimate {
+  const rates = model.services[input.service];
+  if (!rates) throw new Error(`No pricing for service "${input.service}"`);
+
+  const area = Math.min(model.roofArea.max, Math.max(model.roofArea.min, input.areaM2));
+  const panels = Math.max(0, Math.round(input.panels ?? DEFAULT_PANELS));
+  const multiplier = (model.storeys[input.storeys]?.multiplier ?? 1) * (model.pitch[input.pitch]?.multiplier ?? 1);
+
+  const lines = [{
+    label: 'Service',
+    amount: rates.base + perM2Rate(rates.perM2, input.roofType) * area + (rates.perPanel ?? 0) * panels,
+  }];
+  const offered = availableAddOns(model, input.service, input.roofType);
+  for (const id of input.addOns ?? []) {
+    const addOn = offered.find((candidate) => candidate.id === id);
+    if (!addOn) continue;
+    lines.push({
+      label: addOn.label,
+      amount: (addOn.price ?? 0) + perM2Rate(addOn.perM2, input.roofType) * area + (addOn.perPanel ?? 0) * panels,
+    });
+  }
+
+  const priced = lines.map((line) => ({ ...line, amount: Math.round(line.amount * multiplier) }));
+  const price = Math.max(model.minimumCharge, priced.reduce((sum, line) => sum + line.amount, 0));
+  const spread = price * model.rangePercent / 100;
+  return {
+    low: Math.max(model.minimumCharge, Math.floor((price - spread) / model.roundTo) * model.roundTo),
+    high: Math.max(model.minimumCharge, Math.ceil((price + spread) / model.roundTo) * model.roundTo),
+    price,
+    lines: priced,
+  };
+}
+
+/**
+ * "$590 – $800"
+ */
+export function formatPriceRange(estimate: Pick<Estimate, 'low' | 'high'>, currency = 'AUD'): string {
+  const format = new Intl.NumberFormat('en-AU', { style: 'currency', currency, maximumFractionDigits: 0 });
+  return estimate.low === estimate.high ? format.format(estimate.low) : `${format.format(estimate.low)} – ${format.format(estimate.high)}`;
+}
+
+/**
+ * The range a typical job falls in: the cheapest roof material at the small
+ * end of a typical roof with the lowest multipliers, up to the dearest
+ * material on a large roof with the highest, without add-ons
+ */
+export function typicalPriceRange(model: PricingModel, service: string): { low: number; high: number } | undefined {
+  if (!model.services[service]) return undefined;
+  const lowest = (options: MultiplierOption[]) => options.reduce((best, option, i) => option.multiplier < options[best].multiplier ? i : best, 0);
+  const highest = (options: MultiplierOption[]) => options.reduce((best, option, i) => option.multiplier > options[best].multiplier ? i : best, 0);
+  const estimates = ROOF_MATERIALS.flatMap(({ id }) => [
+    estimatePrice(model, { service, roofType: id, areaM2: model.roofArea.typicalMin, storeys: lowest(model.storeys), pitch: lowest(model.pitch), panels: 8 }),
+    estimatePrice(model, { service, roofType: id, areaM2: model.roofArea.typicalMax, storeys: highest(model.storeys), pitch: highest(model.pitch), panels: 30 }),
+  ]);
+  return {
+    low: Math.min(...estimates.map((estimate) => estimate.low)),
+    high: Math.max(...estimates.map((estimate) => estimate.high)),
+  };
+}
+
+function unitPrice(price: number, currency: string, unit: 'MTK' | 'C62', unitText: string) {
+  return {
+    "@type": "UnitPriceSpecification",
+    "price": price,
+    "priceCurrency": currency,
+    "unitCode": unit,
+    "unitText": unitText,
+    "referenceQuantity": { "@type": "QuantitativeValue", "value": 1, "unitCode": unit },
+  };
+}
+
+function rateSpecifications(model: PricingModel, rates: { perM2?: number | Record<RoofMaterial, number>; perPanel?: number }) {
+  const rate = rates.perM2;
+  const perM2 = typeof rate === 'number'
+    ? [unitPrice(rate, model.currency, 'MTK', 'per m² of roof')]
+    : rate
+      ? ROOF_MATERIALS.map(({ id }) => unitPrice(rate[id], model.currency, 'MTK', `per m² of ${id} roof`))
+      : [];
+  const perPanel = rates.perPanel ? [unitPrice(rates.perPanel, model.currency, 'C62', 'per solar panel')] : [];
+  return [...perM2, ...perPanel];
+}
+
+/**
+ * schema.org priceSpecification entries for a service's Offer: the typical
+ * price range, then the base and per-m²/per-panel rates it is built from.
+ * Empty for a service without rates.
+ */
+export function toPriceSpecification(model: PricingModel, service: string) {
+  const rates = model.services[service];
+  const range = typicalPriceRange(model, service);
+  if (!rates || !range) return [];
+
+  return [
+    {
+      "@type": "PriceSpecification",
+      "minPrice": range.low,
+      "maxPrice": range.high,
+      "priceCurrency": model.currency,
+    },
+    {
+      "@type": "PriceSpecification",
+      "price": rates.base,
+      "priceCurrency": model.currency,
+      "name": "Base rate",
+    },
+    ...rateSpecifications(model, rates),
+  ];
+}
+
+/**
+ * schema.org addOn Offers for the extras available with a service
+ */
+export function toAddOnOffers(model: PricingModel, service: string) {
+  if (!model.services[service]) return [];
+  const offered = new Map(ROOF_MATERIALS.flatMap(({ id }) => availableAddOns(model, service, id)).map((addOn) => [addOn.id, addOn]));
+
+  return [...offered.values()].map((addOn) => ({
+    "@type": "Offer",
+    "name": addOn.label,
+    "priceSpecification": [
+      ...(addOn.price ? [{ "@type": "PriceSpecification", "price": addOn.price, "priceCurrency": model.currency }] : []),
+      ...rateSpecifications(model, addOn),
+    ],
+  }));
+}
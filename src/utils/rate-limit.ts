@@ -0,0 +1,47 @@
+/**
+ * Rate Limiting
+ * Sliding-window request counts per key (the client IP for quote requests),
+ * held in memory. Each serverless instance counts on its own, so the limit
+ * is per instance: enough to stop one client flooding the form, not a
+ * global quota.
+ */
+
+export interface RateLimitOptions {
+  maxRequests: number;
+  windowMs: number;
+  /** Keys tracked before the oldest are dropped, to bound memory */
+  maxKeys?: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** When allowed is false: how long until the next request is allowed */
+  retryAfterMs: number;
+}
+
+export interface RateLimiter {
+  hit(key: string, now?: number): RateLimitResult;
+}
+
+export function createRateLimiter(options: RateLimitOptions): RateLimiter {
+  const { maxRequests, windowMs, maxKeys = 10_000 } = options;
+  const hits = new Map<string, number[]>();
+
+  return {
+    hit(key, now = Date.now()) {
+      const recent = (hits.get(key) ?? []).filter((time) => now - time < windowMs);
+      hits.delete(key);
+
+      if (recent.length >= maxRequests) {
+        hits.set(key, recent);
+        return { allowed: false, retryAfterMs: recent[0] + windowMs - now };
+      }
+
+      recent.push(now);
+      hits.set(key, recent);
+      // Maps iterate in insertion order and active keys are re-inserted, so the first key is the stalest
+      if (hits.size > maxKeys) hits.delete(hits.keys().next().value!);
+      return { allowed: true, retryAfterMs: 0 };
+    },
+  };
+}
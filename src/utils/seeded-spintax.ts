@@ -0,0 +1,70 @@
+/**
+ * Seeded Spintax
+ * Resolves {option|option} spintax deterministically from a page seed (the
+ * suburb slug) so rebuilds produce identical copy. {{variables}} are left in
+ * place for the page context to fill in.
+ *
+ * Each choice is seeded by the page seed plus the spintax text itself, so
+ * editing one spintax block in a YAML file does not reshuffle the others.
+ */
+
+// Innermost spintax group: braces with at least one "|" and no nested braces
+const SPINTAX_PATTERN = /\{([^{}|]*(?:\|[^{}]*)+)\}/g;
+const VARIABLE_PATTERN = /\{\{[^{}]+\}\}/g;
+const PLACEHOLDER_PATTERN = /\u0000(\d+)\u0000/g;
+
+/**
+ * 32-bit FNV-1a hash
+ */
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Resolve all spintax in a string for the given seed
+ */
+export function resolveSpintax(text: string, seed: string): string {
+  if (!text.includes('|')) return text;
+
+  // Protect {{variables}} so they are not mistaken for spintax braces
+  const variables: string[] = [];
+  let working = text.replace(VARIABLE_PATTERN, (match) => `\u0000${variables.push(match) - 1}\u0000`);
+
+  // Resolve innermost groups first so nested spintax works
+  const occurrences = new Map<string, number>();
+  let previous;
+  do {
+    previous = working;
+    working = working.replace(SPINTAX_PATTERN, (group, body: string) => {
+      const occurrence = occurrences.get(group) ?? 0;
+      occurrences.set(group, occurrence + 1);
+      const options = body.split('|');
+      return options[hashString(`${seed}\u0000${group}\u0000${occurrence}`) % options.length];
+    });
+  } while (working !== previous);
+
+  return working.replace(PLACEHOLDER_PATTERN, (_, index: string) => variables[Number(index)]);
+}
+
+/**
+ * Resolve spintax in every string of a value (section props, FAQ lists, ...)
+ */
+export function resolveSpintaxDeep<T>(value: T, seed: string): T {
+  if (typeof value === 'string') {
+    return resolveSpintax(value, seed) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => resolveSpintaxDeep(item, seed)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, resolveSpintaxDeep(item, seed)])
+    ) as T;
+  }
+  return value;
+}
@@ -0,0 +1,78 @@
+/**
+ * SEO Metadata Helpers
+ * Resolves title/description templates from content collections and checks
+ * rendered lengths against what Google shows in search results
+ */
+
+/** Google truncates titles wider than roughly 580px (20px Arial) */
+export const TITLE_MAX_PX = 580;
+
+/** Google truncates meta descriptions at roughly 160 characters */
+export const DESCRIPTION_MAX_CHARS = 160;
+
+export interface SeoTemplate {
+  title?: string;
+  description?: string;
+}
+
+export interface SeoLengthIssue {
+  field: 'title' | 'description';
+  message: string;
+}
+
+// Approximate advance widths of 20px Arial, in pixels
+const CHAR_WIDTHS: Array<[RegExp, number]> = [
+  [/[ijlI|!.,:;'`]/, 4.5],
+  [/[ ft]/, 5.6],
+  [/[r()\[\]{}\/\\-]/, 6.7],
+  [/[sczJ"*]/, 10],
+  [/[mM]/, 17],
+  [/[wW]/, 15.5],
+  [/[A-HK-LN-VX-Z&%@]/, 13.5],
+  [/[0-9a-z$?_]/, 11],
+];
+const DEFAULT_CHAR_WIDTH = 11;
+
+/**
+ * Estimate the rendered width of a title in Google's results, in pixels
+ */
+export function estimateTitleWidth(title: string): number {
+  let width = 0;
+  for (const char of title) {
+    const match = CHAR_WIDTHS.find(([pattern]) => pattern.test(char));
+    width += match ? match[1] : DEFAULT_CHAR_WIDTH;
+  }
+  return Math.round(width);
+}
+
+/**
+ * Check a rendered title and description against search result limits
+ */
+export function checkSeoLength(meta: SeoTemplate): SeoLengthIssue[] {
+  const issues: SeoLengthIssue[] = [];
+
+  if (meta.title) {
+    const width = estimateTitleWidth(meta.title);
+    if (width > TITLE_MAX_PX) {
+      issues.push({ field: 'title', message: `Title is ~${width}px (limit ${TITLE_MAX_PX}px): "${meta.title}"` });
+    }
+  }
+
+  if (meta.description && meta.description.length > DESCRIPTION_MAX_CHARS) {
+    issues.push({
+      field: 'description',
+      message: `Description is ${meta.description.length} characters (limit ${DESCRIPTION_MAX_CHARS})`,
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Log a build warning for each length issue on a page
+ */
+export function warnSeoLength(pathname: string, meta: SeoTemplate): void {
+  for (const issue of checkSeoLength(meta)) {
+    console.warn(`⚠️  SEO ${pathname}: ${issue.message}`);
+  }
+}
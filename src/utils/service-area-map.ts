@@ -0,0 +1,113 @@
+/**
+ * Service Area Map
+ * Projection and path helpers for the static SVG map of the service area
+ * (src/components/ServiceAreaMap.astro). No tiles or map API: suburbs,
+ * depots and the boundary are projected straight from their coordinates.
+ */
+
+export interface MapPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface MapProjection {
+  width: number;
+  height: number;
+  project(point: MapPoint): { x: number; y: number };
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Equirectangular projection fitted to the points, with longitude scaled by
+ * the cosine of the middle latitude so a city-sized area keeps its shape
+ */
+export function createMapProjection(points: MapPoint[], width = 800, padding = 24): MapProjection {
+  const lats = points.map((point) => point.lat);
+  const lngs = points.map((point) => point.lng);
+  const minLat = Math.min(...lats);
+  const maxLat = Math.max(...lats);
+  const minLng = Math.min(...lngs);
+  const maxLng = Math.max(...lngs);
+  const lngScale = Math.cos(((minLat + maxLat) / 2) * Math.PI / 180);
+
+  const spanX = Math.max((maxLng - minLng) * lngScale, 1e-6);
+  const spanY = Math.max(maxLat - minLat, 1e-6);
+  const scale = (width - padding * 2) / spanX;
+  const height = Math.round(spanY * scale + padding * 2);
+
+  return {
+    width,
+    height,
+    project: ({ lat, lng }) => ({
+      x: round(padding + (lng - minLng) * lngScale * scale),
+      y: round(padding + (maxLat - lat) * scale),
+    }),
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Point `distanceKm` from `from` on the given bearing (degrees from north)
+ */
+export function destinationPoint(from: MapPoint, bearingDegrees: number, distanceKm: number): MapPoint {
+  const angular = distanceKm / EARTH_RADIUS_KM;
+  const bearing = bearingDegrees * Math.PI / 180;
+  const lat1 = from.lat * Math.PI / 180;
+  const lng1 = from.lng * Math.PI / 180;
+  const lat2 = Math.asin(Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(bearing));
+  const lng2 = lng1 + Math.atan2(
+    Math.sin(bearing) * Math.sin(angular) * Math.cos(lat1),
+    Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2)
+  );
+  return { lat: lat2 * 180 / Math.PI, lng: lng2 * 180 / Math.PI };
+}
+
+/**
+ * Service radius as a ring of points (the boundary when there is no polygon)
+ */
+export function circleRing(center: MapPoint, radiusKm: number, steps = 72): MapPoint[] {
+  return Array.from({ length: steps }, (_, i) => destinationPoint(center, (i * 360) / steps, radiusKm));
+}
+
+/**
+ * GeoJSON polygons ([lng, lat] rings) as map points
+ */
+export function polygonsToRings(polygons: number[][][][]): MapPoint[][] {
+  return polygons.flatMap((rings) => rings.map((ring) => ring.map(([lng, lat]) => ({ lat, lng }))));
+}
+
+/**
+ * SVG path data for closed rings (draw with fill-rule="evenodd" so holes stay empty)
+ */
+export function ringsToPath(rings: MapPoint[][], projection: MapProjection): string {
+  return rings
+    .filter((ring) => ring.length > 2)
+    .map((ring) => ring
+      .map((point, i) => {
+        const { x, y } = projection.project(point);
+        return `${i === 0 ? 'M' : 'L'}${x} ${y}`;
+      })
+      .join(' ') + ' Z')
+    .join(' ');
+}
+
+/**
+ * Bounding points grown by `marginKm` on every side, for maps zoomed in on a
+ * few suburbs
+ */
+export function padBounds(points: MapPoint[], marginKm: number): MapPoint[] {
+  const lats = points.map((point) => point.lat);
+  const lngs = points.map((point) => point.lng);
+  const south = destinationPoint({ lat: Math.min(...lats), lng: Math.min(...lngs) }, 180, marginKm);
+  const west = destinationPoint({ lat: Math.min(...lats), lng: Math.min(...lngs) }, 270, marginKm);
+  const north = destinationPoint({ lat: Math.max(...lats), lng: Math.max(...lngs) }, 0, marginKm);
+  const east = destinationPoint({ lat: Math.max(...lats), lng: Math.max(...lngs) }, 90, marginKm);
+  return [
+    { lat: south.lat, lng: west.lng },
+    { lat: north.lat, lng: east.lng },
+  ];
+}
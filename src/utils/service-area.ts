@@ -0,0 +1,143 @@
+/**
+ * Service Area Polygons
+ * GeoJSON Polygon/MultiPolygon service areas with explicit include/exclude
+ * suburb lists, used instead of the single radius circle when configured
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { z } from 'astro/zod';
+
+// GeoJSON positions are [longitude, latitude]
+const position = z.array(z.number()).min(2).refine(
+  ([lng, lat]) => Math.abs(lng) <= 180 && Math.abs(lat) <= 90,
+  'Expected [longitude, latitude] positions (GeoJSON puts longitude first)'
+);
+
+const linearRing = z.array(position)
+  .min(4, 'A polygon ring needs at least 4 positions')
+  .refine(
+    (ring) => ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1],
+    'A polygon ring must end at the position it starts from'
+  );
+
+export const serviceAreaGeometrySchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('Polygon'), coordinates: z.array(linearRing).min(1) }),
+  z.object({ type: z.literal('MultiPolygon'), coordinates: z.array(z.array(linearRing).min(1)).min(1) }),
+]);
+
+export type ServiceAreaGeometry = z.infer<typeof serviceAreaGeometrySchema>;
+
+export interface ServiceArea {
+  /** Polygon the suburbs must fall in (replaces the radius when set) */
+  geometry?: ServiceAreaGeometry;
+  /** Suburbs always serviced, as "Name" or "Name, STATE" */
+  include: string[];
+  /** Suburbs never serviced, as "Name" or "Name, STATE" */
+  exclude: string[];
+}
+
+export interface ServiceAreaInput {
+  polygon?: string | ServiceAreaGeometry;
+  include?: string[];
+  exclude?: string[];
+}
+
+/**
+ * Pull a Polygon/MultiPolygon out of a GeoJSON geometry, Feature or FeatureCollection
+ */
+function toGeometry(data: any): unknown {
+  if (data?.type === 'Feature') return data.geometry;
+  if (data?.type === 'FeatureCollection') {
+    const polygons = (data.features ?? []).map((feature: any) => feature?.geometry).flatMap((geometry: any) => {
+      if (geometry?.type === 'Polygon') return [geometry.coordinates];
+      if (geometry?.type === 'MultiPolygon') return geometry.coordinates;
+      return [];
+    });
+    return { type: 'MultiPolygon', coordinates: polygons };
+  }
+  return data;
+}
+
+/**
+ * Read a service area from a .geojson file (relative to the project root)
+ */
+export function readServiceAreaFile(file: string, root = process.cwd()): ServiceAreaGeometry {
+  const fullPath = path.resolve(root, file);
+  if (!fs.existsSync(fullPath)) {
+    throw new Error(`Service area file ${file} not found`);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(fullPath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Service area file ${file} is not valid JSON: ${(error as Error).message}`);
+  }
+
+  const result = serviceAreaGeometrySchema.safeParse(toGeometry(data));
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Service area file ${file} must contain a Polygon or MultiPolygon: ${issue.path.join('.') || '(root)'} ${issue.message}`);
+  }
+  return result.data;
+}
+
+/**
+ * Resolve the service.area config into a geometry and suburb lists
+ */
+export function resolveServiceArea(input: ServiceAreaInput | undefined, root = process.cwd()): ServiceArea | undefined {
+  if (!input) return undefined;
+  return {
+    geometry: typeof input.polygon === 'string' ? readServiceAreaFile(input.polygon, root) : input.polygon,
+    include: input.include ?? [],
+    exclude: input.exclude ?? [],
+  };
+}
+
+/**
+ * Polygons of a geometry as [outer ring, ...holes], each ring [lng, lat] pairs
+ */
+export function polygonsOf(geometry: ServiceAreaGeometry): number[][][][] {
+  return geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+}
+
+function isInRing(ring: number[][], lng: number, lat: number): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > lat) !== (yj > lat) && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Whether a point falls inside the polygon (outside any holes)
+ */
+export function isPointInServiceArea(geometry: ServiceAreaGeometry, lat: number, lng: number): boolean {
+  return polygonsOf(geometry).some(([outer, ...holes]) =>
+    isInRing(outer, lng, lat) && !holes.some((hole) => isInRing(hole, lng, lat))
+  );
+}
+
+/**
+ * Whether a suburb matches an include/exclude list entry ("Name" or "Name, STATE")
+ */
+export function matchesSuburbList(suburb: { name: string; state: string }, entries: string[]): boolean {
+  const name = suburb.name.toLowerCase();
+  const state = suburb.state.toLowerCase();
+  return entries.some((entry) => {
+    const [entryName, entryState] = entry.split(',').map((part) => part.trim().toLowerCase());
+    return entryName === name && (!entryState || entryState === state);
+  });
+}
+
+/**
+ * schema.org GeoShape polygon strings ("lat lng lat lng ..."), one per outer ring
+ */
+export function toSchemaPolygons(geometry: ServiceAreaGeometry): string[] {
+  return polygonsOf(geometry).map(([outer]) => outer.map(([lng, lat]) => `${lat} ${lng}`).join(' '));
+}
@@ -0,0 +1,77 @@
+/**
+ * Service × Location Pages
+ * Pairs opted-in services with the nearest suburbs for /services/[slug]/[location]
+ * pages, capped by service.max_service_location_pages in business.yaml
+ */
+
+export interface ServiceVariables {
+  serviceTitle: string;
+  serviceSlug: string;
+  serviceDescription: string;
+  serviceExcerpt: string;
+  serviceImage: string;
+}
+
+interface ServiceEntry {
+  slug: string;
+  data: {
+    title: string;
+    description: string;
+    excerpt?: string;
+    image?: string;
+    order?: number;
+    locationPages?: boolean;
+  };
+}
+
+interface LocationPageEntry {
+  slug: string;
+  suburb: { name: string; distanceKm?: number };
+}
+
+export interface ServiceLocationPage<S extends ServiceEntry, L extends LocationPageEntry> {
+  service: S;
+  locationPage: L;
+  url: string;
+}
+
+/**
+ * Build service + suburb combinations, nearest suburbs first, so a low cap
+ * still covers every opted-in service in the suburbs closest to the business
+ */
+export function buildServiceLocationPages<S extends ServiceEntry, L extends LocationPageEntry>(
+  services: S[],
+  locationPages: L[],
+  maxPages: number
+): ServiceLocationPage<S, L>[] {
+  const enabledServices = services
+    .filter((service) => service.data.locationPages)
+    .sort((a, b) => (a.data.order ?? 99) - (b.data.order ?? 99));
+
+  const nearestFirst = [...locationPages].sort(
+    (a, b) => (a.suburb.distanceKm ?? Infinity) - (b.suburb.distanceKm ?? Infinity)
+  );
+
+  const pages: ServiceLocationPage<S, L>[] = [];
+  for (const locationPage of nearestFirst) {
+    for (const service of enabledServices) {
+      if (pages.length >= maxPages) return pages;
+      pages.push({
+        service,
+        locationPage,
+        url: `/services/${service.slug}/${locationPage.slug}/`,
+      });
+    }
+  }
+  return pages;
+}
+
+export function getServiceVariables(service: ServiceEntry): ServiceVariables {
+  return {
+    serviceTitle: service.data.title,
+    serviceSlug: service.slug,
+    serviceDescription: service.data.description,
+    serviceExcerpt: service.data.excerpt || service.data.description,
+    serviceImage: service.data.image || '',
+  };
+}
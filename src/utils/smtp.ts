@@ -0,0 +1,243 @@
+/**
+ * SMTP
+ * Just enough of SMTP to send a plain-text notification email, optionally
+ * with attachments: implicit TLS (port 465) or STARTTLS, AUTH PLAIN/LOGIN,
+ * one message per connection.
+ * Server-side only (used by the lead email delivery).
+ */
+
+import net from 'node:net';
+import tls from 'node:tls';
+import { randomUUID } from 'node:crypto';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  /** Implicit TLS from the start (port 465). Otherwise STARTTLS when offered */
+  secure?: boolean;
+  user?: string;
+  pass?: string;
+  /** Refuse to send without TLS (default true unless the host is local) */
+  requireTls?: boolean;
+  timeoutMs?: number;
+}
+
+export interface EmailAttachment {
+  filename: string;
+  /** e.g. "text/calendar; charset=utf-8; method=PUBLISH" */
+  contentType: string;
+  content: string;
+}
+
+export interface EmailMessage {
+  from: string;
+  to: string[];
+  replyTo?: string;
+  subject: string;
+  text: string;
+  attachments?: EmailAttachment[];
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Reads SMTP replies off a socket, one (possibly multi-line) reply at a time
+ */
+class ReplyReader {
+  private buffer = '';
+  private replies: SmtpReply[] = [];
+  private waiting?: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void };
+  private failure?: Error;
+
+  constructor(private socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  attach(socket: net.Socket) {
+    this.socket = socket;
+    this.buffer = '';
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => this.receive(chunk));
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private receive(chunk: string) {
+    this.buffer += chunk;
+    let end: number;
+    const lines: string[] = [];
+    while ((end = this.buffer.indexOf('\r\n')) >= 0) {
+      const line = this.buffer.slice(0, end);
+      this.buffer = this.buffer.slice(end + 2);
+      lines.push(line);
+      // "250-..." continues, "250 ..." ends the reply
+      if (/^\d{3}(?: |$)/.test(line)) {
+        this.replies.push({ code: Number(line.slice(0, 3)), lines: lines.splice(0).map((text) => text.slice(4)) });
+      }
+    }
+    if (lines.length > 0) this.buffer = lines.join('\r\n') + '\r\n' + this.buffer;
+    this.flush();
+  }
+
+  private fail(error: Error) {
+    this.failure ??= error;
+    this.flush();
+  }
+
+  private flush() {
+    if (!this.waiting) return;
+    const reply = this.replies.shift();
+    if (reply) {
+      const { resolve } = this.waiting;
+      this.waiting = undefined;
+      resolve(reply);
+    } else if (this.failure) {
+      const { reject } = this.waiting;
+      this.waiting = undefined;
+      reject(this.failure);
+    }
+  }
+
+  next(): Promise<SmtpReply> {
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+      this.flush();
+    });
+  }
+}
+
+function connect(options: SmtpOptions): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = options.secure
+      ? tls.connect({ host: options.host, port: options.port, servername: options.host }, () => resolve(socket))
+      : net.connect({ host: options.host, port: options.port }, () => resolve(socket));
+    socket.once('error', reject);
+  });
+}
+
+function upgrade(socket: net.Socket, host: string): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    socket.removeAllListeners('data');
+    socket.removeAllListeners('close');
+    socket.removeAllListeners('error');
+    const secure = tls.connect({ socket, servername: host }, () => resolve(secure));
+    secure.once('error', reject);
+  });
+}
+
+/** "Name <address>" or "address" → "address" */
+function address(mailbox: string): string {
+  return mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox.trim();
+}
+
+/** RFC 2047 encoded-word for header text that is not plain ASCII */
+function encodeHeader(value: string): string {
+  const oneLine = value.replace(/[\r\n]+/g, ' ');
+  return /^[\x20-\x7e]*$/.test(oneLine) ? oneLine : `=?UTF-8?B?${Buffer.from(oneLine).toString('base64')}?=`;
+}
+
+function base64Lines(text: string): string {
+  return Buffer.from(text.replace(/\r?\n/g, '\r\n')).toString('base64').replace(/.{76}/g, '$&\r\n');
+}
+
+/**
+ * The message as sent after DATA: headers, base64 body (multipart/mixed
+ * with attachments), dot-stuffed
+ */
+export function formatMessage(message: EmailMessage, date = new Date()): string {
+  const domain = address(message.from).split('@')[1] ?? 'localhost';
+  const headers = [
+    `From: ${encodeHeader(message.from)}`,
+    `To: ${message.to.map(encodeHeader).join(', ')}`,
+    ...(message.replyTo ? [`Reply-To: ${encodeHeader(message.replyTo)}`] : []),
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString().replace('GMT', '+0000')}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+  ];
+  const textPart = ['Content-Type: text/plain; charset=utf-8', 'Content-Transfer-Encoding: base64'];
+
+  if (!message.attachments?.length) {
+    return `${[...headers, ...textPart].join('\r\n')}\r\n\r\n${base64Lines(message.text)}`.replace(/^\./gm, '..');
+  }
+
+  const boundary = `----=_Part_${randomUUID()}`;
+  const parts = [
+    `${textPart.join('\r\n')}\r\n\r\n${base64Lines(message.text)}`,
+    ...message.attachments.map((attachment) => [
+      `Content-Type: ${attachment.contentType.replace(/[\r\n]+/g, ' ')}; name="${encodeHeader(attachment.filename)}"`,
+      `Content-Disposition: attachment; filename="${encodeHeader(attachment.filename)}"`,
+      'Content-Transfer-Encoding: base64',
+      '',
+      base64Lines(attachment.content),
+    ].join('\r\n')),
+  ];
+  const body = parts.map((part) => `--${boundary}\r\n${part}`).join('\r\n') + `\r\n--${boundary}--`;
+  return `${[...headers, `Content-Type: multipart/mixed; boundary="${boundary}"`].join('\r\n')}\r\n\r\n${body}`.replace(/^\./gm, '..');
+}
+
+/**
+ * Send one message. Rejects with the server's reply when a command fails.
+ */
+export async function sendMail(options: SmtpOptions, message: EmailMessage): Promise<void> {
+  const local = ['localhost', '127.0.0.1', '::1'].includes(options.host);
+  const requireTls = options.requireTls ?? !local;
+  const timeout = (target: net.Socket) =>
+    target.setTimeout(options.timeoutMs ?? 15000, () => target.destroy(new Error('SMTP connection timed out')));
+  let socket = await connect(options);
+  timeout(socket);
+  const reader = new ReplyReader(socket);
+  let secure = Boolean(options.secure);
+
+  const command = async (line: string | undefined, expect: number[]) => {
+    if (line !== undefined) socket.write(`${line}\r\n`);
+    const reply = await reader.next();
+    if (!expect.includes(reply.code)) {
+      // Never echo credentials or the message itself
+      const shown = line === undefined ? 'greeting'
+        : line.includes('\r\n') ? 'message'
+        : /^(EHLO|STARTTLS|MAIL FROM|RCPT TO|DATA|QUIT)\b/.exec(line)?.[1] ?? 'AUTH';
+      throw new Error(`SMTP ${shown} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  };
+
+  try {
+    await command(undefined, [220]);
+    let hello = await command(`EHLO ${options.host}`, [250]);
+
+    if (!secure && hello.lines.some((line) => /^STARTTLS\b/i.test(line))) {
+      await command('STARTTLS', [220]);
+      socket = await upgrade(socket, options.host);
+      timeout(socket);
+      reader.attach(socket);
+      secure = true;
+      hello = await command(`EHLO ${options.host}`, [250]);
+    }
+    if (!secure && requireTls) throw new Error(`SMTP server ${options.host} does not offer TLS`);
+
+    if (options.user && options.pass) {
+      const auth = hello.lines.find((line) => /^AUTH\b/i.test(line)) ?? '';
+      if (/\bPLAIN\b/i.test(auth)) {
+        await command(`AUTH PLAIN ${Buffer.from(`\0${options.user}\0${options.pass}`).toString('base64')}`, [235]);
+      } else {
+        await command('AUTH LOGIN', [334]);
+        await command(Buffer.from(options.user).toString('base64'), [334]);
+        await command(Buffer.from(options.pass).toString('base64'), [235]);
+      }
+    }
+
+    await command(`MAIL FROM:<${address(message.from)}>`, [250]);
+    for (const recipient of message.to) {
+      await command(`RCPT TO:<${address(recipient)}>`, [250, 251]);
+    }
+    await command('DATA', [354]);
+    await command(`${formatMessage(message)}\r\n.`, [250]);
+    await command('QUIT', [221]).catch(() => undefined);
+  } finally {
+    socket.destroy();
+  }
+}
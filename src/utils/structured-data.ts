@@ -0,0 +1,389 @@
+/**
+ * Structured Data Builders
+ * One place to build the JSON-LD (schema.org) objects emitted by pages, so the
+ * service-area centre, radius, address and hours always come from siteConfig
+ */
+
+import { siteConfig, type Branch } from '../config/site';
+import suburbsData from '../data/suburbs.json';
+import { toOpeningHoursSpecification, toSpecialOpeningHoursSpecification, type HoursModel } from './business-hours';
+import { toSchemaPolygons } from './service-area';
+import { toAddOnOffers, toPriceSpecification } from './pricing';
+
+type JsonLd = Record<string, unknown>;
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface SchemaSuburb {
+  name: string;
+  state: string;
+  postcode?: string | null;
+  latitude: number;
+  longitude: number;
+}
+
+export interface BreadcrumbItem {
+  name: string;
+  /** Absolute URL or site-relative path */
+  url: string;
+}
+
+export interface FaqItem {
+  question: string;
+  answer: string;
+}
+
+/**
+ * Drop blank strings, null/undefined, empty arrays and objects left with
+ * nothing but an "@type", so sparse data never emits `"postalCode": ""`
+ */
+export function omitEmpty<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(omitEmpty).filter((item) => !isEmptyValue(item)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .map(([key, item]) => [key, omitEmpty(item)])
+        .filter(([, item]) => !isEmptyValue(item))
+    ) as T;
+  }
+  return value;
+}
+
+function isEmptyValue(value: unknown): boolean {
+  if (value === undefined || value === null) return true;
+  if (typeof value === 'string') return value.trim() === '';
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === 'object') return Object.keys(value).every((key) => key === '@type' || key === '@context');
+  return false;
+}
+
+/**
+ * The business name for a place, without repeating the place when the
+ * business is already named after it ("Southport Roofing", not "Southport Roofing - Southport")
+ */
+function businessNameFor(place: string, separator = ' - '): string {
+  const name = siteConfig.businessName;
+  if (!place.trim() || name.toLowerCase().includes(place.trim().toLowerCase())) return name;
+  return `${name}${separator}${place.trim()}`;
+}
+
+/**
+ * Resolve a site-relative path against the site URL
+ */
+export function absoluteUrl(pathOrUrl: string): string {
+  return new URL(pathOrUrl, siteConfig.siteUrl).href;
+}
+
+/**
+ * Centre of the service area: business.yaml service.center_lat/lng,
+ * falling back to the centre the suburbs data was generated from
+ */
+export function getServiceAreaCenter(): GeoPoint {
+  const { centerLat, centerLng } = siteConfig.locationPages;
+  if (centerLat !== undefined && centerLng !== undefined) {
+    return { lat: Number(centerLat), lng: Number(centerLng) };
+  }
+  return { lat: suburbsData.center.lat, lng: suburbsData.center.lng };
+}
+
+/**
+ * Service radius in km from business.yaml, falling back to the suburbs data
+ */
+export function getServiceRadiusKm(): number {
+  return Number(siteConfig.locationPages.serviceRadiusKm ?? suburbsData.radiusKm);
+}
+
+export function buildGeoCoordinates(point: GeoPoint): JsonLd {
+  return {
+    "@type": "GeoCoordinates",
+    "latitude": point.lat,
+    "longitude": point.lng
+  };
+}
+
+export function buildGeoCircle(center: GeoPoint = getServiceAreaCenter(), radiusKm: number = getServiceRadiusKm()): JsonLd {
+  return {
+    "@type": "GeoCircle",
+    "geoMidpoint": buildGeoCoordinates(center),
+    "geoRadius": String(Math.round(radiusKm * 1000)) // metres
+  };
+}
+
+/**
+ * Service area shape: one GeoShape per configured polygon, or the
+ * radius circle when business.yaml has no service.area.polygon
+ */
+export function buildServiceAreaShape(): JsonLd | JsonLd[] {
+  const geometry = siteConfig.locationPages.serviceArea?.geometry;
+  if (!geometry) return buildGeoCircle();
+
+  const shapes = toSchemaPolygons(geometry).map((polygon) => ({
+    "@type": "GeoShape",
+    "polygon": polygon
+  }));
+  return shapes.length === 1 ? shapes[0] : shapes;
+}
+
+// Google expects ISO 3166-1 country codes in addresses
+const COUNTRY_CODES: Record<string, string> = {
+  'Australia': 'AU',
+  'New Zealand': 'NZ',
+};
+
+export function buildPostalAddress(address: Branch['address'] = siteConfig.address): JsonLd {
+  const { country } = address;
+  return {
+    "@type": "PostalAddress",
+    "streetAddress": address.street,
+    "addressLocality": address.city,
+    "addressRegion": address.state,
+    "postalCode": address.postcode,
+    "addressCountry": COUNTRY_CODES[country] ?? country
+  };
+}
+
+function buildOpeningHours(hoursModel: HoursModel = siteConfig.hoursModel): JsonLd {
+  const special = toSpecialOpeningHoursSpecification(hoursModel);
+  return {
+    "openingHoursSpecification": toOpeningHoursSpecification(hoursModel),
+    ...(special.length > 0 && { "specialOpeningHoursSpecification": special })
+  };
+}
+
+/**
+ * Site-wide LocalBusiness schema (emitted by Layout.astro)
+ */
+export function buildLocalBusinessSchema(): JsonLd {
+  return {
+    "@context": "https://schema.org",
+    "@type": "LocalBusiness",
+    "name": siteConfig.businessName,
+    "description": siteConfig.tagline,
+    "url": siteConfig.siteUrl,
+    "telephone": siteConfig.phone,
+    "email": siteConfig.email,
+    ...(siteConfig.businessLogo && {
+      "image": absoluteUrl(siteConfig.businessLogo),
+      "logo": absoluteUrl(siteConfig.businessLogo)
+    }),
+    "address": buildPostalAddress(),
+    "geo": buildGeoCoordinates(getServiceAreaCenter()),
+    ...buildOpeningHours(),
+    "areaServed": [
+      // Primary service area (polygon, or the radius around the configured centre)
+      ...[buildServiceAreaShape()].flat(),
+      {
+        "@type": "City",
+        "name": siteConfig.mainLocation
+      }
+    ],
+    ...(siteConfig.branches.length > 0 && {
+      "department": siteConfig.branches.map(buildBranchSchema)
+    }),
+    "priceRange": "$$",
+    "paymentAccepted": ["Cash", "Credit Card", "Debit Card", "Bank Transfer"],
+    "currenciesAccepted": "AUD",
+    "amenityFeature": [
+      {
+        "@type": "LocationFeatureSpecification",
+        "name": "Free Quotes",
+        "value": true
+      },
+      {
+        "@type": "LocationFeatureSpecification",
+        "name": "Emergency Service",
+        "value": true
+      }
+    ],
+    "potentialAction": {
+      "@type": "ReserveAction",
+      "target": {
+        "@type": "EntryPoint",
+        "urlTemplate": siteConfig.siteUrl + "/book",
+        "inLanguage": "en-AU",
+        "actionPlatform": [
+          "http://schema.org/DesktopWebPlatform",
+          "http://schema.org/MobileWebPlatform"
+        ]
+      },
+      "result": {
+        "@type": "Reservation",
+        "name": "Booking Request"
+      }
+    }
+  };
+}
+
+/**
+ * A branch (depot) as a LocalBusiness, listed as a department of the business
+ */
+export function buildBranchSchema(branch: Branch): JsonLd {
+  return {
+    "@type": "LocalBusiness",
+    "name": businessNameFor(branch.name, ' '),
+    "telephone": branch.phone,
+    "email": branch.email,
+    "address": buildPostalAddress(branch.address),
+    "geo": buildGeoCoordinates(branch.coordinates),
+    ...buildOpeningHours(branch.hoursModel)
+  };
+}
+
+/**
+ * LocalBusiness schema for a suburb landing page. With a branch, the phone,
+ * address, coordinates and hours are the branch's instead of the suburb's.
+ * Properties the suburb has no data for are left out rather than blank.
+ */
+export function buildLocationBusinessSchema(options: {
+  suburb: SchemaSuburb;
+  url: string;
+  description: string;
+  localRadiusKm?: number;
+  branch?: Branch;
+}): JsonLd {
+  const { suburb, url, description, localRadiusKm = 10, branch } = options;
+  const point = { lat: suburb.latitude, lng: suburb.longitude };
+
+  return omitEmpty({
+    "@context": "https://schema.org",
+    "@type": "LocalBusiness",
+    "name": businessNameFor(suburb.name),
+    "description": description,
+    "url": absoluteUrl(url),
+    "telephone": branch?.phone ?? siteConfig.phone,
+    "email": branch?.email ?? siteConfig.email,
+    "address": branch ? buildPostalAddress(branch.address) : {
+      "@type": "PostalAddress",
+      "addressLocality": suburb.name,
+      "addressRegion": suburb.state,
+      "postalCode": suburb.postcode,
+      "addressCountry": "AU"
+    },
+    "geo": buildGeoCoordinates(branch?.coordinates ?? point),
+    "areaServed": buildGeoCircle(point, localRadiusKm),
+    "serviceArea": {
+      "@type": "Place",
+      "name": `${suburb.name} and surrounding suburbs`
+    },
+    ...buildOpeningHours(branch?.hoursModel)
+  });
+}
+
+/**
+ * Provider reference used inside Service schemas
+ */
+export function buildProvider(): JsonLd {
+  return {
+    "@type": "LocalBusiness",
+    "name": siteConfig.businessName,
+    "telephone": siteConfig.phone,
+    "email": siteConfig.email,
+    "address": buildPostalAddress()
+  };
+}
+
+/**
+ * Service schema for a service page
+ */
+export function buildServiceSchema(options: {
+  name: string;
+  description?: string;
+  url: string;
+  image?: string;
+  areaServed?: JsonLd | JsonLd[];
+  /** Prices the offer from siteConfig.pricing when the service has rates */
+  serviceSlug?: string;
+}): JsonLd {
+  const { name, description, url, image, areaServed, serviceSlug } = options;
+  const pricing = siteConfig.pricing;
+  const priceSpecification = pricing && serviceSlug ? toPriceSpecification(pricing, serviceSlug) : [];
+  const addOns = pricing && serviceSlug ? toAddOnOffers(pricing, serviceSlug) : [];
+
+  return {
+    "@context": "https://schema.org",
+    "@type": "Service",
+    "serviceType": name,
+    "name": name,
+    "description": description,
+    "provider": buildProvider(),
+    "areaServed": areaServed ?? {
+      "@type": "City",
+      "name": siteConfig.mainLocation
+    },
+    "url": absoluteUrl(url),
+    "image": image ? absoluteUrl(image) : undefined,
+    "offers": {
+      "@type": "Offer",
+      "availability": "https://schema.org/InStock",
+      "description": "Free, no-obligation quote",
+      "url": absoluteUrl('/contact'),
+      "priceSpecification": priceSpecification.length ? priceSpecification : undefined,
+      "addOn": addOns.length ? addOns : undefined
+    }
+  };
+}
+
+/**
+ * A suburb as a schema.org City within its state
+ */
+export function buildSuburbPlace(suburb: SchemaSuburb): JsonLd {
+  return {
+    "@type": "City",
+    "name": suburb.name,
+    "containedInPlace": {
+      "@type": "State",
+      "name": suburb.state
+    }
+  };
+}
+
+/**
+ * Service schema covering every suburb we service (locations index)
+ */
+export function buildServiceAreaSchema(suburbs: SchemaSuburb[]): JsonLd {
+  return {
+    "@context": "https://schema.org",
+    "@type": "Service",
+    "name": siteConfig.businessName,
+    "provider": buildProvider(),
+    "areaServed": suburbs.map(buildSuburbPlace),
+    "serviceArea": buildServiceAreaShape()
+  };
+}
+
+export function buildBreadcrumbSchema(items: BreadcrumbItem[]): JsonLd {
+  return {
+    "@context": "https://schema.org",
+    "@type": "BreadcrumbList",
+    "itemListElement": items.map((item, index) => ({
+      "@type": "ListItem",
+      "position": index + 1,
+      "name": item.name,
+      "item": absoluteUrl(item.url)
+    }))
+  };
+}
+
+/**
+ * FAQPage schema from already-processed FAQ items
+ */
+export function buildFaqSchema(faqs: FaqItem[]): JsonLd {
+  return {
+    "@context": "https://schema.org",
+    "@type": "FAQPage",
+    // Questions whose answer came out blank (e.g. a false {{#if}} block) are dropped
+    "mainEntity": faqs.filter((faq) => faq.question.trim() && faq.answer.trim()).map((faq) => ({
+      "@type": "Question",
+      "name": faq.question,
+      "acceptedAnswer": {
+        "@type": "Answer",
+        "text": faq.answer
+      }
+    }))
+  };
+}
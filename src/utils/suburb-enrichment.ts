@@ -0,0 +1,64 @@
+/**
+ * Suburb Enrichment
+ * Local government area, region, coastal flag, housing era and roof material
+ * mix added to suburbs.json by the suburb export (config/suburb-enrichment.csv),
+ * exposed to location page templates as {{lga}}, {{region}} and friends
+ */
+
+import suburbsData from '../data/suburbs.json';
+
+/** Enrichment written to each suburb by scripts/export-suburbs.ts (blank CSV cells are omitted) */
+export interface SuburbEnrichment {
+  lga?: string;
+  region?: string;
+  coastal?: boolean;
+  housingEra?: string;
+  /** Share of roofs by material, in percent */
+  roofMix?: Record<string, number>;
+}
+
+export interface SuburbVariables {
+  lga: string;
+  region: string;
+  coastalOrInland: string;
+  housingEra: string;
+  roofMix: string;
+  mainRoofMaterial: string;
+}
+
+/**
+ * Enrichment for a suburb, from the suburb itself or its suburbs.json entry
+ */
+export function getSuburbEnrichment(suburb: { name: string; state: string; enrichment?: SuburbEnrichment }): SuburbEnrichment {
+  return suburb.enrichment ?? (suburbsData.suburbs as Array<{ name: string; state: string; enrichment?: SuburbEnrichment }>)
+    .find((candidate) => candidate.name === suburb.name && candidate.state === suburb.state)?.enrichment ?? {};
+}
+
+/**
+ * "tile (60%) and metal (40%)", largest share first
+ */
+export function describeRoofMix(roofMix: Record<string, number>): string {
+  const parts = Object.entries(roofMix)
+    .sort(([, a], [, b]) => b - a)
+    .map(([material, share]) => `${material} (${share}%)`);
+  return parts.length > 1 ? `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}` : parts.join('');
+}
+
+/**
+ * Template variables for a suburb. The LGA, region and housing era are blank
+ * for suburbs the CSV does not cover, for {{#if}} blocks and {{name|fallback}}
+ * to handle; the rest have neutral fallbacks.
+ */
+export function getSuburbVariables(suburb: { name: string; state: string; enrichment?: SuburbEnrichment }): SuburbVariables {
+  const { lga, region, coastal, housingEra, roofMix } = getSuburbEnrichment(suburb);
+  const materials = Object.entries(roofMix ?? {}).sort(([, a], [, b]) => b - a);
+
+  return {
+    lga: lga ?? '',
+    region: region ?? '',
+    coastalOrInland: coastal === undefined ? 'local' : coastal ? 'coastal' : 'inland',
+    housingEra: housingEra ?? '',
+    roofMix: materials.length > 0 ? describeRoofMix(roofMix!) : 'tile and metal',
+    mainRoofMaterial: materials[0]?.[0] ?? 'tile',
+  };
+}
@@ -0,0 +1,137 @@
+/**
+ * Suburb Lookup
+ * Compact index of the suburbs we service (built from suburbs.json at build
+ * time) and the fuzzy search behind the "Do you service my area?" widget.
+ * Runs in the browser too, so it must not import site config or data.
+ */
+
+/** [name, state, postcode, location page URL or "" for suburbs without a page] */
+export type LookupEntry = [string, string, string, string];
+
+export interface LookupSuburb {
+  name: string;
+  state: string;
+  postcode: string | null;
+}
+
+export interface LookupMatch {
+  name: string;
+  state: string;
+  postcode: string;
+  url: string | null;
+  /** 1 for an exact name or postcode match, lower for fuzzier matches */
+  score: number;
+}
+
+/** Fuzzy matches scoring below this are not shown */
+const MIN_SCORE = 0.7;
+
+/**
+ * Index entries for suburbs with pages and suburbs we service without one,
+ * sorted by name (duplicates of a suburb with a page are dropped)
+ */
+export function buildLookupIndex(
+  pages: Array<{ suburb: LookupSuburb; url: string }>,
+  others: LookupSuburb[] = []
+): LookupEntry[] {
+  const entries = new Map<string, LookupEntry>();
+  for (const suburb of others) {
+    entries.set(`${suburb.name}|${suburb.state}`, [suburb.name, suburb.state, suburb.postcode ?? '', '']);
+  }
+  for (const { suburb, url } of pages) {
+    entries.set(`${suburb.name}|${suburb.state}`, [suburb.name, suburb.state, suburb.postcode ?? '', url]);
+  }
+  return [...entries.values()].sort((a, b) => a[0].localeCompare(b[0]));
+}
+
+/**
+ * Lowercase, expand "St"/"Mt", and drop punctuation and a trailing state or
+ * postcode ("Burleigh Heads QLD 4220" → "burleigh heads")
+ */
+export function normaliseSuburbName(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .replace(/\b(act|nsw|nt|qld|sa|tas|vic|wa)\b/g, ' ')
+    .replace(/\b\d{4}\b/g, ' ')
+    .replace(/\bst\b/g, 'saint')
+    .replace(/\bmt\b/g, 'mount')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Edit distance allowing adjacent transpositions ("Burliegh" → "Burleigh" is 1)
+ */
+export function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+function similarity(a: string, b: string): number {
+  return 1 - editDistance(a, b) / Math.max(a.length, b.length);
+}
+
+function scoreName(query: string, name: string): number {
+  if (name === query) return 1;
+  if (name.startsWith(query)) return 0.9;
+  const wordStarts = [...name.matchAll(/ (?=\S)/g)].map((match) => match.index! + 1);
+  if (query.length >= 3 && wordStarts.some((start) => name.startsWith(query, start))) return 0.85;
+
+  // Typos: against the whole name, and against the start of the name or of a
+  // later word while the name is still being typed ("burliegh" → Burleigh Heads)
+  let score = similarity(query, name);
+  if (query.length >= 4) {
+    for (const start of [0, ...wordStarts]) {
+      const partial = similarity(query, name.slice(start, start + query.length));
+      score = Math.max(score, partial * (start === 0 ? 0.95 : 0.9));
+    }
+  }
+  return score;
+}
+
+/**
+ * Suburbs matching a name or postcode, best first. A 4 digit postcode returns
+ * every suburb with that postcode; names match exactly, by prefix or with
+ * small typos. Empty when nothing matches.
+ */
+export function searchLookupIndex(index: LookupEntry[], query: string, limit = 5): LookupMatch[] {
+  const trimmed = query.trim();
+  const postcode = trimmed.match(/^\d{3,4}$/)?.[0];
+  const name = normaliseSuburbName(trimmed);
+
+  const matches = index
+    .map(([entryName, state, entryPostcode, url]): LookupMatch => {
+      const score = postcode
+        ? (entryPostcode === postcode ? 1 : entryPostcode.startsWith(postcode) ? 0.8 : 0)
+        : name ? scoreName(name, normaliseSuburbName(entryName)) : 0;
+      return { name: entryName, state, postcode: entryPostcode, url: url || null, score };
+    })
+    .filter((match) => match.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score || Number(b.url !== null) - Number(a.url !== null) || a.name.localeCompare(b.name));
+
+  // A full postcode shows all of its suburbs; otherwise the best matches
+  return postcode && matches[0]?.score === 1
+    ? matches.filter((match) => match.score === 1)
+    : matches.slice(0, limit);
+}
+
+/**
+ * Whether a suburb name or postcode is one we service (an exact match, not a
+ * suggestion)
+ */
+export function isServicedSuburb(index: LookupEntry[], query: string): boolean {
+  return searchLookupIndex(index, query).some((match) => match.score === 1);
+}
@@ -0,0 +1,165 @@
+/**
+ * Suburb Overrides
+ * Layers a suburb's own content file (src/content/suburbs/<slug>.md) over the
+ * shared location sections: change a section's props, append to its lists
+ * (extra FAQs), switch it off, or insert new sections next to it. Everything
+ * not overridden still comes from the shared spintax template.
+ *
+ * Each entry points at one section of the shared template, by `id` or by
+ * component name when only one section uses that component, so the result
+ * does not depend on the order of the entries beyond inserts at the same spot
+ * (which keep file order). Anything ambiguous is an error.
+ */
+
+export interface LocationSection {
+  id?: string;
+  component: string;
+  enabled?: boolean;
+  props?: Record<string, any>;
+}
+
+export interface SectionOverride {
+  /** Shared section to change */
+  target?: string;
+  /** Shared section to insert a new section before or after */
+  before?: string;
+  after?: string;
+  /** Component of an inserted section */
+  component?: string;
+  id?: string;
+  enabled?: boolean;
+  /** Props merged over the shared section's props (or an inserted section's props) */
+  props?: Record<string, any>;
+  /** Items added to the end of the shared section's list props, e.g. `faqs` */
+  append?: Record<string, any[]>;
+}
+
+/**
+ * Thrown when a suburb file's overrides cannot be applied unambiguously
+ */
+export class SuburbOverrideError extends Error {
+  constructor(
+    public readonly file: string,
+    public readonly issues: string[]
+  ) {
+    super(`Invalid suburb overrides in ${file}:\n` + issues.map((issue) => `  - ${issue}`).join('\n'));
+    this.name = 'SuburbOverrideError';
+  }
+}
+
+function describe(override: SectionOverride, index: number): string {
+  const reference = override.target ?? override.before ?? override.after;
+  return `sections[${index}]${reference ? ` (${reference})` : ''}`;
+}
+
+/**
+ * Index of the shared section a reference names: an id, or a component used
+ * by exactly one section
+ */
+function findSection(sections: LocationSection[], reference: string): number | string {
+  const byId = sections.findIndex((section) => section.id === reference);
+  if (byId >= 0) return byId;
+
+  const byComponent = sections.flatMap((section, index) => section.component === reference ? [index] : []);
+  if (byComponent.length === 1) return byComponent[0];
+  if (byComponent.length > 1) {
+    return `"${reference}" matches ${byComponent.length} sections; give them an id in the shared template and use that`;
+  }
+  return `no section "${reference}" in the shared template`;
+}
+
+/**
+ * The shared sections with a suburb's overrides applied, in page order
+ */
+export function applySuburbOverrides(
+  sections: LocationSection[],
+  overrides: SectionOverride[],
+  file: string
+): LocationSection[] {
+  const issues: string[] = [];
+  const changed = sections.map((section) => ({ ...section, props: section.props && { ...section.props } }));
+  const inserted = new Map<number, { before: LocationSection[]; after: LocationSection[] }>();
+  const targeted = new Map<number, number>();
+  const anchors: Array<{ index: number; override: number }> = [];
+  const ids = new Set(sections.flatMap((section) => section.id ? [section.id] : []));
+
+  overrides.forEach((override, index) => {
+    const label = describe(override, index);
+    const references = [override.target, override.before, override.after].filter((value) => value !== undefined);
+    if (references.length !== 1) {
+      issues.push(`${label}: needs exactly one of target, before or after`);
+      return;
+    }
+
+    const found = findSection(sections, references[0]!);
+    if (typeof found === 'string') {
+      issues.push(`${label}: ${found}`);
+      return;
+    }
+
+    if (override.target !== undefined) {
+      if (override.component !== undefined && override.component !== sections[found].component) {
+        issues.push(`${label}: cannot change a section's component; switch it off and insert a new section instead`);
+        return;
+      }
+      if (targeted.has(found)) {
+        issues.push(`${label}: section already overridden by sections[${targeted.get(found)}]; combine them`);
+        return;
+      }
+      targeted.set(found, index);
+
+      const section = changed[found];
+      const props: Record<string, any> = { ...section.props, ...override.props };
+      for (const [key, items] of Object.entries(override.append ?? {})) {
+        if (props[key] !== undefined && props[key] !== null && !Array.isArray(props[key])) {
+          issues.push(`${label}: cannot append to "${key}", which is not a list`);
+          continue;
+        }
+        props[key] = [...(props[key] ?? []), ...items];
+      }
+      changed[found] = { ...section, props, ...(override.enabled !== undefined && { enabled: override.enabled }) };
+      return;
+    }
+
+    if (!override.component) {
+      issues.push(`${label}: inserted sections need a component`);
+      return;
+    }
+    if (override.append) {
+      issues.push(`${label}: append only applies to a target section`);
+      return;
+    }
+    if (override.id !== undefined) {
+      if (ids.has(override.id)) {
+        issues.push(`${label}: id "${override.id}" is already used`);
+        return;
+      }
+      ids.add(override.id);
+    }
+
+    const slot = inserted.get(found) ?? { before: [], after: [] };
+    slot[override.before !== undefined ? 'before' : 'after'].push({
+      ...(override.id !== undefined && { id: override.id }),
+      component: override.component,
+      enabled: override.enabled ?? true,
+      props: override.props ?? {},
+    });
+    inserted.set(found, slot);
+    anchors.push({ index: found, override: index });
+  });
+
+  // Inserting next to a section that is switched off is almost certainly a mistake
+  for (const { index, override } of anchors) {
+    if (changed[index].enabled === false) {
+      issues.push(`${describe(overrides[override], override)}: inserted next to a section that is switched off`);
+    }
+  }
+
+  if (issues.length > 0) throw new SuburbOverrideError(file, issues);
+
+  return changed.flatMap((section, index) => [
+    ...(inserted.get(index)?.before ?? []),
+    section,
+    ...(inserted.get(index)?.after ?? []),
+  ]);
+}
@@ -0,0 +1,69 @@
+/**
+ * Page Template Variables
+ * Replaces page-specific {{variables}} (service, suburb enrichment) before the
+ * sections reach LocationContext, which handles the location variables and Spintax.
+ *
+ * Also resolves conditional blocks and fallbacks against the same variables,
+ * so copy can cope with suburbs that have no postcode or enrichment:
+ *
+ *   {{#if postcode}} {{postcode}}{{/if}}
+ *   {{#if housingEra}}Most homes date from the {{housingEra}}.{{else}}Homes here vary in age.{{/if}}
+ *   {{#unless postcode}}...{{/unless}}
+ *   {{region|the Gold Coast}}
+ */
+
+export type TemplateValue = string | number | boolean | null | undefined;
+
+// Innermost block: no other {{#if}}/{{#unless}} inside, so nested blocks resolve inside out
+const BLOCK_PATTERN = /\{\{#(if|unless) ([A-Za-z]+)\}\}((?:(?!\{\{#(?:if|unless) )[\s\S])*?)\{\{\/\1\}\}/g;
+const FALLBACK_PATTERN = /\{\{([A-Za-z]+)\|([^{}]*)\}\}/g;
+const VARIABLE_PATTERN = /\{\{([A-Za-z]+)\}\}/g;
+
+/**
+ * Missing values: not in `variables`, null, false or a blank string
+ */
+function isPresent(variables: Record<string, TemplateValue>, key: string): boolean {
+  const value = Object.hasOwn(variables, key) ? variables[key] : undefined;
+  return value !== undefined && value !== null && value !== false && String(value).trim() !== '';
+}
+
+function applyToString(text: string, variables: Record<string, TemplateValue>): string {
+  let working = text;
+  let previous;
+  do {
+    previous = working;
+    working = working.replace(BLOCK_PATTERN, (_, kind: string, key: string, body: string) => {
+      const [then, otherwise = ''] = body.split('{{else}}');
+      return isPresent(variables, key) === (kind === 'if') ? then : otherwise;
+    });
+  } while (working !== previous);
+
+  return working
+    .replace(FALLBACK_PATTERN, (_, key: string, fallback: string) =>
+      isPresent(variables, key) ? String(variables[key]) : fallback
+    )
+    .replace(VARIABLE_PATTERN, (match, key: string) =>
+      Object.hasOwn(variables, key) ? String(variables[key] ?? '') : match
+    );
+}
+
+/**
+ * Replace {{name}} variables, {{#if name}}...{{else}}...{{/if}} blocks and
+ * {{name|fallback}} in strings, arrays and objects. Null values render as
+ * "". Variables not in `variables` are left untouched for LocationContext to
+ * process, but count as missing in blocks and fallbacks.
+ */
+export function applyTemplateVariables<T>(value: T, variables: Record<string, TemplateValue>): T {
+  if (typeof value === 'string') {
+    return applyToString(value, variables) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => applyTemplateVariables(item, variables)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, applyTemplateVariables(item, variables)])
+    ) as T;
+  }
+  return value;
+}
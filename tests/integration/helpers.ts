@@ -0,0 +1,65 @@
+/**
+ * Shared helpers for the integration test scripts
+ * Each script prints a ✅/❌ line per check, then a summary, and exits with 1
+ * when any check failed (see tests/run.ts for running them all)
+ */
+
+import path from 'path';
+import { spawnSync } from 'child_process';
+import { parseBusinessConfig } from '../../src/config/business-schema';
+
+let failures = 0;
+
+/**
+ * Print a check and count it when it fails. The detail goes on the next line.
+ */
+export function check(label: string, condition: boolean, detail?: string): void {
+  console.log(`${condition ? '✅' : '❌'} ${label}${detail ? `\n   ${detail}` : ''}`);
+  if (!condition) failures++;
+}
+
+/**
+ * Count a failure outside a check, e.g. a test that threw part way through
+ */
+export function fail(): void {
+  failures++;
+}
+
+/**
+ * Print the summary and exit: 0 with `passed` when every check passed
+ */
+export function finish(passed: string): never {
+  console.log(failures === 0 ? `\n${passed}` : `\n❌ ${failures} check(s) failed`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+/**
+ * Validation errors for business.yaml source text (none when it is valid)
+ */
+export function parseErrors(yaml: string): string[] {
+  try {
+    parseBusinessConfig(yaml);
+    return [];
+  } catch (error) {
+    return [(error as Error).message];
+  }
+}
+
+export interface ScriptRun {
+  status: number | null;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Run a script with tsx from the repo root, e.g. a post-build check against a
+ * temporary dist/
+ */
+export function runScript(script: string, args: string[] = [], env: NodeJS.ProcessEnv = {}): ScriptRun {
+  const run = spawnSync(path.join('node_modules', '.bin', 'tsx'), [script, ...args], {
+    encoding: 'utf8',
+    timeout: 60_000,
+    env: { ...process.env, ...env },
+  });
+  return { status: run.status, stdout: run.stdout, stderr: run.stderr };
+}
@@ -0,0 +1,201 @@
+/**
+ * Test script for booking requests
+ * Verifies the dates and arrival windows offered against business hours,
+ * notice, blackout dates and hours exceptions, the booking form checks, the
+ * calendar file, and that the quote handler turns back out-of-area bookings,
+ * replies with the calendar and emails it as an attachment
+ */
+
+import fs from 'fs';
+import { parseBusinessConfig } from '../../src/config/business-schema';
+import { buildHoursModel } from '../../src/utils/business-hours';
+import {
+  buildBookingCalendar,
+  checkBookingSlot,
+  getBookableDays,
+  getBookingRange,
+  getBookingSlots,
+  parseBookingRequest,
+  resolveBookingSettings,
+} from '../../src/utils/booking';
+import { escapeIcsText, foldIcsLine } from '../../src/utils/ics';
+import { buildLookupIndex, isServicedSuburb } from '../../src/utils/suburb-lookup';
+import { createLeadHandler } from '../../src/utils/lead-handler';
+import { formatBookingConfirmation, formatLeadEmail } from '../../src/utils/lead-delivery';
+import { formatMessage } from '../../src/utils/smtp';
+import type { LeadRecord } from '../../src/utils/lead-schema';
+import { check, finish, parseErrors } from './helpers';
+
+console.log('🧪 Testing Booking Requests\n');
+
+// Monday 19 October 2026, 10am in Brisbane
+const now = new Date('2026-10-19T00:00:00Z');
+const source = fs.readFileSync('config/business.yaml', 'utf8');
+const config = parseBusinessConfig(source);
+const settings = {
+  ...resolveBookingSettings(config.booking),
+  blackoutDates: [{ name: 'Fully booked', from: '2026-11-09', to: '2026-11-10' }],
+};
+const hours = buildHoursModel(config.hours, [
+  { name: 'Melbourne Cup', date: '2026-11-03', hours: '7:00 AM - 11:00 AM' },
+  { name: 'Christmas Day', date: '2026-12-25', hours: 'Closed' },
+], config.hours.timezone);
+
+// Test 1: Dates and windows
+const range = getBookingRange(settings, hours, now);
+check('Bookings open after the notice period and close at the horizon', range.first === '2026-10-21' && range.last === '2026-12-18', JSON.stringify(range));
+const weekday = getBookingSlots(settings, hours, '2026-10-21');
+check('Weekdays offer both windows', weekday.map((slot) => `${slot.window} ${slot.start}-${slot.end}`).join() === 'morning 07:00-12:00,afternoon 12:00-17:00',
+  JSON.stringify(weekday));
+const saturday = getBookingSlots(settings, hours, '2026-10-24');
+check('Windows are trimmed to shorter opening hours', saturday.map((slot) => `${slot.start}-${slot.end}`).join() === '08:00-12:00,12:00-16:00',
+  JSON.stringify(saturday));
+check('Closed days have no windows', getBookingSlots(settings, hours, '2026-10-25').length === 0);
+check('Hours exceptions drop windows they leave too short',
+  getBookingSlots(settings, hours, '2026-11-03').map((slot) => `${slot.window} ${slot.start}-${slot.end}`).join() === 'morning 07:00-11:00');
+check('Blackout dates have no windows', getBookingSlots(settings, hours, '2026-11-10').length === 0);
+const days = getBookableDays(settings, hours, now);
+check('Bookable days skip Sundays and blackouts',
+  days[0].date === '2026-10-21' && !days.some((day) => ['2026-10-25', '2026-11-09', '2026-11-10'].includes(day.date)), days.slice(0, 6).map((day) => day.date).join());
+
+// Test 2: Checking a chosen time
+const slot = (date: string, window: string) => checkBookingSlot(settings, hours, date, window, now);
+const message = (result: ReturnType<typeof slot>) => result.ok ? '' : result.error;
+check('Dates inside the notice period are refused', message(slot('2026-10-20', 'morning')) === 'Please choose a date from Wednesday 21 October');
+check('Dates past the horizon are refused', message(slot('2027-01-05', 'morning')).includes('60 days ahead'));
+check('Closed days say so', message(slot('2026-10-25', 'morning')) === "We're closed on Sunday 25 October");
+check('Blackouts give their name', message(slot('2026-11-09', 'morning')).endsWith('(Fully booked)'));
+check('A window the day doesn\'t offer is refused', message(slot('2026-11-03', 'afternoon')) === 'Please choose a time of day for Tuesday 3 November');
+const ok = slot('2026-10-24', 'afternoon');
+check('An open window is the trimmed slot', ok.ok && ok.slot.end === '16:00');
+
+// Test 3: Booking form fields
+const fields = {
+  request_type: 'booking',
+  street_address: '12 Ocean Parade',
+  property_type: 'House',
+  storeys: 'Two storey',
+  preferred_date_1: '2026-10-21',
+  preferred_window_1: 'morning',
+  preferred_date_2: '2026-10-24',
+  preferred_window_2: 'afternoon',
+};
+const parsed = parseBookingRequest(fields, settings, hours, now);
+check('A booking request is parsed with its preferences in order',
+  parsed?.ok === true && parsed.booking.preferences.map((pref) => pref.date).join() === '2026-10-21,2026-10-24' && parsed.booking.timezone === 'Australia/Brisbane',
+  JSON.stringify(parsed));
+check('Quote requests are not bookings', parseBookingRequest({ ...fields, request_type: '' }, settings, hours, now) === undefined);
+const invalid = parseBookingRequest({
+  ...fields,
+  street_address: '',
+  property_type: 'Castle',
+  preferred_date_2: '2026-10-21',
+  preferred_window_2: 'morning',
+  preferred_date_3: '2026-10-25',
+  preferred_window_3: 'morning',
+}, settings, hours, now);
+check('Each invalid field gets a message',
+  invalid?.ok === false && Object.keys(invalid.errors).join() === 'street_address,property_type,preferred_date_2,preferred_date_3'
+    && invalid.errors.preferred_date_2 === 'You have already chosen this time', JSON.stringify(invalid));
+const none = parseBookingRequest({ ...fields, preferred_date_1: '', preferred_window_1: '', preferred_date_2: '', preferred_window_2: '' }, settings, hours, now);
+check('At least one date is needed', none?.ok === false && none.errors.preferred_date_1 === 'Please choose a preferred date');
+
+// Test 4: Calendar file
+check('Text values are escaped', escapeIcsText('a,b;c\\d\ne') === 'a\\,b\\;c\\\\d\\ne');
+const folded = foldIcsLine(`DESCRIPTION:${'é'.repeat(60)}`);
+check('Long lines fold at 75 octets without splitting characters',
+  folded.split('\r\n ').every((line, i) => Buffer.byteLength(line) <= (i === 0 ? 75 : 74)) && folded.replace(/\r\n /g, '') === `DESCRIPTION:${'é'.repeat(60)}`);
+const lead = {
+  id: '3f2b9c1a-0000-4000-8000-000000000000',
+  receivedAt: '2026-10-19T00:00:00.000Z',
+  name: 'Sam Citizen',
+  phone: '0412345678',
+  email: 'sam@example.com',
+  suburb: 'Burleigh Heads',
+  service: 'Tile Roof Cleaning',
+  spamScore: 0,
+  spamReasons: [],
+  booking: parsed?.ok ? parsed.booking : undefined,
+} as LeadRecord;
+const calendar = buildBookingCalendar({ ...lead, booking: lead.booking! }, { businessName: 'Roof Pros', phone: '07 5555 0000', domain: 'example.com' });
+check('The event is the first choice in UTC (7am Brisbane)',
+  calendar.includes('\r\nDTSTART:20261020T210000Z\r\n') && calendar.includes('\r\nDTEND:20261021T020000Z\r\n'), calendar);
+check('The event is tentative, with the address and reference',
+  calendar.includes('STATUS:TENTATIVE') && calendar.includes('LOCATION:12 Ocean Parade\\, Burleigh Heads') && calendar.includes('UID:3f2b9c1a-0000-4000-8000-000000000000@example.com')
+    && calendar.replace(/\r\n /g, '').includes('Reference: 3F2B9C1A'));
+check('Other choices are listed in the description', calendar.replace(/\r\n /g, '').includes('Saturday 24 October\\, Afternoon (12pm – 4pm)'));
+
+// Test 5: Lead emails
+const email = formatLeadEmail(lead, 'Roof Pros');
+check('Booking emails list the address and preferred times',
+  email.subject.startsWith('New booking request:') && email.text.includes('Address: 12 Ocean Parade') && email.text.includes('Property: House, Two storey')
+    && email.text.includes('Preferred time 2: Saturday 24 October, Afternoon (12pm – 4pm)'), email.text);
+const raw = formatMessage({ from: 'leads@example.com', to: ['office@example.com'], ...email });
+const attachment = raw.split(/\r\n--/).find((part) => part.includes('booking-request.ics'));
+check('The calendar file is attached',
+  raw.includes('Content-Type: multipart/mixed') && attachment !== undefined && attachment.includes('text/calendar; charset=utf-8; method=PUBLISH')
+    && Buffer.from(attachment.split('\r\n\r\n')[1].replace(/\r\n/g, ''), 'base64').toString('utf8').startsWith('BEGIN:VCALENDAR'));
+const confirmation = formatBookingConfirmation(lead, 'Roof Pros', '07 5555 0000');
+check('The customer confirmation repeats the request', confirmation.text.includes('with Roof Pros') && confirmation.text.includes('Your reference: 3F2B9C1A')
+  && confirmation.text.includes('2. Saturday 24 October, Afternoon (12pm – 4pm)') && confirmation.attachments?.length === 1);
+const customerCalendar = confirmation.attachments?.[0].content ?? '';
+check('Nothing the visitor typed is in the customer confirmation',
+  !['Sam', '0412345678', 'Ocean Parade', 'Burleigh', 'Tile Roof Cleaning'].some((text) => `${confirmation.subject}${confirmation.text}${customerCalendar}`.includes(text))
+    && customerCalendar.includes('SUMMARY:Booking (requested) - Roof Pros') && !customerCalendar.includes('LOCATION:'), confirmation.text);
+check('Quote emails have no attachment', formatLeadEmail({ ...lead, booking: undefined }).attachments === undefined);
+
+// Test 6: Handler
+const delivered: LeadRecord[] = [];
+const confirmed: LeadRecord[] = [];
+const logs: string[] = [];
+const serviceArea = buildLookupIndex([], [{ name: 'Burleigh Heads', state: 'QLD', postcode: '4220' }]);
+const handler = createLeadHandler({
+  deliveries: [{ name: 'memory', acceptsSpam: true, async deliver(record) { delivered.push(record); } }],
+  booking: { settings, hours, isServiced: (suburb) => isServicedSuburb(serviceArea, suburb), phone: '07 5555 0000' },
+  confirmBooking: async (record) => { confirmed.push(record); },
+  now: () => now,
+  log: (line) => logs.push(line),
+});
+const post = (body: Record<string, string>) => handler(new Request('https://example.com/api/quote', {
+  method: 'POST',
+  headers: { Accept: 'application/json', 'Content-Type': 'application/json' },
+  body: JSON.stringify({ name: 'Sam Citizen', phone: '0412345678', email: 'sam@example.com', form_started_at: String(now.getTime() - 60_000), ...body }),
+}));
+
+const outside = await post({ ...fields, suburb: 'Perth' });
+const outsideBody = await outside.json();
+check('Bookings outside the service area are turned back', outside.status === 422 && outsideBody.errors.suburb?.includes("we don't take bookings in Perth"),
+  JSON.stringify(outsideBody));
+const mixed = await post({ ...fields, suburb: 'Burleigh Heads', phone: '', preferred_date_1: '2026-10-25' });
+const mixedBody = await mixed.json();
+check('Lead and booking errors come back together', mixed.status === 422 && 'phone' in mixedBody.errors && 'preferred_date_1' in mixedBody.errors,
+  JSON.stringify(mixedBody));
+const quote = await post({ suburb: 'Perth', service: 'Tile Roof Cleaning' });
+check('Quote requests from anywhere are still taken', quote.status === 200 && !(await quote.json()).calendar);
+
+const booked = await post({ ...fields, suburb: 'burleigh heads', service: 'Tile Roof Cleaning' });
+const bookedBody = await booked.json();
+check('A booking is accepted with its calendar file', booked.status === 200 && bookedBody.calendar?.startsWith('BEGIN:VCALENDAR')
+  && bookedBody.redirect.includes('type=booking'), JSON.stringify(bookedBody));
+const record = delivered.at(-1);
+check('The lead carries the booking', record?.booking?.preferences.length === 2 && record.booking.streetAddress === '12 Ocean Parade');
+check('The customer is sent a confirmation', confirmed.length === 1 && confirmed[0].id === record?.id
+  && logs.some((line) => line.endsWith('→ booking confirmation to the customer')));
+await post({ ...fields, suburb: 'Burleigh Heads', message: 'http://spam.example http://spam.example/2', form_started_at: String(now.getTime()) });
+check('Spam bookings aren\'t confirmed', delivered.at(-1)?.spamScore! >= 0.7 && confirmed.length === 1, JSON.stringify(delivered.at(-1)?.spamReasons));
+for (let i = 0; i < 3; i++) await post({ ...fields, suburb: 'Burleigh Heads', email: 'SAM@example.com' });
+check('Confirmations to one address are rate limited', confirmed.length === 3 && logs.at(-1)?.includes('no booking confirmation') === true,
+  `${confirmed.length} confirmations`);
+
+// Test 7: Config checks
+const afternoon = '    - { id: afternoon, label: "Afternoon", from: "12:00", to: "17:00" }\n';
+check('business.yaml booking settings resolve', settings.windows.length === 2 && settings.minNoticeDays === 2 && settings.maxPreferences === 3);
+check('Blackout dates take a date or a range', resolveBookingSettings(parseBusinessConfig(source.replace(afternoon,
+  `${afternoon}  blackout_dates:\n    - { name: Stocktake, date: 2026-11-20 }\n    - { from: 2026-12-21, to: 2026-12-24 }\n`)).booking)
+  .blackoutDates.map((blackout) => `${blackout.from}/${blackout.to}`).join() === '2026-11-20/2026-11-20,2026-12-21/2026-12-24');
+check('Windows must end after they start',
+  parseErrors(source.replace('from: "12:00", to: "17:00"', 'from: "17:00", to: "12:00"')).some((text) => text.includes('booking.windows')));
+check('The notice period must fit in the booking horizon',
+  parseErrors(source.replace('  min_notice_days: 2', '  min_notice_days: 90')).some((text) => text.includes('min_notice_days must not be greater than max_days_ahead')));
+
+finish('✨ All booking request tests passed');
@@ -0,0 +1,41 @@
+/**
+ * Test script for nearest-branch assignment
+ * Verifies suburbs are tagged with the closest branch and that exports
+ * without branches are left unchanged
+ */
+
+import fs from 'fs';
+import { assignNearestBranches, findNearestBranch, type BranchLocation } from '../../scripts/lib/branch-assignment';
+import type { Suburb } from '../../scripts/lib/suburb-providers';
+import { check, finish } from './helpers';
+
+console.log('🧪 Testing Branch Assignment\n');
+
+const branches: BranchLocation[] = [
+  { id: 'bundall', lat: -28.0023, lng: 153.4174 },
+  { id: 'tweed-heads', lat: -28.1761, lng: 153.5410 },
+];
+const { suburbs }: { suburbs: Suburb[] } = JSON.parse(fs.readFileSync('src/data/suburbs.json', 'utf8'));
+const byName = (name: string) => suburbs.find((suburb) => suburb.name === name)!;
+
+// Test 1: Suburbs go to the closer branch
+const tagged = assignNearestBranches(suburbs, branches);
+const branchOf = (name: string) => tagged.find((suburb) => suburb.name === name)?.branch?.id;
+check('Southport is served from Bundall', branchOf('Southport') === 'bundall');
+check('Coolangatta is served from Tweed Heads', branchOf('Coolangatta') === 'tweed-heads');
+check('Every suburb has a branch', tagged.every((suburb) => suburb.branch));
+
+// Test 2: Distance and direction are relative to the branch
+const fromBundall = findNearestBranch([branches[0]], byName('Southport').latitude, byName('Southport').longitude);
+check(
+  'Single-branch distance matches the exported distance from the centre',
+  fromBundall?.distanceKm === byName('Southport').distanceKm && fromBundall?.direction === byName('Southport').direction,
+  `${fromBundall?.distanceKm}km ${fromBundall?.direction}`
+);
+const coolangatta = tagged.find((suburb) => suburb.name === 'Coolangatta')?.branch;
+check('Coolangatta distance is measured from Tweed Heads', coolangatta !== undefined && coolangatta.distanceKm < 2, `${coolangatta?.distanceKm}km ${coolangatta?.direction}`);
+
+// Test 3: No branches leaves the suburbs untouched
+check('No branches leaves suburbs unchanged', JSON.stringify(assignNearestBranches(suburbs, [])) === JSON.stringify(suburbs));
+
+finish('✅ Branch assignment test complete!');
@@ -0,0 +1,119 @@
+/**
+ * Test script for the business.yaml schema
+ * Verifies the committed config is valid, and that typos, wrong values and
+ * broken YAML are reported with the key path and the line they are on,
+ * including in a site profile layered over the base config
+ */
+
+import fs from 'fs';
+import {
+  BusinessConfigError,
+  checkServiceReferences,
+  locateYamlPath,
+  mergeConfig,
+  parseBusinessConfig,
+  parseLayeredBusinessConfig,
+  type BusinessConfigIssue,
+  type BusinessConfigSource,
+} from '../../src/config/business-schema';
+import { check, finish } from './helpers';
+
+function issuesOf(sources: BusinessConfigSource[]): BusinessConfigIssue[] {
+  try {
+    parseLayeredBusinessConfig(sources);
+    return [];
+  } catch (error) {
+    if (error instanceof BusinessConfigError) return error.issues;
+    throw error;
+  }
+}
+
+// business.yaml with one line changed, and the line number of the change
+function edit(find: string, replace: string): { source: string; line: number } {
+  if (!base.includes(find)) throw new Error(`"${find}" is not in config/business.yaml`);
+  return { source: base.replace(find, replace), line: base.split('\n').findIndex((text) => text.includes(find)) + 1 };
+}
+
+const file = 'config/business.yaml';
+const base = fs.readFileSync(file, 'utf8');
+const find = (issues: BusinessConfigIssue[], path: string) => issues.find((issue) => issue.path === path);
+
+console.log('🧪 Testing Business Config Schema\n');
+
+// Test 1: The committed config
+const config = parseBusinessConfig(base);
+check('config/business.yaml is valid', config.business.name.length > 0 && config.service.radius_km > 0);
+check('Footer keys missing from the old interface are read', config.footer.suburb_selection_mode === 'best_match'
+  && config.footer.auto_supplement === false && (config.footer.featured_suburbs?.length ?? 0) > 0);
+const noFooter = parseBusinessConfig(base.slice(0, base.indexOf('\nfooter:')));
+check('and have defaults', noFooter.footer.suburb_selection_mode === 'best_match' && noFooter.footer.auto_supplement === true
+  && noFooter.footer.suburb_limit === undefined);
+
+// Test 2: Typos and wrong values point at the offending line
+const typo = edit('  phone: (07) 5230 7381', '  phnoe: (07) 5230 7381');
+const typoIssues = issuesOf([{ file, source: typo.source }]);
+check('A mistyped key is reported on its own line', find(typoIssues, 'business.phnoe')?.line === typo.line, JSON.stringify(typoIssues));
+check('and the key it replaced as missing, on its section\'s line', find(typoIssues, 'business.phone')?.line === locateYamlPath(base, ['business']));
+
+const radius = edit('radius_km: 22', 'radius_km: twenty');
+check('Wrong types', find(issuesOf([{ file, source: radius.source }]), 'service.radius_km')?.line === radius.line);
+
+const hours = edit('monday: 7:00 AM - 5:00 PM', 'monday: 7:00 AM - 5:00 PX');
+const hoursIssue = find(issuesOf([{ file, source: hours.source }]), 'hours.monday');
+check('Hours strings are parsed', hoursIssue?.line === hours.line && hoursIssue.message.includes('Expected "Closed"'), hoursIssue?.message);
+
+const colour = edit('primary: 1E40AF', 'primary: "#1E40AF"');
+check('Colours without the #', find(issuesOf([{ file, source: colour.source }]), 'colors.primary')?.line === colour.line);
+
+// Test 3: Sequence items are counted to the right line
+const addOn = edit('- id: solar', '- id: gutters');
+check('Block sequence items', find(issuesOf([{ file, source: addOn.source }]), 'pricing.add_ons.1.id')?.line === addOn.line);
+check('Nested keys of the same name are skipped', locateYamlPath(base, ['pricing', 'add_ons']) === base.split('\n').indexOf('  add_ons:') + 1);
+
+const bookingWindow = edit('{ id: afternoon, label: "Afternoon", from: "12:00", to: "17:00" }', '{ id: afternoon, label: "Afternoon", from: "12:00", to: "11:00" }');
+const windowIssue = find(issuesOf([{ file, source: bookingWindow.source }]), 'booking.windows.1.to');
+check('Flow mappings inside a sequence stay on the item\'s line', windowIssue?.line === bookingWindow.line && windowIssue.message === 'from must be before to');
+
+const nested = 'a:\n  items:\n    - name: one\n    - name: two\n      # comment\n      value: 2\nb: 1\n';
+check('Keys under a sequence item', locateYamlPath(nested, ['a', 'items', 1, 'value']) === 6 && locateYamlPath(nested, ['b']) === 7);
+check('Falls back to the deepest key found', locateYamlPath(nested, ['a', 'items', 1, 'missing']) === 4);
+
+// Test 4: Every problem at once, in a readable error
+const twoProblems = radius.source.replace('  phone: (07) 5230 7381', '  phone: call us');
+try {
+  parseBusinessConfig(twoProblems);
+  check('Invalid config throws', false);
+} catch (error) {
+  const message = (error as Error).message;
+  check('All problems are reported together', error instanceof BusinessConfigError && error.issues.length === 2);
+  check('Each as file:line path: message', message.includes(`${file}:${radius.line} service.radius_km: `)
+    && message.includes(`${file}:${typo.line} business.phone: Expected a phone number`), message);
+}
+
+// Test 5: Broken YAML
+const broken = edit('  tagline: Professional', '  tagline: Professional: Roof');
+const yamlIssues = issuesOf([{ file, source: broken.source }]);
+check('YAML syntax errors have a line', yamlIssues.length === 1 && yamlIssues[0].line === broken.line, JSON.stringify(yamlIssues));
+
+// Test 6: Site profiles
+const profileFile = 'config/sites/southport/business.yaml';
+const profile = 'business:\n  name: Southport Roof Cleaning\n  phone: call us\n';
+const layered = issuesOf([{ file, source: radius.source }, { file: profileFile, source: profile }]);
+check('Problems in a profile are reported in the profile', find(layered, 'business.phone')?.file === profileFile
+  && find(layered, 'business.phone')?.line === 3, JSON.stringify(layered));
+check('and problems in the base config in the base config', find(layered, 'service.radius_km')?.file === file
+  && find(layered, 'service.radius_km')?.line === radius.line);
+const merged = mergeConfig({ business: { name: 'Base', phone: '1' }, list: [1, 2] }, { business: { name: 'Profile' }, list: [3] });
+check('Profiles merge deeply and replace lists', JSON.stringify(merged) === '{"business":{"name":"Profile","phone":"1"},"list":[3]}');
+
+// Test 7: Pricing for services that don't exist
+try {
+  checkServiceReferences(config, [{ file, source: base }], ['tile-roof-cleaning', 'metal-roof-cleaning', 'solar-panel-cleaning']);
+  check('Pricing for a missing service is refused', false);
+} catch (error) {
+  const issue = (error as BusinessConfigError).issues?.[0];
+  check('Pricing for a missing service is refused', issue?.path === 'pricing.services.gutter-cleaning'
+    && issue.line === locateYamlPath(base, ['pricing', 'services', 'gutter-cleaning']) && issue.line !== undefined, JSON.stringify(issue));
+}
+
+finish('✨ All business config tests passed');
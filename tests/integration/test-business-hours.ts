@@ -0,0 +1,108 @@
+/**
+ * Test script for the business hours model
+ * Verifies parsing of the hours strings in business.yaml, holiday and
+ * seasonal exceptions, open/closed status in the business's timezone
+ * (including across a daylight saving change), the "open now" wording and
+ * the schema.org opening hours
+ */
+
+import {
+  buildHoursModel,
+  describeOpenStatus,
+  getHoursForDate,
+  getOpenStatus,
+  getZonedParts,
+  isOpenAt,
+  parseHoursString,
+  toInstant,
+  toOpeningHoursSpecification,
+  toSpecialOpeningHoursSpecification,
+  type Day,
+} from '../../src/utils/business-hours';
+import { check, finish } from './helpers';
+
+function parseError(value: string): string {
+  try {
+    parseHoursString(value);
+    return '';
+  } catch (error) {
+    return (error as Error).message;
+  }
+}
+
+console.log('🧪 Testing Business Hours\n');
+
+// Test 1: Hours strings
+check('12-hour ranges', JSON.stringify(parseHoursString('7:00 AM - 5:00 PM')) === '[{"opens":"07:00","closes":"17:00"}]');
+check('24-hour split shifts', JSON.stringify(parseHoursString('07:00-12:00, 13:00-17:30'))
+  === '[{"opens":"07:00","closes":"12:00"},{"opens":"13:00","closes":"17:30"}]');
+check('Noon, midnight and dotted meridiems', JSON.stringify([...parseHoursString('12:00 AM - 6 a.m.'), ...parseHoursString('12 p.m. - 11:30 p.m.')])
+  === '[{"opens":"00:00","closes":"06:00"},{"opens":"12:00","closes":"23:30"}]');
+check('"24 hours" is the whole day', JSON.stringify(parseHoursString('24 hours')) === '[{"opens":"00:00","closes":"23:59"}]');
+check('Closed days have no ranges', parseHoursString('Closed').length === 0);
+check('Ambiguous and impossible times are refused',
+  parseError('7 - 5').includes('needs minutes or AM/PM') && parseError('13:00 PM - 5:00 PM').includes('Invalid 12-hour time')
+    && parseError('25:00 - 26:00').includes('Invalid time') && parseError('soon - later') !== '');
+check('Ranges must close after they open', parseError('5:00 PM - 7:00 AM').includes('Closing time must be after opening time'));
+
+// Test 2: Exceptions
+const weekdays = '7:00 AM - 5:00 PM';
+const weekly = {
+  monday: weekdays, tuesday: weekdays, wednesday: weekdays, thursday: weekdays, friday: weekdays,
+  saturday: '8:00 AM - 12:00 PM', sunday: 'Closed',
+} as Record<Day, string>;
+const model = buildHoursModel(weekly, [
+  { name: 'Christmas shutdown', from: '2026-12-24', to: '2027-01-04' },
+  { name: 'Christmas Eve', date: '2026-12-24', hours: '8:00 AM - 12:00 PM' },
+  { name: 'Labour Day', date: '2026-10-05' },
+]);
+check('A weekday has the weekly hours', JSON.stringify(getHoursForDate(model, '2026-10-20')) === '[{"opens":"07:00","closes":"17:00"}]');
+check('A public holiday closes the day', getHoursForDate(model, '2026-10-05').length === 0);
+check('A seasonal closure covers its range', getHoursForDate(model, '2026-12-29').length === 0 && getHoursForDate(model, '2027-01-05').length === 1);
+check('A single day beats the range around it', JSON.stringify(getHoursForDate(model, '2026-12-24')) === '[{"opens":"08:00","closes":"12:00"}]');
+
+// Test 3: Open status in Queensland time
+const brisbane = (local: string) => new Date(`${local}+10:00`);
+check('Open during the day', isOpenAt(model, brisbane('2026-10-20T09:00:00')) && getOpenStatus(model, brisbane('2026-10-20T09:00:00')).closesAt === '17:00');
+check('Closing time is exclusive', !isOpenAt(model, brisbane('2026-10-20T17:00:00')));
+check('The timezone is the business\'s, not UTC', isOpenAt(model, new Date('2026-10-19T21:30:00Z')) && !isOpenAt(model, new Date('2026-10-20T08:00:00Z')));
+const sunday = getOpenStatus(model, brisbane('2026-10-18T10:00:00'));
+check('Closed on Sunday until Monday morning', !sunday.isOpen && JSON.stringify(sunday.nextOpen) === '{"date":"2026-10-19","day":"monday","time":"07:00"}',
+  JSON.stringify(sunday));
+const holiday = getOpenStatus(model, brisbane('2026-10-05T10:00:00'));
+check('Holidays are closed, with the exception attached', !holiday.isOpen && holiday.exception?.name === 'Labour Day' && holiday.nextOpen?.date === '2026-10-06');
+check('The next opening skips a seasonal closure', getOpenStatus(model, brisbane('2026-12-28T10:00:00')).nextOpen?.date === '2027-01-05');
+
+// Test 4: Daylight saving (Sydney moves from +10:00 to +11:00 on 4 October 2026)
+const sydney = buildHoursModel(weekly, [], 'Australia/Sydney');
+check('Local times become the right instants either side of the change',
+  toInstant('2026-10-03', '09:00', 'Australia/Sydney').toISOString() === '2026-10-02T23:00:00.000Z'
+    && toInstant('2026-10-05', '09:00', 'Australia/Sydney').toISOString() === '2026-10-04T22:00:00.000Z');
+check('and back again', JSON.stringify(getZonedParts(new Date('2026-10-04T22:00:00Z'), 'Australia/Sydney'))
+  === '{"date":"2026-10-05","day":"monday","minutes":540}');
+check('Opening hours follow the clock after the change',
+  isOpenAt(sydney, new Date('2026-10-04T20:30:00Z')) && !isOpenAt(sydney, new Date('2026-10-04T19:30:00Z'))
+    && isOpenAt(model, new Date('2026-10-05T21:30:00Z')));
+
+// Test 5: "Open now" wording
+const words = (local: string) => describeOpenStatus(getOpenStatus(model, brisbane(local)), local.slice(0, 10));
+check('Open, with the closing time', words('2026-10-20T09:00:00') === 'Open now, closes 5pm', words('2026-10-20T09:00:00'));
+check('Closed until later today', words('2026-10-20T06:00:00') === 'Closed, opens at 7am', words('2026-10-20T06:00:00'));
+check('Closed until tomorrow', words('2026-10-20T18:00:00') === 'Closed, opens tomorrow at 7am');
+check('Closed for a holiday', words('2026-10-05T10:00:00') === 'Closed for Labour Day, opens tomorrow at 7am', words('2026-10-05T10:00:00'));
+check('Longer closures give the date', words('2026-12-28T10:00:00') === 'Closed for Christmas shutdown, opens Tuesday 5 January at 7am',
+  words('2026-12-28T10:00:00'));
+
+// Test 6: schema.org
+const specification = toOpeningHoursSpecification(model);
+check('Days with the same hours are grouped with ISO times', JSON.stringify(specification[0]) === JSON.stringify({
+  '@type': 'OpeningHoursSpecification',
+  dayOfWeek: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'],
+  opens: '07:00',
+  closes: '17:00',
+}), JSON.stringify(specification));
+const special = toSpecialOpeningHoursSpecification(model);
+check('Closures are special hours of 00:00-00:00', special.some((entry) => entry.name === 'Labour Day' && entry.opens === '00:00' && entry.closes === '00:00'
+  && entry.validFrom === '2026-10-05' && entry.validThrough === '2026-10-05'));
+
+finish('✨ All business hours tests passed');
@@ -0,0 +1,107 @@
+/**
+ * Test script for content uniqueness
+ * Verifies word shingles and MinHash estimates of page similarity, the text
+ * and sections taken from built pages, and that the post-build analyser
+ * reports the most similar pages and sections and fails above its threshold
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { estimateSimilarity, minHashSignature, shingles } from '../../scripts/lib/minhash';
+import { extractMain, extractSections, htmlToText } from '../../scripts/lib/dist-pages';
+import { check, finish, runScript, type ScriptRun } from './helpers';
+
+const VOCABULARY = ('roof tile metal gutter moss lichen mould stain clean wash rinse soft pressure gentle treatment sealing '
+  + 'paint coating colour ridge valley flashing house home property street coast beach hinterland family local team quote '
+  + 'price visit weekend morning storm summer salt air leaves debris downpipe water tank solar panel safety harness ladder').split(' ');
+
+// Deterministic filler text, different for each seed
+function words(seed: number, count: number): string {
+  let state = seed;
+  return Array.from({ length: count }, () => {
+    state = (Math.imul(state, 1103515245) + 12345) >>> 0;
+    return VOCABULARY[(state >>> 8) % VOCABULARY.length];
+  }).join(' ');
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  const shared = [...a].filter((shingle) => b.has(shingle)).length;
+  return shared / (a.size + b.size - shared);
+}
+
+console.log('🧪 Testing Content Uniqueness\n');
+
+// Test 1: Shingles
+check('Lower-cased word runs, punctuation ignored', JSON.stringify([...shingles('Roof cleaning, on the Gold Coast!', 3)])
+  === '["roof cleaning on","cleaning on the","on the gold","the gold coast"]');
+check('Short texts are a single shingle', JSON.stringify([...shingles('Roof cleaning', 5)]) === '["roof cleaning"]' && shingles('').size === 0);
+
+// Test 2: MinHash estimates
+const base = words(1, 300);
+const edited = `${base.split(' ').slice(0, 225).join(' ')} ${words(2, 75)}`;
+check('Identical texts are 100% similar', estimateSimilarity(minHashSignature(base), minHashSignature(base)) === 1);
+check('Unrelated texts are close to 0%', estimateSimilarity(minHashSignature(base), minHashSignature(words(3, 300))) < 0.05);
+const estimate = estimateSimilarity(minHashSignature(base), minHashSignature(edited));
+const actual = jaccard(shingles(base), shingles(edited));
+check('Estimates are close to the true Jaccard similarity', Math.abs(estimate - actual) < 0.1, `estimated ${estimate.toFixed(2)}, actual ${actual.toFixed(2)}`);
+check('Signatures of different sizes can\'t be compared', (() => {
+  try {
+    estimateSimilarity(minHashSignature(base, { numHashes: 64 }), minHashSignature(base));
+    return false;
+  } catch {
+    return true;
+  }
+})());
+
+// Test 3: Text from built pages
+const html = '<header>Menu</header><main><section><h2>One &amp; only</h2><section>inner</section></section><script>var x = 1;</script>'
+  + '<section><p>Two&nbsp;words</p></section></main><footer>Footer</footer>';
+const main = extractMain(html);
+check('Only the <main> element', !main.includes('Menu') && !main.includes('Footer'));
+check('Top-level sections, nested ones kept inside', extractSections(main).length === 2 && extractSections(main)[0].includes('inner'));
+check('Visible text without scripts, entities decoded', htmlToText(main) === 'One & only inner Two words');
+
+// Test 4: The post-build analyser
+const dist = fs.mkdtempSync(path.join(os.tmpdir(), 'uniqueness-'));
+const boilerplate = words(10, 120);
+const page = (slug: string, seed: number) => {
+  fs.mkdirSync(path.join(dist, 'locations', slug), { recursive: true });
+  fs.writeFileSync(path.join(dist, 'locations', slug, 'index.html'), `<html><body><main>
+    <section><h2>Why choose us</h2><p>${boilerplate}</p></section>
+    <section><h2>About ${slug}</h2><p>${words(seed, 200)}</p></section>
+  </main></body></html>`);
+};
+page('southport', 100);
+page('labrador', 100);
+page('robina', 200);
+fs.writeFileSync(path.join(dist, 'locations', 'index.html'), `<main>${words(300, 200)}</main>`);
+
+const reportPath = path.join(dist, 'report.json');
+const analyse = (args: string[], envThreshold = '') => runScript('scripts/analyze-content-uniqueness.ts', [`--dist=${dist}`, ...args],
+  { CONTENT_SIMILARITY_THRESHOLD: envThreshold });
+
+// Script output, shown only when a check on it fails
+const output = (ok: boolean, run: ScriptRun) => ok ? undefined : run.stdout + run.stderr;
+
+const reportOnly = analyse([`--report=${reportPath}`]);
+const report = JSON.parse(fs.readFileSync(reportPath, 'utf8'));
+const reported = reportOnly.status === 0 && reportOnly.stdout.includes('Pages analysed: 3 (3 pairs)');
+check('Without a threshold it only reports', reported, output(reported, reportOnly));
+check('The locations index isn\'t a location page', !JSON.stringify(report.pairs).includes('"/locations/"'));
+const [top] = report.pairs;
+check('The most similar pair comes first', [top.a, top.b].sort().join(' ') === '/locations/labrador/ /locations/southport/' && top.similarity > 0.9,
+  JSON.stringify(top));
+check('Sections with the least variety come first', report.sections[0].heading === 'Why choose us' && report.sections[0].mean === 1
+  && report.sections[1].mean < 1, JSON.stringify(report.sections.map((section: { heading: string; mean: number }) => [section.heading, section.mean])));
+
+const failed = analyse(['--threshold=0.9']);
+const overThreshold = failed.status === 1 && failed.stderr.includes('1 page pairs are more than 90.0% similar');
+check('Pairs above the threshold fail the build', overThreshold, output(overThreshold, failed));
+const passed = analyse([], '0.99');
+const fromEnv = passed.status === 0 && passed.stdout.includes('No page pairs above 99.0% similarity');
+check('The threshold can come from CONTENT_SIMILARITY_THRESHOLD', fromEnv, output(fromEnv, passed));
+check('Thresholds outside 0-1 are refused', analyse(['--threshold=90']).status === 1);
+fs.rmSync(dist, { recursive: true });
+
+finish('✨ All content uniqueness tests passed');
@@ -0,0 +1,70 @@
+/**
+ * Test script for lead attribution
+ * Verifies landings record UTM parameters and external referrers, the hidden
+ * form fields round-trip through parseAttribution, and untrusted values are
+ * dropped
+ */
+
+import {
+  attributionFields,
+  describeAttribution,
+  parseAttribution,
+  touchFor,
+} from '../../src/utils/lead-attribution';
+import { validateLead } from '../../src/utils/lead-schema';
+import { check, finish } from './helpers';
+
+console.log('🧪 Testing Lead Attribution\n');
+
+const at = new Date('2026-10-01T09:00:00Z');
+
+// Test 1: Touches
+const campaign = touchFor(new URL('https://example.com/locations/burleigh-heads-qld-4220/?utm_source=google&utm_medium=cpc&gclid=x'), 'https://www.google.com/', at);
+check('A campaign landing keeps its UTM parameters and referrer',
+  campaign.page === '/locations/burleigh-heads-qld-4220/?utm_source=google&utm_medium=cpc&gclid=x'
+    && campaign.utm?.utm_source === 'google' && campaign.utm.utm_medium === 'cpc' && !('utm_campaign' in campaign.utm)
+    && campaign.referrer === 'https://www.google.com/' && campaign.at === at.toISOString(),
+  JSON.stringify(campaign));
+const internal = touchFor(new URL('https://example.com/services/'), 'https://example.com/', at);
+check('Internal referrers and missing UTM parameters are left out', internal.referrer === undefined && internal.utm === undefined, JSON.stringify(internal));
+check('A blank referrer is ignored', touchFor(new URL('https://example.com/'), '', at).referrer === undefined);
+
+// Test 2: Form fields round trip
+const fields = attributionFields(
+  { locationSlug: 'burleigh-heads-qld-4220', suburb: 'Burleigh Heads', serviceSlug: undefined },
+  '/locations/burleigh-heads-qld-4220/',
+  campaign,
+  internal,
+);
+check('Empty values get no field', !('attr_service_slug' in fields), JSON.stringify(fields));
+check('UTM parameters and referrer fall back to the first touch', fields.utm_source === 'google' && fields.attr_referrer === 'https://www.google.com/');
+const parsed = parseAttribution(fields);
+check('Fields round-trip', parsed?.locationSlug === 'burleigh-heads-qld-4220' && parsed.suburb === 'Burleigh Heads'
+  && parsed.pageUrl === '/locations/burleigh-heads-qld-4220/' && parsed.firstTouch?.page === campaign.page
+  && parsed.lastTouch?.page === '/services/' && parsed.utm?.utm_medium === 'cpc' && parsed.referrer === 'https://www.google.com/',
+  JSON.stringify(parsed));
+check('The summary names the campaign and landing page', describeAttribution(parsed!) === 'google / cpc, landed on /services/', describeAttribution(parsed!));
+
+// Test 3: Untrusted values
+const hostile = parseAttribution({
+  attr_page_url: 'https://evil.example/',
+  attr_first_touch_page: '//evil.example/',
+  attr_first_touch_at: 'yesterday',
+  attr_last_touch_page: '/ok',
+  attr_last_touch_at: 'not a date',
+  attr_referrer: 'javascript:alert(1)',
+  attr_suburb: 'x'.repeat(2000),
+})!;
+check('Off-site pages, bad times and non-http referrers are dropped',
+  hostile.pageUrl === undefined && hostile.firstTouch === undefined && hostile.lastTouch?.page === '/ok'
+    && hostile.lastTouch.at === undefined && hostile.referrer === undefined,
+  JSON.stringify({ ...hostile, suburb: undefined }));
+check('Long values are capped', hostile.suburb?.length === 500);
+check('No attribution fields, no attribution', parseAttribution({ name: 'Sam', suburb: 'Southport' }) === undefined);
+check('Direct visits are described as direct', describeAttribution({}) === 'direct');
+
+// Test 4: Attribution never fills in the lead's own fields
+const lead = validateLead({ name: 'Sam Citizen', phone: '0412345678', ...fields });
+check('A hidden suburb does not stand in for the visitor\'s', !lead.ok && 'suburb' in lead.errors, JSON.stringify(lead));
+
+finish('✨ All lead attribution tests passed');
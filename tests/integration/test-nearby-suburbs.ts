@@ -0,0 +1,122 @@
+/**
+ * Test script for nearby suburb selection
+ * Verifies haversine distances and compass sectors, and that the link graph
+ * over suburbs.json has no orphans, a full set of links per page, no page
+ * over the inbound cap and links spread across directions, and that the
+ * post-build link check passes those pages and catches orphans, broken links
+ * and pages over the link limits
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  buildNearbyGraph,
+  compassSector,
+  haversineKm,
+  MAX_INBOUND_LINKS,
+  NEARBY_SUBURB_COUNT,
+  suburbKey,
+  withNearbySuburbs,
+  type GeoSuburb,
+} from '../../src/utils/nearby-suburbs';
+import { check, finish, runScript } from './helpers';
+
+function inboundCounts(graph: Map<string, GeoSuburb[]>): Map<string, number> {
+  const inbound = new Map([...graph.keys()].map((key) => [key, 0]));
+  for (const links of graph.values()) {
+    for (const link of links) inbound.set(suburbKey(link), inbound.get(suburbKey(link))! + 1);
+  }
+  return inbound;
+}
+
+const at = (name: string, latitude: number, longitude: number): GeoSuburb => ({ name, state: 'QLD', latitude, longitude });
+
+console.log('🧪 Testing Nearby Suburbs\n');
+
+// Test 1: Distance and direction
+const origin = at('Origin', -28, 153.4);
+check('Haversine distance', Math.abs(haversineKm(origin, at('North', -27.9, 153.4)) - 11.12) < 0.01);
+check('Compass sectors', compassSector(origin, at('N', -27.9, 153.4)) === 0 &&
+  compassSector(origin, at('E', -28, 153.5)) === 2 &&
+  compassSector(origin, at('S', -28.1, 153.4)) === 4 &&
+  compassSector(origin, at('SW', -28.1, 153.3)) === 5);
+
+// Test 2: The real suburb list
+const { suburbs } = JSON.parse(fs.readFileSync('src/data/suburbs.json', 'utf8'));
+const graph = buildNearbyGraph<GeoSuburb>(suburbs);
+const inbound = inboundCounts(graph);
+const orphans = [...inbound].filter(([, count]) => count === 0).map(([key]) => key);
+check('No orphaned suburbs', orphans.length === 0, orphans.join(', '));
+check(`${NEARBY_SUBURB_COUNT} links per suburb`, [...graph.values()].every((links) => links.length === NEARBY_SUBURB_COUNT));
+check('No links to itself or repeated', [...graph].every(([key, links]) =>
+  !links.some((link) => suburbKey(link) === key) && new Set(links.map(suburbKey)).size === links.length));
+check(`At most ${MAX_INBOUND_LINKS} inbound links`, Math.max(...inbound.values()) <= MAX_INBOUND_LINKS, `max ${Math.max(...inbound.values())}`);
+
+const surfers = suburbs.find((suburb: GeoSuburb) => suburb.name === 'Surfers Paradise');
+const surfersLinks = graph.get(suburbKey(surfers))!;
+check('Nearest first', surfersLinks.every((link, i) => i === 0 || haversineKm(surfers, surfersLinks[i - 1]) <= haversineKm(surfers, link)));
+const sectors = new Set(surfersLinks.map((link) => compassSector(surfers, link)));
+check('Links spread across directions', sectors.size >= 4, `${sectors.size} sectors`);
+
+// Test 3: Directions win over a cluster on one side
+const cluster = [
+  at('Centre', -28, 153.4),
+  ...Array.from({ length: 6 }, (_, i) => at(`East ${i}`, -28 + i * 0.0001, 153.401 + i * 0.001)),
+  at('West', -28, 153.396),
+  at('South', -28.004, 153.4),
+];
+const centreLinks = buildNearbyGraph(cluster, { count: 3, maxInbound: 10 }).get('Centre|QLD')!.map((link) => link.name);
+check('Round robin over sectors', centreLinks.includes('West') && centreLinks.includes('South'), centreLinks.join(', '));
+
+// Test 4: Orphan repair and the inbound cap
+const hub = [
+  at('Hub', -28, 153.4),
+  ...Array.from({ length: 8 }, (_, i) => at(`Spoke ${i}`, -28 + 0.01 * Math.cos(i * Math.PI / 4), 153.4 + 0.01 * Math.sin(i * Math.PI / 4))),
+  at('Outlier', -28.3, 153.4),
+];
+const hubGraph = buildNearbyGraph(hub, { count: 2, maxInbound: 3 });
+const hubInbound = inboundCounts(hubGraph);
+check('Outlier is linked', hubInbound.get('Outlier|QLD')! > 0);
+check('Hub stays under the cap', hubInbound.get('Hub|QLD')! <= 3, `${hubInbound.get('Hub|QLD')} inbound`);
+
+// Test 5: Location pages
+const locationPages: Array<{ suburb: GeoSuburb; url: string }> = suburbs.slice(0, 20).map((suburb: GeoSuburb) => ({ suburb, url: `/locations/${suburb.name}/` }));
+const pages = withNearbySuburbs(locationPages);
+check('Pages get nearby suburbs', pages.every((page) => page.nearbySuburbs.length === NEARBY_SUBURB_COUNT && page.url.startsWith('/locations/')));
+
+// Test 6: The post-build link check over pages linked by the graph
+const dist = fs.mkdtempSync(path.join(os.tmpdir(), 'location-links-'));
+const linkedSuburbs: GeoSuburb[] = suburbs.slice(0, 30);
+const builtGraph = buildNearbyGraph(linkedSuburbs);
+const slug = (suburb: GeoSuburb) => `${suburb.name}-${suburb.state}`.toLowerCase().replace(/\s+/g, '-');
+// Links outside <main> (the header's) and to the page itself don't count
+const header = linkedSuburbs.map((suburb) => `<a href="/locations/${slug(suburb)}/">${suburb.name}</a>`).join('');
+const writePage = (name: string, links: string[]) => {
+  fs.mkdirSync(path.join(dist, 'locations', name), { recursive: true });
+  fs.writeFileSync(path.join(dist, 'locations', name, 'index.html'), `<header>${header}</header>
+    <main><a href="/locations/${name}/#quote">Quote</a>${links.map((link) => `<a href="/locations/${link}/">${link}</a>`).join('')}</main>`);
+};
+for (const suburb of linkedSuburbs) writePage(slug(suburb), builtGraph.get(suburbKey(suburb))!.map(slug));
+
+const checkLinks = (...args: string[]) => {
+  const run = runScript('scripts/check-location-links.ts', [`--dist=${dist}`, ...args]);
+  return { status: run.status, output: run.stdout + run.stderr };
+};
+const linked = checkLinks();
+const passes = linked.status === 0 && linked.output.includes('Location pages: 30');
+check('The nearby graph passes the link check', passes, passes ? undefined : linked.output);
+const overInbound = checkLinks('--max-inbound=2');
+check('Pages over the inbound cap fail it', overInbound.status === 1 && overInbound.output.includes('location pages (max 2)'));
+const overOutbound = checkLinks(`--max-outbound=${NEARBY_SUBURB_COUNT - 1}`);
+check('and so do pages linking to too many', overOutbound.status === 1 && overOutbound.output.includes(`links to ${NEARBY_SUBURB_COUNT} location pages`));
+
+writePage('couran-cove-qld', [slug(linkedSuburbs[0])]);
+writePage(slug(linkedSuburbs[1]), ['nowhere-qld']);
+const broken = checkLinks();
+check('Orphaned pages fail it', broken.status === 1 && broken.output.includes('/locations/couran-cove-qld/ is not linked from any other location page'),
+  broken.status === 1 ? undefined : broken.output);
+check('and so do links to pages that weren\'t built', broken.output.includes(`/locations/${slug(linkedSuburbs[1])}/ links to /locations/nowhere-qld/, which was not built`));
+fs.rmSync(dist, { recursive: true });
+
+finish('✅ Nearby suburbs test complete!');
@@ -0,0 +1,101 @@
+/**
+ * Test script for weighted page selection
+ * Verifies scoring, the priority / mention-only / exclude lists, the page and
+ * mention caps, and reading job history CSVs (run against a temporary file)
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getPageSelectionPolicy, readJobHistory, selectSuburbPages, type PageSelectionPolicy } from '../../scripts/lib/page-selection';
+import { diffSuburbs } from '../../scripts/lib/suburb-diff';
+import { DEFAULT_MAX_LOCATION_PAGES, parseBusinessConfig } from '../../src/config/business-schema';
+import { check, finish } from './helpers';
+
+console.log('🧪 Testing Page Selection\n');
+
+const suburb = (id: number, name: string, distanceKm: number, population: number | null = null) =>
+  ({ id, name, state: 'QLD', postcode: '4217', latitude: -28 - distanceKm / 100, longitude: 153.4, distanceKm, population });
+
+const suburbs = [
+  suburb(1, 'Bundall', 1, 4895),
+  suburb(2, 'Southport', 4, 30000),
+  suburb(3, 'Evandale', 2),
+  suburb(4, 'Robina', 8, 20000),
+  suburb(5, 'Couran Cove', 20),
+  suburb(6, 'Tugun', 17),
+];
+
+const policy = (overrides: Partial<PageSelectionPolicy> = {}): PageSelectionPolicy => ({
+  weights: { distance: 1, population: 0, jobs: 0 },
+  maxPages: Infinity,
+  minPageScore: 0,
+  maxMentions: Infinity,
+  priority: [],
+  mentionOnly: [],
+  exclude: [],
+  ...overrides,
+});
+
+const names = (list: Array<{ name: string }>) => list.map((s) => s.name).join();
+
+// Test 1: Policy is only active when configured
+const business = fs.readFileSync('config/business.yaml', 'utf8').replace(/max_location_pages: \d+/, 'max_location_pages: 50');
+check('No policy without page_selection', getPageSelectionPolicy(parseBusinessConfig(business)) === null);
+const selecting = parseBusinessConfig(business.replace(/^service:\n/m, 'service:\n  page_selection:\n    weights:\n      jobs: 2\n    job_history: config/job-history.example.csv\n'));
+const configured = getPageSelectionPolicy(selecting);
+check('Policy defaults', configured?.maxPages === 50 && configured.weights.distance === 1 && configured.weights.jobs === 2 && configured.maxMentions === Infinity);
+check('The page cap is the one the site uses', getPageSelectionPolicy({ ...selecting, service: { ...selecting.service, max_location_pages: 0 } })?.maxPages
+  === DEFAULT_MAX_LOCATION_PAGES);
+
+// Test 2: Distance only keeps the nearest suburbs
+const nearest = selectSuburbPages(suburbs, policy({ maxPages: 3 }));
+check('Distance-only ranking', names(nearest.pages) === 'Bundall,Southport,Evandale', names(nearest.pages));
+check('Pages keep distance order', names(nearest.pages) === names(suburbs.filter((s) => nearest.pages.includes(s))));
+check('Past the cap are mentioned', names(nearest.mentions) === 'Robina,Couran Cove,Tugun');
+check('Decision reasons', nearest.decisions.find((d) => d.name === 'Robina')?.reason === 'Ranked 4, past max_location_pages (3)');
+
+// Test 3: Population and jobs outrank distance
+const jobs = new Map([['tugun|QLD', 40], ['bundall|QLD', 2]]);
+const weighted = selectSuburbPages(suburbs, policy({ weights: { distance: 1, population: 1, jobs: 2 }, maxPages: 3 }), jobs);
+check('Jobs lift a distant suburb', weighted.pages.some((s) => s.name === 'Tugun'), names(weighted.pages));
+check('Population lifts a bigger suburb', weighted.pages.some((s) => s.name === 'Southport'));
+
+// Test 4: Manual lists and caps
+const manual = selectSuburbPages(suburbs, policy({
+  maxPages: 3,
+  maxMentions: 1,
+  priority: ['Couran Cove'],
+  mentionOnly: ['Bundall'],
+  exclude: ['Tugun, QLD'],
+}));
+check('Priority gets a page', manual.pages.some((s) => s.name === 'Couran Cove'), names(manual.pages));
+check('Mention only never gets a page', names(manual.mentions) === 'Bundall');
+check('Exclude and mention cap leave suburbs off', names(manual.omitted) === 'Robina,Tugun', names(manual.omitted));
+check('Every suburb has one decision', manual.decisions.length === suburbs.length && manual.decisions.every((d) => d.reason));
+
+// Test 5: Minimum score
+const scored = selectSuburbPages(suburbs, policy({ minPageScore: 0.5 }));
+check('Low scores are mentioned', scored.mentions.every((s) => s.distanceKm > 10) && scored.pages.length === 4, names(scored.mentions));
+
+// Test 6: Demoted pages redirect as page-limit, not removed
+const diff = diffSuburbs(suburbs, [...nearest.pages, ...nearest.mentions], nearest.pages.length, suburbs.length);
+check('Demoted pages redirect', diff.removed.length === 0 && diff.redirects.length === 3 && diff.redirects.every((r) => r.reason === 'page-limit'));
+
+// Test 7: Job history CSV (rows for the same suburb add up)
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'jobs-'));
+fs.writeFileSync(path.join(dir, 'jobs.csv'), '# 2024 and 2025\nname,state,jobs\nTugun,QLD,12\ntugun,qld,3\nBundall,QLD,\n');
+const history = readJobHistory(path.join(dir, 'jobs.csv'));
+check('Job counts are summed', history.get('tugun|QLD') === 15 && history.get('bundall|QLD') === 0);
+
+fs.writeFileSync(path.join(dir, 'bad.csv'), 'name,state,jobs\nTugun,QLD,lots\n');
+let error = '';
+try {
+  readJobHistory(path.join(dir, 'bad.csv'));
+} catch (e) {
+  error = (e as Error).message;
+}
+check('Invalid job count is rejected', error.includes('whole number'), error);
+fs.rmSync(dir, { recursive: true });
+
+finish('✅ Page selection test complete!');
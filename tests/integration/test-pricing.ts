@@ -0,0 +1,92 @@
+/**
+ * Test script for the price estimator
+ * Verifies estimates from the business.yaml pricing model (rates, multipliers,
+ * add-ons, rounding and the minimum charge), the pricing config checks, and
+ * that the Service offer's PriceSpecification ranges pass the structured data
+ * validator
+ */
+
+import fs from 'fs';
+import { checkServiceReferences, parseBusinessConfig } from '../../src/config/business-schema';
+import {
+  availableAddOns,
+  estimatePrice,
+  formatPriceRange,
+  resolvePricing,
+  toAddOnOffers,
+  toPriceSpecification,
+  typicalPriceRange,
+} from '../../src/utils/pricing';
+import { validateJsonLd } from '../../scripts/lib/structured-data-validator';
+import { check, finish, parseErrors } from './helpers';
+
+console.log('🧪 Testing Price Estimator\n');
+
+const source = fs.readFileSync('config/business.yaml', 'utf8');
+const model = resolvePricing(parseBusinessConfig(source).pricing)!;
+
+// Test 1: Estimates
+const tile = { service: 'tile-roof-cleaning', roofType: 'tile' as const, areaM2: 180, storeys: 0, pitch: 1 };
+const basic = estimatePrice(model, tile);
+check('Base plus per-m² rate, times the pitch, as a rounded range',
+  basic.price === 759 && basic.low === 640 && basic.high === 880, JSON.stringify(basic));
+check('Metal roofs use the metal rate', estimatePrice(model, { ...tile, roofType: 'metal' }).price === Math.round((150 + 2.5 * 180) * 1.1));
+check('Storeys multiply the price', estimatePrice(model, { ...tile, storeys: 1, pitch: 0 }).price === Math.round(690 * 1.25));
+const sealed = estimatePrice(model, { ...tile, addOns: ['sealing', 'gutters'] });
+check('Add-ons get a line each', sealed.lines.length === 3 && sealed.lines[1].label === 'Roof sealing' && sealed.lines[1].amount === 2376
+  && sealed.lines[2].amount === Math.round((60 + 0.5 * 180) * 1.1), JSON.stringify(sealed.lines));
+check('Add-ons the roof can\'t have are ignored', estimatePrice(model, { ...tile, roofType: 'metal', addOns: ['sealing'] }).lines.length === 1);
+check('Roof area is clamped to the estimator\'s range',
+  estimatePrice(model, { ...tile, areaM2: 5000 }).price === estimatePrice(model, { ...tile, areaM2: model.roofArea.max }).price);
+const solar = estimatePrice(model, { service: 'solar-panel-cleaning', roofType: 'tile', areaM2: 180, storeys: 0, pitch: 0, panels: 1 });
+check('Small jobs cost at least the minimum charge', solar.low === 199 && solar.high === 230, JSON.stringify(solar));
+check('Panel services are priced per panel', estimatePrice(model, { service: 'solar-panel-cleaning', roofType: 'tile', areaM2: 180, storeys: 0, pitch: 0, panels: 20 }).price === 99 + 8 * 20);
+check('Services only offer their own add-ons',
+  availableAddOns(model, 'solar-panel-cleaning', 'tile').map((addOn) => addOn.id).join() === 'gutters'
+    && availableAddOns(model, 'tile-roof-cleaning', 'metal').map((addOn) => addOn.id).join() === 'gutters,solar');
+let threw = false;
+try { estimatePrice(model, { ...tile, service: 'pressure-washing' }); } catch { threw = true; }
+check('Services without rates can\'t be estimated', threw);
+check('Ranges are formatted in dollars', formatPriceRange(basic) === '$640 – $880', formatPriceRange(basic));
+
+// Test 2: Structured data
+const range = typicalPriceRange(model, 'tile-roof-cleaning')!;
+check('The typical range runs from a small easy roof to a large steep one', range.low < basic.low && range.high > basic.high, JSON.stringify(range));
+const offer = {
+  '@context': 'https://schema.org',
+  '@type': 'Service',
+  name: 'Tile Roof Cleaning',
+  offers: {
+    '@type': 'Offer',
+    priceSpecification: toPriceSpecification(model, 'tile-roof-cleaning'),
+    addOn: toAddOnOffers(model, 'tile-roof-cleaning'),
+  },
+};
+const issues = validateJsonLd(offer, { language: 'en-AU' });
+check('Price specifications and add-ons pass the validator', issues.length === 0, JSON.stringify(issues));
+const [typical, base, ...units] = offer.offers.priceSpecification as Array<Record<string, unknown>>;
+check('The first specification is the typical range', typical.minPrice === range.low && typical.maxPrice === range.high && typical.priceCurrency === 'AUD');
+check('Then the base and per-m² rates by roof type', base.price === 150
+  && units.map((unit) => `${unit.price}/${unit.unitCode}`).join() === '3/MTK,2.5/MTK', JSON.stringify(units));
+check('Add-on offers are named and priced', offer.offers.addOn.map((addOn) => addOn.name).join() === 'Gutter clean,Solar panel clean,Roof sealing');
+check('A service without rates has no specifications', toPriceSpecification(model, 'pressure-washing').length === 0);
+
+// Test 3: Config checks
+check('Typical roof sizes must be within the estimator\'s range',
+  parseErrors(source.replace('    typical_max: 300', '    typical_max: 900')).some((message) => message.includes('typical_max must be between min and max')));
+const misnamed = source.replace('    gutter-cleaning:\n      base: 120', '    gutter-clean:\n      base: 120');
+check('The schema doesn\'t look for services on disk (the quote function has no src/)', parseErrors(misnamed).length === 0);
+let unknownService = '';
+try {
+  checkServiceReferences(parseBusinessConfig(misnamed), [{ file: 'config/business.yaml', source: misnamed }], fs.readdirSync('src/content/services'));
+} catch (error) {
+  unknownService = (error as Error).message;
+}
+check('Rates must be for real services', unknownService.includes('pricing.services.gutter-clean') && unknownService.includes('No service "gutter-clean"')
+  && /business\.yaml:\d+/.test(unknownService), unknownService);
+check('Add-ons need a price',
+  parseErrors(source.replace('      price: 60\n      per_m2: 0.5\n', '')).some((message) => message.includes('An add-on needs price, per_m2 or per_panel')));
+check('Services can only offer known add-ons',
+  parseErrors(source.replace('add_ons: [solar]', 'add_ons: [solr]')).some((message) => message.includes('No add-on "solr"')));
+
+finish('✨ All price estimator tests passed');
@@ -0,0 +1,235 @@
+/**
+ * Test script for the quote form pipeline
+ * Runs the local function server against an in-process SMTP server and
+ * webhook receiver, then posts quote requests through /api/quote: form and
+ * JSON posts are validated, delivered to the file, email and webhook with
+ * their attribution, and spam only reaches the file
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import net from 'net';
+import http from 'http';
+import { spawn } from 'child_process';
+import { createHmac } from 'crypto';
+import { validateLead } from '../../src/utils/lead-schema';
+import { scoreLeadSpam } from '../../src/utils/lead-spam';
+import { createFileDelivery, getLeadDeliveries } from '../../src/utils/lead-delivery';
+import { issueFormToken } from '../../src/utils/form-token';
+import { check, fail, finish } from './helpers';
+
+function listen(server: net.Server): Promise<number> {
+  return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve((server.address() as net.AddressInfo).port)));
+}
+
+/** Accepts every message without TLS or auth and keeps the decoded bodies */
+function fakeSmtpServer(messages: string[]): net.Server {
+  return net.createServer((socket) => {
+    let data: string | undefined;
+    let buffer = '';
+    socket.setEncoding('utf8');
+    socket.write('220 test ESMTP\r\n');
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+      if (data !== undefined) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end < 0) return;
+        const [headers, body] = buffer.slice(0, end).split('\r\n\r\n');
+        messages.push(`${headers}\n\n${Buffer.from(body.replace(/\r\n/g, ''), 'base64').toString('utf8')}`);
+        buffer = buffer.slice(end + 5);
+        data = undefined;
+        socket.write('250 queued\r\n');
+      }
+      let end: number;
+      while (data === undefined && (end = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        if (line.startsWith('EHLO')) socket.write('250-test\r\n250 SIZE 1000000\r\n');
+        else if (line === 'DATA') { data = ''; socket.write('354 go ahead\r\n'); }
+        else if (line === 'QUIT') socket.end('221 bye\r\n');
+        else socket.write('250 ok\r\n');
+      }
+    });
+  });
+}
+
+async function startFunctionServer(env: Record<string, string>): Promise<{ port: number; stop: () => void }> {
+  const child = spawn(path.resolve('node_modules/.bin/tsx'), ['scripts/serve-functions.ts', '--port=0', `--dist=${env.DIST}`], {
+    env: { ...process.env, ...env },
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+  let output = '';
+  const port = await new Promise<number>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Function server did not start:\n${output}`)), 30000);
+    const read = (chunk: Buffer) => {
+      output += chunk.toString();
+      const match = output.match(/running at http:\/\/localhost:(\d+)/);
+      if (match) {
+        clearTimeout(timer);
+        resolve(Number(match[1]));
+      }
+    };
+    child.stdout.on('data', read);
+    child.stderr.on('data', read);
+    child.on('exit', () => reject(new Error(`Function server exited:\n${output}`)));
+  });
+  return { port, stop: () => child.kill() };
+}
+
+console.log('🧪 Testing Quote Pipeline\n');
+
+// Test 1: Lead schema
+const valid = validateLead({ name: ' Sam Citizen ', phone: '0412 345 678', suburb: 'Burleigh Heads', roof_type: 'Terracotta tiles', message: '' });
+check('Lead fields are normalised', valid.ok && valid.lead.name === 'Sam Citizen' && valid.lead.phone === '0412345678' && valid.lead.message === undefined,
+  JSON.stringify(valid));
+const invalid = validateLead({ name: 'S', phone: '123', suburb: '' });
+check('Invalid leads report each field', !invalid.ok && ['name', 'phone', 'suburb'].every((field) => field in invalid.errors),
+  JSON.stringify(invalid));
+
+// Test 2: Spam scoring
+if (valid.ok) {
+  const clean = scoreLeadSpam(valid.lead, { startedAt: 0, receivedAt: 60000 });
+  const bot = scoreLeadSpam({ ...valid.lead, message: 'Cheap SEO! Visit http://spam.example http://spam.example/2' }, { honeypot: 'x', startedAt: 59000, receivedAt: 60000 });
+  check('A normal lead scores low', clean.score < 0.7, JSON.stringify(clean));
+  check('A honeypot, links and a fast submit score as spam', bot.score >= 0.7, JSON.stringify(bot));
+}
+
+// Test 3: CSV exports keep visitor input as text
+if (valid.ok) {
+  const csvDir = fs.mkdtempSync(path.join(os.tmpdir(), 'quote-csv-'));
+  const csvFile = path.join(csvDir, 'leads.csv');
+  await createFileDelivery({ file: csvFile }).deliver({
+    ...valid.lead, name: '=HYPERLINK("http://spam.example")', message: '@SUM(1+1)', suburb: '-2+3', id: 'lead-1',
+    receivedAt: '2026-10-19T00:00:00.000Z', spamScore: 0, spamReasons: [],
+  });
+  const row = fs.readFileSync(csvFile, 'utf8').trim().split('\n')[1] ?? '';
+  check('Formulas in a CSV export are neutralised',
+    row.includes(`"'=HYPERLINK(""http://spam.example"")"`) && row.includes(`'@SUM(1+1)`) && row.includes(`'-2+3`), row);
+  fs.rmSync(csvDir, { recursive: true, force: true });
+}
+
+// Test 4: A deploy can't fall back to a file that won't outlive the function
+const deliveryError = (env: Record<string, string>) => {
+  try {
+    return getLeadDeliveries(env).map((delivery) => delivery.name).join(',');
+  } catch (error) {
+    return (error as Error).message;
+  }
+};
+check('Locally, leads default to data/leads.jsonl', deliveryError({}) === 'file (data/leads.jsonl)');
+check('Deployed, LEAD_DELIVERY must be set', deliveryError({ NETLIFY: 'true' }).includes('LEAD_DELIVERY is not set'));
+check('Deployed, file delivery alone is refused', deliveryError({ CONTEXT: 'production', LEAD_DELIVERY: 'file' }).includes('would lose every lead'));
+check('Deployed, file delivery is fine beside a webhook',
+  deliveryError({ CONTEXT: 'production', LEAD_DELIVERY: 'file,webhook', LEAD_WEBHOOK_URL: 'https://hooks.example/leads' }).startsWith('file'));
+
+// Test 5: End to end through the local function server
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'quote-pipeline-'));
+const leadFile = path.join(tmp, 'leads.jsonl');
+const emails: string[] = [];
+const hooks: Array<{ body: string; signature?: string }> = [];
+const smtp = fakeSmtpServer(emails);
+const webhook = http.createServer((req, res) => {
+  let body = '';
+  req.on('data', (chunk) => { body += chunk; });
+  req.on('end', () => {
+    hooks.push({ body, signature: req.headers['x-lead-signature'] as string | undefined });
+    res.end('ok');
+  });
+});
+
+let stop = () => {};
+try {
+  const smtpPort = await listen(smtp);
+  const webhookPort = await listen(webhook);
+  const server = await startFunctionServer({
+    DIST: tmp,
+    LEAD_DELIVERY: 'file,email,webhook',
+    LEAD_FILE: leadFile,
+    SMTP_HOST: '127.0.0.1',
+    SMTP_PORT: String(smtpPort),
+    SMTP_USER: '',
+    SMTP_PASS: '',
+    LEAD_EMAIL_FROM: 'Website <web@example.com>',
+    LEAD_EMAIL_TO: 'office@example.com',
+    LEAD_WEBHOOK_URL: `http://127.0.0.1:${webhookPort}/leads`,
+    LEAD_WEBHOOK_SECRET: 'test-secret',
+    LEAD_FORM_SECRET: 'form-secret',
+  });
+  stop = server.stop;
+  const endpoint = `http://127.0.0.1:${server.port}/api/quote`;
+  const startedAt = String(Date.now() - 30000);
+  const issued = await fetch(endpoint, { signal: AbortSignal.timeout(20000) }).then((response) => response.json());
+  check('GET issues a form token', /^\d+\.[0-9a-f]{64}$/.test(issued.token ?? ''), JSON.stringify(issued));
+  const formToken = issueFormToken('form-secret', Date.now() - 30000);
+  const post = (body: string | URLSearchParams, headers: Record<string, string> = {}) =>
+    fetch(endpoint, { method: 'POST', body, headers, redirect: 'manual', signal: AbortSignal.timeout(20000) });
+
+  const form = await post(new URLSearchParams({
+    name: 'Sam Citizen', phone: '0412345678', suburb: 'Burleigh Heads', service: 'Roof Cleaning',
+    roofType: 'tile', message: 'Moss on the north side.', form_started_at: startedAt, form_token: formToken,
+    attr_page_url: '/services/tile-roof-cleaning/burleigh-heads-qld-4220/', attr_location_slug: 'burleigh-heads-qld-4220',
+    attr_suburb: 'Burleigh Heads', attr_service_slug: 'tile-roof-cleaning', utm_source: 'google', utm_medium: 'cpc',
+    attr_first_touch_page: '/?utm_source=google&utm_medium=cpc', attr_first_touch_at: '2026-10-01T00:00:00.000Z',
+    attr_last_touch_page: '/services/tile-roof-cleaning/', attr_referrer: 'https://www.google.com/',
+  }), { Referer: 'http://localhost/locations/burleigh-heads/' });
+  const thankYou = new URL(form.headers.get('location') ?? '', endpoint);
+  check('A form post redirects to the thank-you page with the lead, location and service',
+    form.status === 303 && thankYou.pathname === '/thank-you' && Boolean(thankYou.searchParams.get('lead'))
+      && thankYou.searchParams.get('location') === 'burleigh-heads-qld-4220' && thankYou.searchParams.get('service') === 'tile-roof-cleaning',
+    `${form.status} ${form.headers.get('location')}`);
+
+  const json = await post(JSON.stringify({ name: 'Alex Jones', phone: '+61 7 5555 1234', email: 'alex@example.com', suburb: 'Southport', form_token: formToken }),
+    { 'Content-Type': 'application/json', Accept: 'application/json' });
+  const jsonBody = await json.json();
+  check('A JSON post returns the lead id and thank-you URL', json.status === 200 && jsonBody.ok === true && typeof jsonBody.id === 'string'
+    && jsonBody.redirect === `/thank-you?lead=${jsonBody.id}`, JSON.stringify(jsonBody));
+
+  const rejected = await post(JSON.stringify({ name: 'A', phone: 'call me', suburb: 'Southport' }),
+    { 'Content-Type': 'application/json', Accept: 'application/json' });
+  const rejectedBody = await rejected.json();
+  check('An invalid lead is rejected with field errors', rejected.status === 422 && 'name' in rejectedBody.errors && 'phone' in rejectedBody.errors,
+    JSON.stringify(rejectedBody));
+
+  const trapped = await post(new URLSearchParams({
+    name: 'Bot Person', phone: '0400000001', suburb: 'Southport', company_website: 'http://spam.example', form_token: formToken,
+  }), { Accept: 'application/json' });
+  check('A honeypot lead looks accepted', trapped.status === 200 && (await trapped.json()).ok === true);
+
+  const unsupported = await post('name=x', { 'Content-Type': 'text/plain' });
+  const wrongMethod = await fetch(endpoint, { method: 'PUT', signal: AbortSignal.timeout(20000) });
+  check('Unsupported content types and methods are refused', unsupported.status === 415 && wrongMethod.status === 405,
+    `${unsupported.status} ${wrongMethod.status}`);
+
+  const stored = fs.readFileSync(leadFile, 'utf8').trim().split('\n').map((line) => JSON.parse(line));
+  check('Every accepted lead is stored, spam included', stored.length === 3 && stored[2].spamScore >= 0.7, `${stored.length} leads`);
+  check('Signed form tokens time the form', stored[0].spamReasons.length === 0 && stored[1].spamReasons.length === 0,
+    JSON.stringify(stored.map((lead) => lead.spamReasons)));
+  check('The page comes from the form, or else the referrer',
+    stored[0].page === '/services/tile-roof-cleaning/burleigh-heads-qld-4220/' && stored[1].page === undefined && stored[0].roofType === 'tile');
+  check('Attribution is stored with the lead',
+    stored[0].attribution?.suburb === 'Burleigh Heads' && stored[0].attribution.utm?.utm_source === 'google'
+      && stored[0].attribution.firstTouch?.page === '/?utm_source=google&utm_medium=cpc' && stored[0].attribution.lastTouch?.at === undefined
+      && stored[1].attribution === undefined,
+    JSON.stringify(stored[0].attribution));
+
+  check('Only real leads are emailed', emails.length === 2, `${emails.length} emails`);
+  check('The email names the customer and sets Reply-To',
+    emails[0]?.includes('Subject: New quote request: Sam Citizen, Burleigh Heads') && emails[0].includes('Moss on the north side.')
+      && emails[1]?.includes('Reply-To: alex@example.com'));
+  check('The email says where the lead came from', emails[0]?.includes('Source: google / cpc, landed on /services/tile-roof-cleaning/'), emails[0]);
+
+  check('Only real leads reach the webhook', hooks.length === 2, `${hooks.length} webhooks`);
+  const expected = `sha256=${createHmac('sha256', 'test-secret').update(hooks[0]?.body ?? '').digest('hex')}`;
+  check('Webhook bodies are signed', hooks[0]?.signature === expected && JSON.parse(hooks[0].body).lead.name === 'Sam Citizen');
+} catch (error) {
+  console.error('❌ Pipeline test failed:', error);
+  fail();
+} finally {
+  stop();
+  smtp.close();
+  webhook.close();
+  fs.rmSync(tmp, { recursive: true, force: true });
+}
+
+finish('✨ All quote pipeline tests passed');
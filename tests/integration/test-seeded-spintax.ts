@@ -0,0 +1,41 @@
+/**
+ * Test script for seeded spintax
+ * Verifies the same suburb always gets the same copy and that editing one
+ * spintax group does not reshuffle the others
+ */
+
+import { resolveSpintax } from '../../src/utils/seeded-spintax';
+import { check, finish } from './helpers';
+
+const template = "{Professional|Expert|Trusted} roof cleaning in {{suburb}}. {Call us|Get in touch|Contact us} for {a free|an obligation-free} quote.";
+
+console.log('🧪 Testing Seeded Spintax\n');
+
+// Test 1: Same seed gives the same output on every run
+const first = resolveSpintax(template, 'burleigh-heads-qld-4220');
+const second = resolveSpintax(template, 'burleigh-heads-qld-4220');
+check('Same suburb slug gives identical copy', first === second, first);
+
+// Test 2: Template variables are left for the page context
+check('{{variables}} are preserved', first.includes('{{suburb}}'));
+check('No spintax left behind', !/\{[^{}]*\|[^{}]*\}/.test(first.replace(/\{\{[^}]+\}\}/g, '')));
+
+// Test 3: Different suburbs get varied copy
+const slugs = ['southport-qld-4215', 'robina-qld-4226', 'nerang-qld-4211', 'ashmore-qld-4214', 'labrador-qld-4215', 'broadbeach-qld-4218'];
+const variations = new Set(slugs.map((slug) => resolveSpintax(template, slug)));
+check('Different suburbs get different variations', variations.size > 1, `${variations.size} variations across ${slugs.length} suburbs`);
+
+// Test 4: Nested spintax
+const nested = resolveSpintax('{Serving {{suburb}} and {nearby suburbs|surrounding areas}|Covering {{suburb}}}', 'robina-qld-4226');
+check('Nested spintax resolves', !nested.includes('|'), nested);
+
+// Test 5: Editing one group does not change the others
+const edited = template.replace('{Call us|Get in touch|Contact us}', '{Call us today|Get in touch|Contact us}');
+const before = resolveSpintax(template, 'nerang-qld-4211');
+const after = resolveSpintax(edited, 'nerang-qld-4211');
+check(
+  'Unrelated groups keep their choice after an edit',
+  before.split(' roof cleaning')[0] === after.split(' roof cleaning')[0] && before.endsWith(after.slice(after.lastIndexOf(' for ')))
+);
+
+finish('✅ Seeded spintax test complete!');
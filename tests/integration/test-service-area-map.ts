@@ -0,0 +1,48 @@
+/**
+ * Test script for the service area map projection
+ * Verifies the projection keeps shapes (a radius circle stays round), north
+ * is up, suburbs land inside the map and the boundary path is well formed
+ */
+
+import fs from 'fs';
+import {
+  circleRing,
+  createMapProjection,
+  destinationPoint,
+  padBounds,
+  polygonsToRings,
+  ringsToPath,
+} from '../../src/utils/service-area-map';
+import { polygonsOf, readServiceAreaFile } from '../../src/utils/service-area';
+import { check, finish } from './helpers';
+
+console.log('🧪 Testing Service Area Map\n');
+
+const { center, radiusKm, suburbs } = JSON.parse(fs.readFileSync('src/data/suburbs.json', 'utf8'));
+
+// Test 1: Destination points
+const north = destinationPoint(center, 0, 10);
+check('10km north', Math.abs(north.lat - center.lat - 0.0899) < 0.0005 && Math.abs(north.lng - center.lng) < 1e-9, JSON.stringify(north));
+
+// Test 2: The radius circle projects to a circle
+const ring = circleRing(center, radiusKm);
+const projection = createMapProjection(ring, 800, 24);
+check('Circle keeps its aspect ratio', Math.abs(projection.height - projection.width) <= 2, `${projection.width}x${projection.height}`);
+const middle = projection.project(center);
+check('Centre is in the middle', Math.abs(middle.x - 400) < 1 && Math.abs(middle.y - 400) < 1, JSON.stringify(middle));
+check('North is up', projection.project(north).y < middle.y);
+
+// Test 3: Every suburb lands inside the map
+const points = suburbs.map((suburb: { latitude: number; longitude: number }) => projection.project({ lat: suburb.latitude, lng: suburb.longitude }));
+check('Suburbs inside the map', points.every(({ x, y }: { x: number; y: number }) => x >= 0 && x <= 800 && y >= 0 && y <= projection.height));
+
+// Test 4: Boundary paths (polygon file rings, one closed subpath each)
+const polygon = polygonsToRings(polygonsOf(readServiceAreaFile('config/service-area.example.geojson')));
+const path = ringsToPath(polygon, createMapProjection(polygon.flat()));
+check('Polygon path', /^M[\d.]+ [\d.]+ L/.test(path) && path.split('Z').length - 1 === polygon.length, path.slice(0, 40));
+
+// Test 5: Padded bounds for the zoomed-in map
+const [southWest, northEast] = padBounds([center], 1.5);
+check('Padded bounds', southWest.lat < center.lat && southWest.lng < center.lng && northEast.lat > center.lat && northEast.lng > center.lng);
+
+finish('✅ Service area map test complete!');
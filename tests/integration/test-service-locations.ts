@@ -0,0 +1,77 @@
+/**
+ * Test script for service × location pages
+ * Verifies only opted-in services get suburb pages, nearest suburbs first,
+ * that max_service_location_pages caps them exactly, and that the
+ * serviceLocationSections spintax gives each service and suburb its own copy
+ */
+
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import { buildServiceLocationPages, getServiceVariables } from '../../src/utils/service-locations';
+import { resolveSpintaxDeep } from '../../src/utils/seeded-spintax';
+import { applyTemplateVariables } from '../../src/utils/template-variables';
+import { check, finish } from './helpers';
+
+interface Service {
+  slug: string;
+  data: { title: string; description: string; excerpt?: string; image?: string; order?: number; locationPages?: boolean };
+}
+
+// The services collection, read straight from the frontmatter
+const servicesDir = 'src/content/services';
+const services: Service[] = fs.readdirSync(servicesDir).map((slug) => ({
+  slug,
+  data: yaml.load(fs.readFileSync(path.join(servicesDir, slug, 'index.md'), 'utf8').split('---')[1]) as Service['data'],
+}));
+const { suburbs } = JSON.parse(fs.readFileSync('src/data/suburbs.json', 'utf8'));
+const locationPages: Array<{ slug: string; suburb: { name: string; distanceKm: number } }> = suburbs.map((suburb: { name: string }) => ({
+  slug: suburb.name.toLowerCase().replace(/\s+/g, '-'),
+  suburb,
+}));
+const optedIn = services
+  .filter((service) => service.data.locationPages)
+  .sort((a, b) => (a.data.order ?? 99) - (b.data.order ?? 99));
+
+console.log('🧪 Testing Service Location Pages\n');
+
+// Test 1: Which services and suburbs
+const all = buildServiceLocationPages(services, locationPages, Infinity);
+check('Only services with locationPages: true', optedIn.length > 0 && all.every((page) => page.service.data.locationPages),
+  optedIn.map((service) => service.slug).join(', '));
+check('Every opted-in service in every suburb', all.length === optedIn.length * locationPages.length);
+check('Nearest suburbs first', all.every((page, i) => i === 0 || all[i - 1].locationPage.suburb.distanceKm <= page.locationPage.suburb.distanceKm));
+check('Services in their menu order', all.slice(0, optedIn.length).every((page, i) => page.service.slug === optedIn[i].slug));
+check('URLs are /services/[slug]/[location]/', all[0].url === `/services/${all[0].service.slug}/${all[0].locationPage.slug}/`);
+
+// Test 2: The cap
+check('The cap is exact', buildServiceLocationPages(services, locationPages, 5).length === 5);
+check('0 turns them off', buildServiceLocationPages(services, locationPages, 0).length === 0);
+const capped = buildServiceLocationPages(services, locationPages, optedIn.length * 3);
+const nearest = [...locationPages].sort((a, b) => a.suburb.distanceKm - b.suburb.distanceKm).slice(0, 3).map((page) => page.slug);
+check('A low cap covers every service in the nearest suburbs', new Set(capped.map((page) => page.locationPage.slug)).size === 3
+  && capped.every((page) => nearest.includes(page.locationPage.slug)), capped.map((page) => page.url).join(', '));
+const unknownDistance = buildServiceLocationPages(optedIn, [{ slug: 'far', suburb: { name: 'Far' } }, locationPages[0]], 1);
+check('Suburbs without a distance go last', unknownDistance[0].locationPage.slug === locationPages[0].slug);
+
+// Test 3: Service variables
+const bare = getServiceVariables({ slug: 'inspection', data: { title: 'Roof Inspection', description: 'A full roof check.' } });
+check('The excerpt falls back to the description, the image to blank', bare.serviceExcerpt === 'A full roof check.' && bare.serviceImage === '');
+
+// Test 4: Copy, as the page resolves it
+const sections = (yaml.load(fs.readFileSync('src/content/serviceLocationSections/service-locations.yaml', 'utf8')) as { sections: unknown[] }).sections;
+const copy = (service: Service, suburb: string) => JSON.stringify(resolveSpintaxDeep(
+  applyTemplateVariables(sections, { ...getServiceVariables(service) }),
+  `${service.slug}/${suburb}`
+));
+const [tile, metal] = optedIn;
+check('Rebuilds give the same copy', copy(tile, 'burleigh-heads') === copy(tile, 'burleigh-heads'));
+check('No spintax is left', !/\{[^{}]*\|[^{}]*\}/.test(copy(tile, 'burleigh-heads').replace(/\{\{[^}]+\}\}/g, '')));
+check('Service variables are filled in', copy(tile, 'burleigh-heads').includes(tile.data.title) && !copy(tile, 'burleigh-heads').includes('{{serviceTitle}}'));
+const slugs = locationPages.slice(0, 20).map((page) => page.slug);
+const tileCopies = new Set(slugs.map((slug) => copy(tile, slug)));
+check('Suburbs get different wording', tileCopies.size >= slugs.length * 0.8, `${tileCopies.size} variants over ${slugs.length} suburbs`);
+const alike = slugs.filter((slug) => copy(tile, slug).replaceAll(tile.data.title, '') === copy(metal, slug).replaceAll(metal.data.title, ''));
+check('Two services in one suburb are worded differently', alike.length <= slugs.length * 0.1, `${alike.length} of ${slugs.length} suburbs alike`);
+
+finish('✨ All service location tests passed');
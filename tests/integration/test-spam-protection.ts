@@ -0,0 +1,112 @@
+/**
+ * Test script for quote form spam protection
+ * Verifies signed form tokens, the per-IP rate limit, the content heuristics
+ * and settings from forms.spam in business.yaml, and that the quote handler
+ * rejects and logs forged, too-fast and rate-limited requests
+ */
+
+import fs from 'fs';
+import { checkFormToken, issueFormToken } from '../../src/utils/form-token';
+import { createRateLimiter } from '../../src/utils/rate-limit';
+import { DEFAULT_SPAM_SETTINGS, getSpamSettings, isDisposableEmail, scoreLeadSpam } from '../../src/utils/lead-spam';
+import { parseBusinessConfig } from '../../src/config/business-schema';
+import { createLeadHandler } from '../../src/utils/lead-handler';
+import type { LeadRecord } from '../../src/utils/lead-schema';
+import { check, finish } from './helpers';
+
+console.log('🧪 Testing Spam Protection\n');
+
+const HOUR = 60 * 60 * 1000;
+const now = Date.parse('2026-10-19T00:00:00Z');
+
+// Test 1: Form tokens
+const token = issueFormToken('secret', now - 10_000);
+check('A token checks out with its age', JSON.stringify(checkFormToken(token, 'secret', now, HOUR)) === '{"status":"valid","ageMs":10000}');
+check('Another secret rejects it', checkFormToken(token, 'other', now, HOUR).status === 'invalid');
+check('Changing the time breaks the signature', checkFormToken(token.replace(/^\d+/, String(now - 60_000)), 'secret', now, HOUR).status === 'invalid');
+check('Old tokens expire', checkFormToken(issueFormToken('secret', now - 2 * HOUR), 'secret', now, HOUR).status === 'expired');
+check('Tokens from the future are invalid', checkFormToken(issueFormToken('secret', now + HOUR), 'secret', now, HOUR).status === 'invalid');
+check('Garbage and blanks are told apart',
+  checkFormToken('abc', 'secret', now, HOUR).status === 'invalid' && checkFormToken(' ', 'secret', now, HOUR).status === 'missing');
+
+// Test 2: Rate limit
+const limiter = createRateLimiter({ maxRequests: 2, windowMs: 60_000, maxKeys: 2 });
+const hits = [limiter.hit('a', 0), limiter.hit('a', 10_000), limiter.hit('a', 20_000)];
+check('Requests over the limit are refused until the window moves on',
+  hits[0].allowed && hits[1].allowed && !hits[2].allowed && hits[2].retryAfterMs === 40_000, JSON.stringify(hits));
+check('The window slides', limiter.hit('a', 60_001).allowed && !limiter.hit('a', 65_000).allowed);
+check('Each IP has its own count', limiter.hit('b', 65_000).allowed);
+limiter.hit('c', 66_000);
+check('The stalest IP is dropped when too many are tracked', limiter.hit('a', 67_000).allowed);
+
+// Test 3: Content heuristics
+const lead = { name: 'Sam Citizen', phone: '0412345678', suburb: 'Southport' };
+check('Disposable email domains are recognised, subdomains too',
+  isDisposableEmail('x@mailinator.com') && isDisposableEmail('x@eu.yopmail.com') && !isDisposableEmail('x@gmail.com')
+    && isDisposableEmail('x@spam.example', ['spam.example']));
+const disposable = scoreLeadSpam({ ...lead, email: 'sam@mailinator.com' }, { receivedAt: now });
+check('A disposable email counts against the lead', disposable.reasons.includes('disposable email address') && disposable.score < 0.7,
+  JSON.stringify(disposable));
+const oneLink = { ...lead, message: 'Photos at https://photos.example/roof' };
+check('max_links allows some links',
+  scoreLeadSpam(oneLink, { receivedAt: now }).score > 0 && scoreLeadSpam(oneLink, { receivedAt: now }, { ...DEFAULT_SPAM_SETTINGS, maxLinks: 1 }).score === 0);
+const phrases = scoreLeadSpam({ ...lead, message: 'Cheap roof (c.o.) deals' }, { receivedAt: now }, { ...DEFAULT_SPAM_SETTINGS, blockedPhrases: ['(c.o.)'] });
+check('Blocked phrases are matched literally', phrases.reasons.includes('spam phrases: (c.o.)'), JSON.stringify(phrases));
+check('Names in any script are fine', scoreLeadSpam({ ...lead, name: 'Nguyễn Văn Anh 阮文英', message: 'Павел recommended you' }, { receivedAt: now }).score === 0);
+const timed = scoreLeadSpam(lead, { receivedAt: now, startedAt: now - 60_000, formToken: { status: 'valid', ageMs: 1000 } });
+check('A valid token times the form instead of the browser', timed.reasons.includes('form sent 1s after it was shown'), JSON.stringify(timed));
+
+// Test 4: Settings from business.yaml
+const source = fs.readFileSync('config/business.yaml', 'utf8');
+check('business.yaml settings match the defaults', JSON.stringify(getSpamSettings(parseBusinessConfig(source))) === JSON.stringify(DEFAULT_SPAM_SETTINGS));
+const custom = getSpamSettings(parseBusinessConfig(source.replace('    threshold: 0.7', '    threshold: 0.5').replace('      max_requests: 5', '      max_requests: 20')));
+check('Thresholds are read from forms.spam', custom.threshold === 0.5 && custom.rateLimit.maxRequests === 20 && custom.minFillMs === 3000);
+check('No config, default settings', getSpamSettings(null) === DEFAULT_SPAM_SETTINGS);
+
+// Test 5: Handler rejections
+const delivered: LeadRecord[] = [];
+const logs: string[] = [];
+const handler = createLeadHandler({
+  deliveries: [{ name: 'memory', acceptsSpam: true, async deliver(record) { delivered.push(record); } }],
+  spam: { ...DEFAULT_SPAM_SETTINGS, rateLimit: { maxRequests: 3, windowMs: 60_000 } },
+  formSecret: 'secret',
+  now: () => new Date(now),
+  log: (message) => logs.push(message),
+});
+const post = (fields: Record<string, string>, ip = '203.0.113.7') => handler(new Request('http://localhost/api/quote', {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+  body: JSON.stringify({ ...lead, ...fields }),
+}), { ip });
+
+const tokenResponse = await handler(new Request('http://localhost/api/quote'));
+const { token: issued, required } = await tokenResponse.json();
+check('GET issues a token the handler accepts', checkFormToken(issued, 'secret', now, HOUR).status === 'valid'
+  && tokenResponse.headers.get('cache-control') === 'no-store');
+check('and says posts need one', required === true);
+const unsigned = await (await createLeadHandler({ deliveries: [] })(new Request('http://localhost/api/quote'))).json();
+check('Without a secret there is no token, and none is needed', JSON.stringify(unsigned) === '{"token":null,"required":false}', JSON.stringify(unsigned));
+
+const forged = await post({ form_token: `${now - 60_000}.${'0'.repeat(64)}` });
+check('A forged token looks accepted but goes nowhere', forged.status === 200 && (await forged.json()).ok === true && delivered.length === 0);
+check('and is logged with the reason', logs.some((line) => line.includes('Rejected quote request from 203.0.113.7: invalid form token')), logs.join('\n'));
+
+const tokenless = await post({ form_started_at: String(now - 60_000) }, '192.0.2.9');
+check('A post without a token is treated like a forged one', tokenless.status === 200 && (await tokenless.json()).ok === true && delivered.length === 0
+  && logs.some((line) => line.includes('Rejected quote request from 192.0.2.9: no form token')), logs.at(-1));
+
+const fast = await post({ form_token: issueFormToken('secret', now - 1000) });
+check('A form sent straight after the token was issued is turned back', fast.status === 422 && delivered.length === 0
+  && logs.some((line) => line.endsWith('form sent 1s after it was shown')));
+
+const genuine = await post({ form_token: issueFormToken('secret', now - 60_000) });
+check('A genuine lead is delivered', genuine.status === 200 && delivered.length === 1 && delivered[0].spamReasons.length === 0,
+  JSON.stringify(delivered[0]?.spamReasons));
+
+const limited = await post({ form_token: issueFormToken('secret', now - 60_000) });
+check('The fourth request from one IP is rate limited', limited.status === 429 && limited.headers.get('retry-after') === '60' && delivered.length === 1);
+check('Rate limiting is logged', logs.some((line) => line.endsWith('more than 3 requests in 1 minute')), logs.at(-1));
+const otherIp = await post({ form_token: issueFormToken('secret', now - 60_000) }, '198.51.100.1');
+check('Other IPs are unaffected', otherIp.status === 200 && delivered.length === 2);
+
+finish('✨ All spam protection tests passed');
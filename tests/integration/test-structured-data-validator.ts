@@ -0,0 +1,131 @@
+/**
+ * Test script for the structured data validator
+ * Verifies JSON-LD is pulled out of built pages, that the mistakes the old
+ * pages shipped (text prices, en-US) and other vocabulary and rich-result
+ * problems are caught, that the site's own builders pass, and that the
+ * post-build check fails with a per-URL report
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { extractJsonLd, validateJsonLd, type StructuredDataIssue } from '../../scripts/lib/structured-data-validator';
+import {
+  buildBreadcrumbSchema,
+  buildFaqSchema,
+  buildLocalBusinessSchema,
+  buildLocationBusinessSchema,
+  buildServiceSchema,
+} from '../../src/utils/structured-data';
+import { check, finish, runScript } from './helpers';
+
+const options = { language: 'en-AU' };
+const errorsOf = (data: unknown, validation = options) => validateJsonLd(data, validation).filter((issue) => issue.severity === 'error');
+const describe = (issues: StructuredDataIssue[]) => issues.map((issue) => `${issue.path}: ${issue.message}`).join('; ');
+const hasIssue = (issues: StructuredDataIssue[], path: string, text: string) => issues.some((issue) => issue.path === path && issue.message.includes(text));
+
+const business = {
+  '@context': 'https://schema.org',
+  '@type': 'LocalBusiness',
+  name: 'Gold Coast Roof Cleaning Pros',
+  telephone: '(07) 5230 7381',
+  url: 'https://www.example.com.au',
+  address: { '@type': 'PostalAddress', addressLocality: 'Bundall', addressRegion: 'QLD', addressCountry: 'AU' },
+  geo: { '@type': 'GeoCoordinates', latitude: -28.0023, longitude: 153.4174 },
+  openingHoursSpecification: [{ '@type': 'OpeningHoursSpecification', dayOfWeek: ['Monday'], opens: '07:00', closes: '17:00' }],
+};
+
+console.log('🧪 Testing Structured Data Validator\n');
+
+// Test 1: Extracting JSON-LD
+const blocks = extractJsonLd(`
+  <script type="application/ld+json">{"@type": "Thing"}</script>
+  <script type=application/ld+json>{"@type": </script>
+  <script type="module">{"@type": "Ignored"}</script>`);
+check('Every JSON-LD block is found, other scripts ignored', blocks.length === 2 && (blocks[0].data as { '@type': string })['@type'] === 'Thing');
+check('Broken JSON is reported, not thrown', blocks[1].parseError !== undefined && blocks[1].index === 1);
+
+// Test 2: The mistakes the old pages shipped
+const service = {
+  '@context': 'https://schema.org',
+  '@type': 'Service',
+  name: 'Roof Cleaning',
+  offers: { '@type': 'Offer', price: 'Contact for quote', priceCurrency: 'AUD' },
+  potentialAction: { '@type': 'ReserveAction', target: { '@type': 'EntryPoint', urlTemplate: 'https://www.example.com.au/book', inLanguage: 'en-US' } },
+};
+const serviceErrors = errorsOf(service);
+check('A text price is an error', hasIssue(serviceErrors, 'Service.offers.price', 'price must be a number'), describe(serviceErrors));
+check('en-US on an Australian site is an error', hasIssue(serviceErrors, 'Service.potentialAction.target.inLanguage', 'Expected "en-AU"'));
+
+// Test 3: The schema.org vocabulary
+check('A valid LocalBusiness has no issues', validateJsonLd(business, options).length === 0, describe(validateJsonLd(business, options)));
+check('Unknown types', hasIssue(errorsOf({ ...business, '@type': 'RoofCleaner' }), 'RoofCleaner', 'Unknown schema.org type'));
+check('Properties the type doesn\'t have', hasIssue(errorsOf({ ...business, servesCuisine: 'Roofs', colour: 'blue' }), 'LocalBusiness.colour', 'is not a property of LocalBusiness'));
+check('Values of the wrong type', hasIssue(errorsOf({ ...business, geo: { '@type': 'PostalAddress', addressLocality: 'Bundall' } }),
+  'LocalBusiness.geo', 'is not a valid value here'));
+check('Enumerations', hasIssue(errorsOf({ ...business, openingHoursSpecification: [{ ...business.openingHoursSpecification[0], dayOfWeek: ['Mon'] }] }),
+  'LocalBusiness.openingHoursSpecification[0].dayOfWeek[0]', 'is not a valid'));
+check('Blank values are flagged', hasIssue(validateJsonLd({ ...business, email: '' }, options), 'LocalBusiness.email', 'Empty value'));
+check('@graph documents are walked', hasIssue(errorsOf({ '@context': 'https://schema.org', '@graph': [business, { '@type': 'Nope' }] }), '@graph[1]', 'Unknown'));
+
+// Test 4: Google rich-result rules
+const { name, address, ...nameless } = business;
+const required = errorsOf(nameless);
+check('LocalBusiness needs a name and address', hasIssue(required, 'LocalBusiness.name', 'requires') && hasIssue(required, 'LocalBusiness.address', 'requires'));
+const { telephone, ...noPhone } = business;
+check('and should have a phone', validateJsonLd(noPhone, options).some((issue) => issue.severity === 'warning' && issue.path === 'LocalBusiness.telephone'));
+check('@context must be schema.org', hasIssue(errorsOf({ ...business, '@context': 'http://example.com' }), 'LocalBusiness', '@context'));
+check('Countries are ISO codes', hasIssue(validateJsonLd({ ...business, address: { ...address, addressCountry: 'Australia' } }, options),
+  'LocalBusiness.address.addressCountry', 'two-letter'));
+check('Coordinates are in range', hasIssue(errorsOf({ ...business, geo: { '@type': 'GeoCoordinates', latitude: -128, longitude: 153 } }), 'LocalBusiness.geo.latitude', 'between'));
+const { potentialAction, ...bookable } = service;
+const price = (offer: object) => errorsOf({ ...bookable, offers: { '@type': 'Offer', ...offer } });
+check('Prices need a currency', hasIssue(price({ price: 150 }), 'Service.offers.priceCurrency', 'required'));
+check('and a range must run low to high', price({ priceSpecification: { '@type': 'PriceSpecification', minPrice: 300, maxPrice: 200, priceCurrency: 'AUD' } })
+  .some((issue) => issue.message.includes('minPrice must not be greater')));
+const crumbs = (items: object[]) => errorsOf({ '@context': 'https://schema.org', '@type': 'BreadcrumbList', itemListElement: items });
+check('Breadcrumbs are numbered in order', hasIssue(crumbs([{ '@type': 'ListItem', position: 2, name: 'Home', item: 'https://www.example.com.au/' }]),
+  'BreadcrumbList.itemListElement[0].position', 'Expected position 1'));
+check('and all but the last link somewhere', hasIssue(crumbs([{ '@type': 'ListItem', position: 1, name: 'Home' }, { '@type': 'ListItem', position: 2, name: 'Here' }]),
+  'BreadcrumbList.itemListElement[0].item', 'requires'));
+check('FAQ questions need answers', hasIssue(errorsOf({ '@context': 'https://schema.org', '@type': 'FAQPage', mainEntity: [{ '@type': 'Question', name: 'Why?' }] }),
+  'FAQPage.mainEntity[0].acceptedAnswer', 'requires'));
+const assets = { ...options, siteOrigin: 'https://www.example.com.au', assetExists: (pathname: string) => pathname === '/images/logo.png' };
+check('Images must exist in the build', hasIssue(errorsOf({ ...business, logo: 'https://www.example.com.au/images/missing.png' }, assets), 'LocalBusiness.logo', 'does not exist')
+  && errorsOf({ ...business, logo: 'https://www.example.com.au/images/logo.png' }, assets).length === 0);
+
+// Test 5: The site's builders pass, as pages serialise them
+const burleigh = { name: 'Burleigh Heads', state: 'QLD', postcode: '4220', latitude: -28.0889, longitude: 153.4493 };
+const built = {
+  LocalBusiness: buildLocalBusinessSchema(),
+  'Suburb LocalBusiness': buildLocationBusinessSchema({ suburb: burleigh, url: '/locations/burleigh-heads-qld-4220/', description: 'Roof cleaning in Burleigh Heads' }),
+  Service: buildServiceSchema({ name: 'Tile Roof Cleaning', description: 'Tile roofs', url: '/services/tile-roof-cleaning', serviceSlug: 'tile-roof-cleaning' }),
+  BreadcrumbList: buildBreadcrumbSchema([{ name: 'Home', url: '/' }, { name: 'Services', url: '/services' }]),
+  FAQPage: buildFaqSchema([{ question: 'Do you clean tile roofs?', answer: 'Yes.' }]),
+};
+for (const [type, data] of Object.entries(built)) {
+  const issues = validateJsonLd(JSON.parse(JSON.stringify(data)), options);
+  check(`${type} from the builders is valid`, issues.length === 0, describe(issues));
+}
+
+// Test 6: The post-build check
+const dist = fs.mkdtempSync(path.join(os.tmpdir(), 'structured-data-'));
+const page = (url: string, data: unknown) => {
+  fs.mkdirSync(path.join(dist, url), { recursive: true });
+  fs.writeFileSync(path.join(dist, url, 'index.html'), `<html><head><script type="application/ld+json">${JSON.stringify(data)}</script></head></html>`);
+};
+const validate = () => runScript('scripts/validate-structured-data.ts', [`--dist=${dist}`]);
+page('', business);
+page('services/roof-cleaning', { '@context': 'https://schema.org', '@type': 'Service', name: 'Roof Cleaning', provider: { '@type': 'LocalBusiness', name: business.name } });
+const valid = validate();
+const passed = valid.status === 0 && valid.stdout.includes('Pages scanned: 2');
+check('A valid build passes', passed, passed ? undefined : valid.stdout + valid.stderr);
+page('services/roof-cleaning', service);
+const invalid = validate();
+check('Errors fail the build', invalid.status === 1);
+const reported = invalid.stdout.includes('📄 /services/roof-cleaning/') && invalid.stdout.includes('Service.offers.price')
+  && !invalid.stdout.includes('📄 /\n');
+check('with a report per URL', reported, reported ? undefined : invalid.stdout);
+fs.rmSync(dist, { recursive: true });
+
+finish('✨ All structured data validator tests passed');
@@ -0,0 +1,111 @@
+/**
+ * Test script for the structured data builders
+ * Verifies the JSON-LD pages emit takes the service-area centre, radius,
+ * address and hours from business.yaml (not a hard-coded Brisbane circle),
+ * and that sparse suburb data, branches, prices, breadcrumbs and FAQs come
+ * out the way Google expects
+ */
+
+import fs from 'fs';
+import { siteConfig, type Branch } from '../../src/config/site';
+import { readServiceAreaFile, toSchemaPolygons } from '../../src/utils/service-area';
+import {
+  absoluteUrl,
+  buildBreadcrumbSchema,
+  buildFaqSchema,
+  buildGeoCircle,
+  buildLocalBusinessSchema,
+  buildLocationBusinessSchema,
+  buildServiceAreaSchema,
+  buildServiceSchema,
+  buildSuburbPlace,
+  getServiceAreaCenter,
+  omitEmpty,
+} from '../../src/utils/structured-data';
+import { check, finish } from './helpers';
+
+type JsonLd = Record<string, any>;
+
+const business = buildLocalBusinessSchema() as JsonLd;
+const burleigh = { name: 'Burleigh Heads', state: 'QLD', postcode: '4220', latitude: -28.0889, longitude: 153.4493 };
+
+console.log('🧪 Testing Structured Data\n');
+
+// Test 1: Site-wide LocalBusiness
+const { centerLat, centerLng, serviceRadiusKm } = siteConfig.locationPages;
+check('Geo is the configured service-area centre', business.geo.latitude === Number(centerLat) && business.geo.longitude === Number(centerLng),
+  JSON.stringify(business.geo));
+const circle = business.areaServed.find((area: JsonLd) => area['@type'] === 'GeoCircle');
+check('The service circle uses the configured centre and radius in metres', circle?.geoMidpoint.latitude === Number(centerLat)
+  && circle.geoRadius === String(Number(serviceRadiusKm) * 1000), JSON.stringify(circle));
+check('Not the old Brisbane midpoint', !JSON.stringify(business).includes('-27.4698'));
+check('The main location is served too', business.areaServed.some((area: JsonLd) => area['@type'] === 'City' && area.name === siteConfig.mainLocation));
+check('Address with an ISO country code', business.address.addressLocality === siteConfig.address.city && business.address.addressCountry === 'AU');
+check('Opening hours from the hours model', business.openingHoursSpecification.length > 0
+  && business.openingHoursSpecification.every((hours: JsonLd) => /^\d{2}:\d{2}$/.test(hours.opens)));
+check('Logo as an absolute URL', !siteConfig.businessLogo || business.logo === absoluteUrl(siteConfig.businessLogo));
+
+// Test 2: Fallbacks and polygons
+const { suburbs, center } = JSON.parse(fs.readFileSync('src/data/suburbs.json', 'utf8'));
+const configured = { ...siteConfig.locationPages };
+Object.assign(siteConfig.locationPages, { centerLat: undefined, centerLng: undefined });
+check('Without a configured centre, the suburbs data centre is used', JSON.stringify(getServiceAreaCenter()) === JSON.stringify({ lat: center.lat, lng: center.lng }));
+const geometry = readServiceAreaFile('config/service-area.example.geojson');
+Object.assign(siteConfig.locationPages, { serviceArea: { geometry, include: [], exclude: [] } });
+const shapes = [(buildLocalBusinessSchema() as JsonLd).areaServed].flat().filter((area: JsonLd) => area['@type'] === 'GeoShape');
+check('A service area polygon replaces the circle', shapes.length === toSchemaPolygons(geometry).length
+  && shapes[0].polygon === toSchemaPolygons(geometry)[0] && !JSON.stringify(buildLocalBusinessSchema()).includes('GeoCircle'));
+Object.assign(siteConfig.locationPages, configured);
+check('Custom circles', JSON.stringify(buildGeoCircle({ lat: -28, lng: 153.4 }, 2.5)) === JSON.stringify({
+  '@type': 'GeoCircle',
+  geoMidpoint: { '@type': 'GeoCoordinates', latitude: -28, longitude: 153.4 },
+  geoRadius: '2500',
+}));
+
+// Test 3: Suburb pages
+const location = buildLocationBusinessSchema({ suburb: burleigh, url: '/locations/burleigh-heads-qld-4220/', description: 'Roof cleaning in Burleigh Heads' }) as JsonLd;
+check('Named for the suburb', location.name === `${siteConfig.businessName} - Burleigh Heads`, location.name);
+check('Suburb address and a local circle', location.address.postalCode === '4220' && location.areaServed.geoRadius === '10000'
+  && location.geo.latitude === burleigh.latitude);
+check('Absolute page URL', location.url === absoluteUrl('/locations/burleigh-heads-qld-4220/') && location.url.startsWith('https://'));
+const sparse = buildLocationBusinessSchema({ suburb: { ...burleigh, postcode: '' }, url: '/x/', description: '' }) as JsonLd;
+check('Missing data is left out rather than blank', !('postalCode' in sparse.address) && !('description' in sparse), JSON.stringify(sparse.address));
+const branch: Branch = {
+  id: 'tweed-heads', name: 'Tweed Heads', phone: '(07) 5500 0000', formattedPhone: '0755000000', email: 'tweed@example.com',
+  address: { street: '1 Wharf St', city: 'Tweed Heads', state: 'NSW', postcode: '2485', country: 'Australia' },
+  coordinates: { lat: -28.18, lng: 153.54 },
+  hoursModel: siteConfig.hoursModel,
+};
+const branchPage = buildLocationBusinessSchema({ suburb: burleigh, url: '/x/', description: 'x', branch }) as JsonLd;
+check('A branch supplies the phone, address and coordinates', branchPage.telephone === branch.phone
+  && branchPage.address.streetAddress === '1 Wharf St' && branchPage.geo.latitude === -28.18);
+const named = buildLocationBusinessSchema({ suburb: { ...burleigh, name: 'Gold Coast' }, url: '/x/', description: 'x' }) as JsonLd;
+check('A place already in the business name isn\'t repeated', named.name === siteConfig.businessName, named.name);
+
+// Test 4: Services
+const service = buildServiceSchema({ name: 'Tile Roof Cleaning', url: '/services/tile-roof-cleaning', image: '/images/tile.jpg', serviceSlug: 'tile-roof-cleaning' }) as JsonLd;
+check('Service with provider and absolute URLs', service.provider.name === siteConfig.businessName
+  && service.url === absoluteUrl('/services/tile-roof-cleaning') && service.image === absoluteUrl('/images/tile.jpg'));
+check('Serves the main location by default', service.areaServed.name === siteConfig.mainLocation);
+check('Priced services get a price range, not text', !siteConfig.pricing || (service.offers.priceSpecification?.[0]?.minPrice > 0
+  && typeof service.offers.price === 'undefined'), JSON.stringify(service.offers).slice(0, 200));
+const unpriced = buildServiceSchema({ name: 'Inspection', url: '/services/inspection', serviceSlug: 'inspection' }) as JsonLd;
+check('Unpriced services have no price', unpriced.offers.priceSpecification === undefined && unpriced.offers.addOn === undefined);
+const combined = buildServiceSchema({ name: 'Tile Roof Cleaning in Burleigh Heads', url: '/x/', areaServed: buildSuburbPlace(burleigh) }) as JsonLd;
+check('Service × location pages serve their suburb', combined.areaServed['@type'] === 'City' && combined.areaServed.containedInPlace.name === 'QLD');
+const area = buildServiceAreaSchema(suburbs.slice(0, 3)) as JsonLd;
+check('The locations index serves every suburb listed', area.areaServed.length === 3 && area.areaServed[0].name === suburbs[0].name);
+
+// Test 5: Breadcrumbs and FAQs
+const breadcrumbs = buildBreadcrumbSchema([{ name: 'Home', url: '/' }, { name: 'Services', url: '/services' }]) as JsonLd;
+check('Breadcrumbs are numbered from 1 with absolute URLs', JSON.stringify(breadcrumbs.itemListElement.map((item: JsonLd) => [item.position, item.item]))
+  === JSON.stringify([[1, absoluteUrl('/')], [2, absoluteUrl('/services')]]));
+const faq = buildFaqSchema([
+  { question: 'Do you clean tile roofs?', answer: 'Yes.' },
+  { question: 'Do you clean in the rain?', answer: ' ' },
+]) as JsonLd;
+check('FAQs with a blank answer are dropped', faq.mainEntity.length === 1 && faq.mainEntity[0].acceptedAnswer.text === 'Yes.');
+check('omitEmpty keeps zeros and false', JSON.stringify(omitEmpty({ a: '', b: 0, c: false, d: [], e: { '@type': 'X' }, f: [null, 'x'] }))
+  === '{"b":0,"c":false,"f":["x"]}');
+
+finish('✨ All structured data tests passed');
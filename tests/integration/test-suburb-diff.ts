@@ -0,0 +1,96 @@
+/**
+ * Test script for the suburb diff and location redirects
+ * Verifies added/removed/renamed/postcode changes, redirect targets, the
+ * per-profile rules file and the managed _redirects block (run against
+ * temporary files)
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { diffSuburbs, locationSlug, type DiffSuburb } from '../../scripts/lib/suburb-diff';
+import {
+  getRedirectRulesPath,
+  mergeRedirects,
+  readManagedRedirects,
+  readRedirectRules,
+  writeManagedRedirects,
+  writeRedirectRules,
+} from '../../scripts/lib/redirects';
+import { check, finish } from './helpers';
+
+console.log('🧪 Testing Suburb Diff\n');
+
+const suburb = (id: number, name: string, postcode: string, latitude: number, longitude: number): DiffSuburb =>
+  ({ id, name, state: 'QLD', postcode, latitude, longitude });
+
+const previous = [
+  suburb(1, 'Bundall', '4217', -28.01, 153.41),
+  suburb(2, 'Southport', '4215', -27.97, 153.40),
+  suburb(3, 'Coolangatta', '4225', -28.17, 153.54),
+  suburb(4, 'Tugun', '4224', -28.15, 153.49),
+  suburb(5, 'Mermaid Beach', '4218', -28.04, 153.43),
+];
+const next = [
+  suburb(1, 'Bundall', '4217', -28.01, 153.41),
+  suburb(2, 'Southport Central', '4215', -27.97, 153.40),
+  suburb(4, 'Tugun', '4225', -28.15, 153.49),
+  suburb(5, 'Mermaid Beach', '4218', -28.04, 153.43),
+  suburb(6, 'Robina', '4226', -28.08, 153.38),
+];
+
+// Test 1: Slugs match the location page URLs
+check('Slug format', locationSlug(previous[2]) === 'coolangatta-qld-4225' && locationSlug({ name: "St Helena's Point", state: 'NSW', postcode: null }) === 'st-helena-s-point-nsw');
+
+// Test 2: Changes are classified
+const diff = diffSuburbs(previous, next);
+check('Added', diff.added.map((s) => s.name).join() === 'Robina');
+check('Removed', diff.removed.map((s) => s.name).join() === 'Coolangatta');
+check('Renamed', diff.renamed.length === 1 && diff.renamed[0].to.slug === 'southport-central-qld-4215');
+check('Postcode changed', diff.postcodeChanged.length === 1 && diff.postcodeChanged[0].to === '4225');
+
+// Test 3: Redirect targets (renames follow the suburb, removals go to the nearest page)
+const targets = Object.fromEntries(diff.redirects.map((r) => [r.from, `${r.to} ${r.reason}`]));
+check('Rename redirect', targets['/locations/southport-qld-4215/'] === '/locations/southport-central-qld-4215/ renamed');
+check('Postcode redirect', targets['/locations/tugun-qld-4224/'] === '/locations/tugun-qld-4225/ postcode');
+check('Removed suburb redirects to the nearest page', targets['/locations/coolangatta-qld-4225/'] === '/locations/tugun-qld-4225/ removed');
+check('Unchanged pages have no redirect', !targets['/locations/bundall-qld-4217/'], `${diff.redirects.length} redirects`);
+
+// Test 4: Dropping below max_location_pages loses the page
+const capped = diffSuburbs(next, [next[0], next[4], next[1], next[2], next[3]], 3);
+check('Page limit redirect', capped.redirects.some((r) => r.reason === 'page-limit'), JSON.stringify(capped.redirects));
+
+// Test 5: Chains collapse and live pages drop their rule
+const merged = mergeRedirects(
+  [{ from: '/locations/a/', to: '/locations/b/' }, { from: '/locations/c/', to: '/locations/d/' }],
+  [{ from: '/locations/b/', to: '/locations/e/' }],
+  new Set(['/locations/c/'])
+);
+check('Merge collapses chains', JSON.stringify(merged) === JSON.stringify([
+  { from: '/locations/a/', to: '/locations/e/' },
+  { from: '/locations/b/', to: '/locations/e/' },
+]));
+
+// Test 6: Each profile keeps its rules next to its own suburbs.json
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'redirects-'));
+check('Rules live beside the profile\'s suburbs',
+  getRedirectRulesPath('src/data/sites/brisbane/suburbs.json') === path.join('src/data/sites/brisbane', 'location-redirects.json'));
+const rulesFile = getRedirectRulesPath(path.join(tmp, 'sites', 'brisbane', 'suburbs.json'));
+check('No rules before the first regeneration', readRedirectRules(rulesFile).length === 0);
+writeRedirectRules(merged, rulesFile);
+check('Rules are read back', JSON.stringify(readRedirectRules(rulesFile)) === JSON.stringify(merged));
+
+// Test 7: Managed block round trip leaves the rest of the file alone
+const file = path.join(tmp, '_redirects');
+const original = '# Hand-written rules\n/old / 301\n';
+fs.writeFileSync(file, original);
+writeManagedRedirects(merged, file);
+check('Managed block is read back', JSON.stringify(readManagedRedirects(file)) === JSON.stringify(merged));
+check('Hand-written rules kept', fs.readFileSync(file, 'utf8').startsWith(original));
+writeManagedRedirects(merged.slice(1), file);
+check('Rewriting replaces the block', JSON.stringify(readManagedRedirects(file)) === JSON.stringify(merged.slice(1)));
+writeManagedRedirects([], file);
+check('Empty block is removed', fs.readFileSync(file, 'utf8') === original);
+fs.rmSync(tmp, { recursive: true });
+
+finish('✅ Suburb diff test complete!');
@@ -0,0 +1,57 @@
+/**
+ * Test script for the suburb enrichment CSV
+ * Verifies CSV parsing, the committed config/suburb-enrichment.csv and how
+ * enrichment is attached to exported suburbs
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { enrichSuburbs, parseCsv, readEnrichment } from '../../scripts/lib/suburb-enrichment';
+import { getSuburbVariables } from '../../src/utils/suburb-enrichment';
+import { applyTemplateVariables } from '../../src/utils/template-variables';
+import { check, finish } from './helpers';
+
+console.log('🧪 Testing Suburb Enrichment\n');
+
+// Test 1: Quoted fields, comments and blank lines
+const rows = parseCsv('# comment, with commas\nname,note\n"Smith, Jones","say ""hi"""\n\nPlain,\r\n');
+check('CSV parsing', JSON.stringify(rows) === JSON.stringify([['name', 'note'], ['Smith, Jones', 'say "hi"'], ['Plain', '']]), JSON.stringify(rows));
+
+// Test 2: The committed CSV covers every exported suburb
+const enrichment = readEnrichment();
+const { suburbs } = JSON.parse(fs.readFileSync('src/data/suburbs.json', 'utf8'));
+const enriched = enrichSuburbs(suburbs as Array<{ name: string; state: string }>, enrichment);
+check('Every suburb is enriched', enriched.every((suburb) => suburb.enrichment), `${enrichment.size} CSV rows`);
+const byName = (name: string) => enriched.find((suburb) => suburb.name === name)?.enrichment;
+check('Beachfront suburbs are coastal', byName('Burleigh Heads')?.coastal === true && byName('Nerang')?.coastal === false);
+check('NSW suburbs are in Tweed Shire', byName('Cobaki Lakes')?.lga === 'Tweed Shire');
+check('Blank cells are left out', byName('Robina') !== undefined && !('housingEra' in byName('Robina')!));
+
+// Test 3: Roof mix and validation
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'enrichment-'));
+const header = 'name,state,lga,region,coastal,housing_era,roof_mix\n';
+fs.writeFileSync(path.join(dir, 'ok.csv'), `${header}Kirra,QLD,City of Gold Coast,Southern Gold Coast,yes,1960s-1970s,tile:55|metal:45\n`);
+const kirra = readEnrichment(path.join(dir, 'ok.csv')).get('kirra|QLD');
+check('Roof mix is parsed', JSON.stringify(kirra?.roofMix) === '{"tile":55,"metal":45}' && kirra?.housingEra === '1960s-1970s');
+
+fs.writeFileSync(path.join(dir, 'bad.csv'), `${header}Kirra,QLD,,,maybe,,\n`);
+let error = '';
+try {
+  readEnrichment(path.join(dir, 'bad.csv'));
+} catch (e) {
+  error = (e as Error).message;
+}
+check('Invalid coastal value is rejected', error.includes('coastal'), error);
+fs.rmSync(dir, { recursive: true });
+
+// Template variables: unenriched suburbs leave the LGA and region to the template
+const unenriched = getSuburbVariables({ name: 'Nowhere', state: 'QLD', enrichment: {} });
+check('Missing LGA and region are blank', unenriched.lga === '' && unenriched.region === '' && unenriched.coastalOrInland === 'local',
+  JSON.stringify(unenriched));
+check('so {{#if}} blocks and fallbacks apply',
+  applyTemplateVariables<string>('across the {{region|Gold Coast}}{{#if lga}} in {{lga}}{{/if}}', { ...unenriched }) === 'across the Gold Coast'
+    && applyTemplateVariables<string>('across the {{region|Gold Coast}}', { ...getSuburbVariables({ name: 'Kirra', state: 'QLD', enrichment: kirra }) })
+      === 'across the Southern Gold Coast');
+
+finish('✅ Suburb enrichment test complete!');
@@ -0,0 +1,43 @@
+/**
+ * Test script for the "Do you service my area?" lookup
+ * Verifies the compact index built from suburbs.json and fuzzy matching of
+ * suburb names (typos, partial names, state/postcode suffixes) and postcodes
+ */
+
+import fs from 'fs';
+import { buildLookupIndex, editDistance, normaliseSuburbName, searchLookupIndex } from '../../src/utils/suburb-lookup';
+import { check, finish } from './helpers';
+
+console.log('🧪 Testing Suburb Lookup\n');
+
+const { suburbs } = JSON.parse(fs.readFileSync('src/data/suburbs.json', 'utf8'));
+const index = buildLookupIndex(
+  suburbs.slice(0, 100).map((suburb: { name: string; state: string; postcode: string | null }) => ({ suburb, url: `/locations/${suburb.name}/` })),
+  suburbs.slice(90)
+);
+const names = (query: string) => searchLookupIndex(index, query).map((match) => match.name);
+
+// Test 1: Index
+check('One entry per suburb', index.length === suburbs.length, `${index.length} entries`);
+check('Page URL wins over a mention', index.find(([name]) => name === suburbs[95].name)?.[3] === `/locations/${suburbs[95].name}/`);
+check('Mentions have no URL', index.find(([name]) => name === suburbs[105].name)?.[3] === '');
+
+// Test 2: Normalising and edit distance
+check('Normalise', normaliseSuburbName("Burleigh Heads QLD 4220") === 'burleigh heads' && normaliseSuburbName("Mt Tamborine") === 'mount tamborine');
+check('Transposition costs 1', editDistance('burliegh', 'burleigh') === 1);
+
+// Test 3: Names
+check('Exact name', names('Robina')[0] === 'Robina' && searchLookupIndex(index, 'robina')[0].score === 1);
+check('Name with state and postcode', names('Burleigh Heads, QLD 4220')[0] === 'Burleigh Heads');
+check('Partial name', names('surfers').join() === 'Surfers Paradise');
+check('Typo', names('coolangata')[0] === 'Coolangatta' && names('burliegh')[0]?.startsWith('Burleigh'), names('burliegh').join());
+check('Later word', names('hope is').includes('Hope Island'));
+check('Outside the area', names('Brisbane City').length === 0 && names('Tweed Heads').length === 0);
+
+// Test 4: Postcodes
+const postcode = searchLookupIndex(index, '4217');
+check('Postcode returns all its suburbs', postcode.length === suburbs.filter((s: { postcode: string }) => s.postcode === '4217').length && postcode.every((m) => m.score === 1), `${postcode.length} suburbs`);
+check('Unknown postcode', searchLookupIndex(index, '4000').length === 0);
+check('Partial postcode is capped', searchLookupIndex(index, '421').length === 5);
+
+finish('✅ Suburb lookup test complete!');
@@ -0,0 +1,66 @@
+/**
+ * Test script for per-suburb section overrides
+ * Verifies props are merged over the shared location sections, lists are
+ * appended to, sections are switched off and inserted in a fixed order, and
+ * ambiguous or conflicting overrides are rejected
+ */
+
+import fs from 'fs';
+import yaml from 'js-yaml';
+import { applySuburbOverrides, SuburbOverrideError, type LocationSection, type SectionOverride } from '../../src/utils/suburb-overrides';
+import { check, finish } from './helpers';
+
+function issuesOf(overrides: SectionOverride[]): string[] {
+  try {
+    applySuburbOverrides(shared, overrides, 'surfers-paradise.md');
+    return [];
+  } catch (error) {
+    return error instanceof SuburbOverrideError ? error.issues : [String(error)];
+  }
+}
+
+console.log('🧪 Testing Suburb Overrides\n');
+
+const { sections: shared } = yaml.load(fs.readFileSync('src/content/locationSections/locations.yaml', 'utf8')) as { sections: LocationSection[] };
+const order = (sections: LocationSection[]) => sections.map((section) => section.id ?? section.component);
+
+// Test 1: No overrides
+const unchanged = applySuburbOverrides(shared, [], 'surfers-paradise.md');
+check('No overrides leaves the shared sections', JSON.stringify(unchanged) === JSON.stringify(shared));
+
+// Test 2: Changing shared sections
+const hero = shared.find((section) => section.id === 'hero')!;
+const faq = shared.find((section) => section.id === 'faq')!;
+const result = applySuburbOverrides(shared, [
+  { target: 'HeroWithForm', props: { backgroundImage: '/images/surfers.jpg' } },
+  { target: 'faq', append: { faqs: [{ question: 'Beachfront?', answer: 'Yes.' }] } },
+  { target: 'services', enabled: false },
+], 'surfers-paradise.md');
+const resultHero = result.find((section) => section.id === 'hero')!;
+check('Props are merged', resultHero.props!.backgroundImage === '/images/surfers.jpg' && resultHero.props!.title === hero.props!.title);
+check('Lists are appended to', result.find((section) => section.id === 'faq')!.props!.faqs.length === faq.props!.faqs.length + 1);
+check('Sections can be switched off', result.find((section) => section.id === 'services')!.enabled === false);
+check('Shared sections are not modified', hero.props!.backgroundImage !== '/images/surfers.jpg' && faq.props!.faqs.length === 4);
+
+// Test 3: Inserting sections
+const inserted = applySuburbOverrides(shared, [
+  { after: 'intro', component: 'TwoColumnSection', id: 'case-study' },
+  { before: 'cta', component: 'ServiceContent' },
+  { after: 'intro', component: 'IconGrid', id: 'tips' },
+], 'surfers-paradise.md');
+check('Inserted in place, file order at the same spot',
+  order(inserted).join() === 'hero,services,intro,case-study,tips,service-areas,why-choose-us,process,faq,ServiceContent,cta',
+  order(inserted).join());
+
+// Test 4: Invalid overrides
+check('Unknown section', issuesOf([{ target: 'gallery', props: {} }])[0]?.includes('no section "gallery"'));
+check('Ambiguous component', issuesOf([{ target: 'IconGrid', props: {} }])[0]?.includes('matches 2 sections'));
+check('Overridden twice', issuesOf([{ target: 'faq', props: {} }, { target: 'ServiceFAQ', append: { faqs: [] } }])[0]?.includes('already overridden'));
+check('Needs one reference', issuesOf([{ target: 'faq', after: 'faq', component: 'IconGrid' }]).length === 1 && issuesOf([{ props: {} }]).length === 1);
+check('Insert needs a component', issuesOf([{ after: 'faq' }])[0]?.includes('need a component'));
+check('Duplicate id', issuesOf([{ after: 'faq', component: 'IconGrid', id: 'process' }])[0]?.includes('already used'));
+check('Append to a non-list', issuesOf([{ target: 'faq', append: { heading: ['x'] } }])[0]?.includes('not a list'));
+check('Insert next to a switched off section', issuesOf([{ target: 'cta', enabled: false }, { before: 'cta', component: 'ServiceContent' }])[0]?.includes('switched off'));
+check('All issues reported at once', issuesOf([{ target: 'gallery' }, { after: 'faq' }]).length === 2);
+
+finish('✅ Suburb overrides test complete!');
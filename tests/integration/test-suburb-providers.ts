@@ -0,0 +1,110 @@
+/**
+ * Test script for the suburb providers
+ * Verifies the offline gazetteer reproduces the committed suburbs.json,
+ * refuses queries beyond the area it covers and, when PostGIS is reachable,
+ * returns exactly the same rows as the database
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import dotenv from 'dotenv';
+import {
+  createGazetteerProvider,
+  createPostgisProvider,
+  isPostgisAvailable,
+  readGazetteer,
+  writeGazetteer,
+  type Suburb,
+  type SuburbProvider,
+  type SuburbQuery,
+} from '../../scripts/lib/suburb-providers';
+import { readServiceAreaFile } from '../../src/utils/service-area';
+import { check, finish } from './helpers';
+
+dotenv.config();
+
+// Ties on the rounded distance are ordered by id; branch and enrichment tags
+// are added by the export, not the provider
+function normalise(suburbs: Array<Suburb & { branch?: unknown; enrichment?: unknown }>): string {
+  return JSON.stringify(
+    suburbs
+      .map(({ branch, enrichment, ...suburb }) => suburb)
+      .sort((a, b) => a.distanceKm - b.distanceKm || a.id - b.id)
+  );
+}
+
+async function runProviderTests() {
+  console.log('🧪 Testing Suburb Providers\n');
+
+  const gazetteer = createGazetteerProvider();
+
+  // Test 1: Gazetteer reproduces the committed suburbs.json
+  const committed = JSON.parse(fs.readFileSync('src/data/suburbs.json', 'utf8'));
+  const query = { centerLat: committed.center.lat, centerLng: committed.center.lng, radiusKm: committed.radiusKm };
+  const offline = await gazetteer.findSuburbsWithinRadius(query);
+  check(
+    'Gazetteer matches src/data/suburbs.json',
+    normalise(offline) === normalise(committed.suburbs),
+    `${offline.length} suburbs within ${query.radiusKm}km`
+  );
+
+  // Test 2: Smaller radius is a prefix of the full result
+  const nearby = await gazetteer.findSuburbsWithinRadius({ ...query, radiusKm: 5 });
+  check('5km radius is a subset', nearby.every((suburb) => suburb.distanceKm <= 5.005), `${nearby.length} suburbs`);
+
+  // Test 3: Queries beyond the bundled gazetteer's coverage fail instead of returning a partial list
+  const area = {
+    geometry: readServiceAreaFile('config/service-area.example.geojson'),
+    include: ['Cobaki Lakes, NSW'],
+    exclude: ['Couran Cove'],
+  };
+  const refusal = async (provider: SuburbProvider, refused: SuburbQuery) => provider.findSuburbsWithinRadius(refused).then(() => '', (error: Error) => error.message);
+  const wider = await refusal(gazetteer, { ...query, radiusKm: 60 });
+  check('A wider radius than the gazetteer covers is refused', wider.includes('60km around') && wider.includes(`${query.radiusKm}km around`), wider);
+  check('So is a radius circle poking out of the coverage', (await refusal(gazetteer, { ...query, centerLat: query.centerLat + 0.05 })) !== '');
+  check('So is a polygon reaching past it', (await refusal(gazetteer, { ...query, area })).includes('service area polygon'));
+  check('So are include entries it doesn\'t have',
+    (await refusal(gazetteer, { ...query, area: { include: ['Byron Bay, NSW'], exclude: [] } })).includes('"Byron Bay, NSW"'));
+
+  // Test 4: Polygon replaces the radius; include/exclude lists override it
+  // (the same rows as a complete gazetteer, since the example polygon reaches past the bundled one)
+  const completeFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'gazetteer-')), 'complete.json.gz');
+  writeGazetteer({ ...readGazetteer(), source: 'test', coverage: null }, completeFile);
+  const complete = createGazetteerProvider(completeFile);
+  const inPolygon = await complete.findSuburbsWithinRadius({ ...query, area });
+  const names = inPolygon.map((suburb) => suburb.name);
+  check(
+    'Example polygon keeps the QLD side of the border',
+    !names.includes('Piggabeen') && names.includes('Coolangatta') && names.includes('Cobaki Lakes') && !names.includes('Couran Cove'),
+    `${inPolygon.length} suburbs in the polygon`
+  );
+  const wrongState = await complete.findSuburbsWithinRadius({ ...query, area: { ...area, include: ['Cobaki Lakes, QLD'] } });
+  check('Include entries respect the state', !wrongState.some((suburb) => suburb.name === 'Cobaki Lakes'));
+  fs.rmSync(path.dirname(completeFile), { recursive: true });
+
+  // Test 5: PostGIS and gazetteer agree
+  if (await isPostgisAvailable()) {
+    const postgis = await createPostgisProvider();
+    try {
+      for (const radiusKm of [5, query.radiusKm]) {
+        const online = await postgis.findSuburbsWithinRadius({ ...query, radiusKm });
+        const fromGazetteer = await gazetteer.findSuburbsWithinRadius({ ...query, radiusKm });
+        check(`PostGIS and gazetteer match at ${radiusKm}km`, JSON.stringify(online) === JSON.stringify(fromGazetteer));
+      }
+      const online = await postgis.findSuburbsWithinRadius({ ...query, area });
+      check('PostGIS and gazetteer match for the polygon', JSON.stringify(online) === JSON.stringify(inPolygon));
+    } finally {
+      await postgis.close();
+    }
+  } else {
+    console.log('⏭️  PostGIS not available, skipping database comparison');
+  }
+
+  finish('✅ Suburb provider test complete!');
+}
+
+runProviderTests().catch((error) => {
+  console.error('❌ Suburb provider test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,45 @@
+/**
+ * Test script for page template variables
+ * Verifies {{variable}} replacement, {{#if}}/{{#unless}} blocks with
+ * {{else}} and nesting, and {{name|fallback}} for sparse suburb data
+ */
+
+import { applyTemplateVariables } from '../../src/utils/template-variables';
+import { check, finish } from './helpers';
+
+console.log('🧪 Testing Template Variables\n');
+
+const withPostcode = { postcode: '4217', housingEra: '1970s-1980s', region: 'Central Gold Coast' };
+const sparse = { postcode: null, housingEra: '', region: undefined };
+const apply = (text: string, variables: Record<string, string | null | undefined>) => applyTemplateVariables(text, variables);
+
+// Test 1: Variables
+check('Known variables are replaced', apply('{{region}} homes', withPostcode) === 'Central Gold Coast homes');
+check('Unknown variables are left for LocationContext', apply('{{suburb}} {{state}}', withPostcode) === '{{suburb}} {{state}}');
+check('Null values render blank', apply('in {{suburb}} {{postcode}}', sparse) === 'in {{suburb}} ');
+
+// Test 2: Conditional blocks
+const throughout = 'throughout {{suburb}}{{#if postcode}} {{postcode}}{{/if}}.';
+check('{{#if}} with a value', apply(throughout, withPostcode) === 'throughout {{suburb}} 4217.');
+check('{{#if}} without a value', apply(throughout, sparse) === 'throughout {{suburb}}.', apply(throughout, sparse));
+check('{{else}}', apply('{{#if housingEra}}Built {{housingEra}}.{{else}}Homes of every age.{{/if}}', sparse) === 'Homes of every age.');
+check('{{#unless}}', apply('{{#unless postcode}}Ask us about {{suburb}}.{{/unless}}', sparse) === 'Ask us about {{suburb}}.' &&
+  apply('{{#unless postcode}}x{{/unless}}', withPostcode) === '');
+check('Unknown variables count as missing', apply('{{#if lga}}{{lga}}{{else}}the council{{/if}}', withPostcode) === 'the council');
+check('Nested blocks', apply('{{#if region}}{{region}}{{#if postcode}} ({{postcode}}){{/if}}{{/if}}', withPostcode) === 'Central Gold Coast (4217)' &&
+  apply('{{#if region}}x{{#if postcode}}y{{/if}}{{else}}z{{/if}}', sparse) === 'z');
+check('Spans lines', apply('a{{#if postcode}}\nb\n{{/if}}c', sparse) === 'ac');
+
+// Test 3: Fallbacks
+check('Fallback unused', apply('across the {{region|Gold Coast}}', withPostcode) === 'across the Central Gold Coast');
+check('Fallback used', apply('across the {{region|Gold Coast}}', sparse) === 'across the Gold Coast' &&
+  apply('{{housingEra|all eras}}', sparse) === 'all eras');
+
+// Test 4: Objects and arrays
+const sections = applyTemplateVariables(
+  [{ props: { faqs: [{ answer: 'In {{suburb}}{{#if postcode}} {{postcode}}{{/if}}' }], count: 3 } }],
+  withPostcode
+);
+check('Deep replacement', sections[0].props.faqs[0].answer === 'In {{suburb}} 4217' && sections[0].props.count === 3);
+
+finish('✅ Template variables test complete!');
@@ -0,0 +1,47 @@
+#!/usr/bin/env tsx
+
+/**
+ * Run the integration tests
+ *
+ * Runs each tests/integration/test-*.ts in turn and fails when any of them
+ * does.
+ *
+ * Usage:
+ *   npm test [-- name ...]
+ *
+ * Names pick the tests whose file name contains them, e.g.
+ * `npm test -- pricing booking`.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { spawnSync } from 'child_process';
+
+const TEST_DIR = path.join('tests', 'integration');
+const TIMEOUT_MS = 5 * 60_000;
+
+const filters = process.argv.slice(2);
+const tests = fs.readdirSync(TEST_DIR)
+  .filter((file) => /^test-.*\.ts$/.test(file))
+  .filter((file) => filters.length === 0 || filters.some((filter) => file.includes(filter)))
+  .sort();
+
+if (tests.length === 0) {
+  console.error(`❌ No tests match ${filters.join(', ')}`);
+  process.exit(1);
+}
+
+const failed: string[] = [];
+for (const test of tests) {
+  console.log(`\n▶ ${test}\n`);
+  const run = spawnSync(path.join('node_modules', '.bin', 'tsx'), [path.join(TEST_DIR, test)], {
+    stdio: 'inherit',
+    timeout: TIMEOUT_MS,
+  });
+  if (run.status !== 0) failed.push(run.error ? `${test} (${run.error.message})` : test);
+}
+
+console.log(`\n${'─'.repeat(60)}`);
+console.log(`Tests run: ${tests.length}, failed: ${failed.length}`);
+for (const test of failed) console.log(`❌ ${test}`);
+process.exit(failed.length === 0 ? 0 : 1);